@@ -0,0 +1,202 @@
+"use client";
+
+/**
+ * NpmCacheModal — manage the offline npm package cache (npm-cache.ts).
+ *
+ * Shows how much the cache holds and which package versions are in it,
+ * and frees space: one package at a time, everything cached over a month
+ * ago, or the whole cache. Removed packages are simply downloaded again
+ * by the next install that needs them.
+ */
+
+import {
+    clearNpmCache,
+    removeCachedPackages,
+    summarizeNpmCache,
+    type CachedPackage,
+    type NpmCacheSummary,
+} from "@/lib/npm-cache";
+import { HardDrive, Loader2, Search, Trash2, X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+/** "Prune old" removes packages cached longer ago than this. */
+const PRUNE_AGE_DAYS = 30;
+
+interface NpmCacheModalProps {
+  open: boolean;
+  onClose: () => void;
+  userHash: string;
+  encryptionKey?: CryptoKey;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function NpmCacheModal({ open, onClose, userHash, encryptionKey }: NpmCacheModalProps) {
+  const [summary, setSummary] = useState<NpmCacheSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [filter, setFilter] = useState("");
+
+  const refresh = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      setSummary(await summarizeNpmCache(userHash, encryptionKey));
+    } catch (err) {
+      console.error("Failed to read the package cache:", err);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [userHash, encryptionKey]);
+
+  // Re-read the cache every time the modal opens
+  useEffect(() => {
+    if (!open) return;
+    setFilter("");
+    refresh();
+  }, [open, refresh]);
+
+  const remove = useCallback(
+    async (packages: CachedPackage[]) => {
+      if (packages.length === 0) return;
+      setIsBusy(true);
+      try {
+        await removeCachedPackages(userHash, packages);
+      } finally {
+        await refresh();
+      }
+    },
+    [userHash, refresh]
+  );
+
+  const handleClear = useCallback(async () => {
+    if (!confirm("Delete every cached package? Installs will download them again.")) return;
+    setIsBusy(true);
+    try {
+      await clearNpmCache(userHash);
+    } finally {
+      await refresh();
+    }
+  }, [userHash, refresh]);
+
+  if (!open) return null;
+
+  const cutoff = Date.now() - PRUNE_AGE_DAYS * 24 * 60 * 60 * 1000;
+  const stale = summary?.packages.filter((p) => p.cachedAt < cutoff) ?? [];
+  const query = filter.trim().toLowerCase();
+  const shown = summary?.packages.filter((p) => p.name.toLowerCase().includes(query)) ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative flex max-h-[80vh] w-full max-w-lg flex-col rounded-2xl border border-border bg-surface p-8 shadow-2xl shadow-black/40">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-muted transition-colors hover:text-foreground"
+          aria-label="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <h2 className="mb-1 flex items-center gap-2 text-xl font-bold text-foreground">
+          <HardDrive className="h-5 w-5 text-indigo" />
+          Package Cache
+        </h2>
+        <p className="mb-5 text-sm text-muted">
+          Packages downloaded by installs, shared by all your projects so they install again offline.
+        </p>
+
+        {/* Summary */}
+        <div className="mb-4 flex items-center gap-4 text-sm">
+          {summary ? (
+            <>
+              <span className="font-semibold text-foreground">{formatBytes(summary.totalBytes)}</span>
+              <span className="text-muted">
+                {summary.packages.length} package{summary.packages.length === 1 ? "" : "s"}
+              </span>
+            </>
+          ) : (
+            <span className="text-muted">Reading cache…</span>
+          )}
+          {isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted" />}
+        </div>
+
+        {/* Filter */}
+        {summary && summary.packages.length > 0 && (
+          <div className="relative mb-3">
+            <Search className="absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted" />
+            <input
+              type="text"
+              placeholder="Filter packages…"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full rounded-lg border border-border-light bg-background py-2 pr-3 pl-9 text-sm text-foreground placeholder-muted/50 outline-none transition-colors focus:border-indigo focus:ring-1 focus:ring-indigo"
+            />
+          </div>
+        )}
+
+        {/* Packages */}
+        <div className="mb-6 min-h-0 flex-1 overflow-y-auto rounded-lg border border-border-light">
+          {summary && shown.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-muted/60">
+              {summary.packages.length === 0 ? "Nothing cached yet." : "No matching packages."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {shown.map((pkg) => (
+                <li key={`${pkg.name}@${pkg.version}`} className="group flex items-center gap-3 px-4 py-2">
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate font-mono text-xs text-foreground">
+                      {pkg.name}
+                      <span className="text-muted">@{pkg.version}</span>
+                    </span>
+                    <span className="block text-[11px] text-muted/60">
+                      {formatBytes(pkg.size)} · cached {new Date(pkg.cachedAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => remove([pkg])}
+                    disabled={isBusy}
+                    className="rounded p-1 text-muted/40 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100 disabled:opacity-30"
+                    title="Remove from cache"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={() => remove(stale)}
+            disabled={isBusy || stale.length === 0}
+            className="rounded-lg border border-border-light px-4 py-2.5 text-sm text-muted transition-colors hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+            title={`Remove packages cached more than ${PRUNE_AGE_DAYS} days ago`}
+          >
+            Prune older than {PRUNE_AGE_DAYS} days
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={isBusy || !summary || summary.fileCount === 0}
+            className="flex items-center gap-2 rounded-lg bg-red-500/90 px-5 py-2.5 text-sm font-semibold text-white transition-all hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            Clear cache
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,28 +7,78 @@
  * offline, privacy-first coding assistant. Features:
  *
  *   - Message history with streaming token display
+ *   - Named threads per project, persisted encrypted in OPFS (chat-threads.ts)
  *   - Model loading with progress bar
- *   - FILE block parsing → DiffView for accept/reject
- *   - Context-aware prompts (current file + project tree)
+ *   - FILE block parsing → DiffView for accept/reject, per file or per hunk
+ *   - Live per-file progress while the model streams (StreamingActionParser)
+ *   - Context-aware prompts (current file, its imports/importers and files
+ *     the prompt names, project tree), fitted to the model's context
+ *     window with a per-reply context report
+ *   - @-mentions with autocomplete: files, folders, @terminal and
+ *     @preview-errors are pulled into the prompt (mentions.ts)
  *   - WebGPU badge / CPU fallback indicator
  */
 
-import { gatherContext } from "@/lib/ai-context";
+import { gatherContext, type ContextAttachment } from "@/lib/ai-context";
 import {
     useAIEngine,
     type ChatMessage,
 } from "@/lib/ai-engine";
-import { parseAIResponse, type FileAction } from "@/lib/ai-parser";
+import {
+    parseAIResponse,
+    simulateActions,
+    simulationSources,
+    StreamingActionParser,
+    type FileAction,
+    type ParsedResponse,
+    type StreamEvent,
+} from "@/lib/ai-parser";
+import {
+    createThread,
+    deleteThread,
+    DEFAULT_THREAD_TITLE,
+    listThreads,
+    saveThread,
+    titleFromPrompt,
+    type ChatThread,
+    type ChatThreadMessage,
+} from "@/lib/chat-threads";
+import {
+    estimateMessages,
+    estimateTokens,
+    fitHistory,
+    formatTokens,
+    planBudget,
+} from "@/lib/context-budget";
+import { loadProjectFiles } from "@/lib/import-graph";
+import {
+    insertMention,
+    mentionQueryAt,
+    parseMentions,
+    suggestMentions,
+    type MentionQuery,
+    type MentionSuggestion,
+} from "@/lib/mentions";
 import { usePendingPaths, type PendingReview } from "@/lib/pending-change-context";
+import { resolveReview } from "@/lib/review-resolution";
 import {
     Bot,
     CheckCheck,
+    ChevronDown,
     ChevronRight,
     Cpu,
+    Eraser,
     FileClock,
+    FileCode,
+    Folder,
     Loader2,
+    MessagesSquare,
+    Pencil,
+    Plus,
     Send,
     Square,
+    SquareTerminal,
+    Trash2,
     User,
     X,
     Zap
@@ -36,26 +86,33 @@ import {
 import {
     useCallback,
     useEffect,
+    useMemo,
     useRef,
     useState,
     type FC,
 } from "react";
+import DiffView from "./DiffView";
 import MarkdownRenderer from "./MarkdownRenderer";
 
 // ─── Types ──────────────────────────────────────────────────
 
-interface UIMessage {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  /** Parsed file actions from the assistant's response */
-  actions?: FileAction[];
-  /** Which actions have been accepted/rejected (by path) */
-  actionStatus?: Record<string, "accepted" | "rejected">;
-  /** Whether this message is still being streamed */
+interface UIMessage extends ChatThreadMessage {
+  /** Whether this message is still being streamed (never persisted) */
   streaming?: boolean;
 }
 
+/** Progress of a file block the model is still writing. */
+interface LiveFile {
+  path: string;
+  kind: FileAction["kind"];
+  /** Body lines received so far */
+  lines: number;
+  /** Partial content received so far (FILE blocks only) — drives the live diff */
+  content: string;
+  /** Set once the block has closed */
+  action?: FileAction;
+}
+
 interface ChatSidebarProps {
   /** Whether the sidebar is currently visible */
   isOpen: boolean;
@@ -71,10 +128,28 @@ interface ChatSidebarProps {
   projectId: string;
   /** Encryption key for OPFS */
   encryptionKey?: CryptoKey;
-  /** Callback when the user accepts a file change from the AI */
-  onApplyFileAction: (action: FileAction) => void;
+  /**
+   * Apply the file actions of an accepted review, in order. `label`
+   * describes the change (the prompt that produced it) for undo history.
+   * Resolves with each action's error message, null where it applied.
+   */
+  onApplyFileActions: (actions: FileAction[], label: string) => Promise<Array<string | null>>;
   /** Read a file's current content (for diff comparison) */
   readFileContent: (path: string) => Promise<string>;
+  /** 1-based cursor line in the editor — large files are elided around it */
+  getCursorLine?: () => number | null;
+  /** Recent terminal output, for @terminal */
+  getTerminalOutput?: () => string;
+  /** Errors reported by the running preview, for @preview-errors */
+  getPreviewErrors?: () => string[];
+  /** Prompt to pre-fill the input with (e.g. "Fix with AI"); a new id replaces the input */
+  draft?: ChatDraft | null;
+}
+
+export interface ChatDraft {
+  /** Changes on every request so the same text can be sent twice */
+  id: number;
+  text: string;
 }
 
 // ─── Helpers ────────────────────────────────────────────────
@@ -94,6 +169,266 @@ function modelDisplayName(modelId: string | null): string {
   return (modelId.split("-q4")[0] ?? modelId) + " (Local)";
 }
 
+/** One-line label for a file action, e.g. "src/a.js → src/b.js". */
+function describeAction(action: FileAction): string {
+  switch (action.kind) {
+    case "rename":
+      return `${action.path} → ${action.newPath}`;
+    case "mkdir":
+      return `${action.path}/`;
+    default:
+      return action.path;
+  }
+}
+
+/** Drop UI-only fields before a message is persisted. */
+function toStoredMessage(msg: UIMessage): ChatThreadMessage {
+  const stored: UIMessage = { ...msg };
+  delete stored.streaming;
+  return stored;
+}
+
+/** Short verb shown next to a pending action in the review overlay. */
+const ACTION_VERB: Record<FileAction["kind"], string> = {
+  write: "write",
+  patch: "patch",
+  delete: "delete",
+  rename: "rename",
+  mkdir: "mkdir",
+};
+
+// ─── LiveProgress ───────────────────────────────────────────────────────────
+// Shown in the overlay slot while the model is still generating: one row per
+// file block with a line counter, and an expandable partial diff for FILE
+// blocks so the user can watch the rewrite take shape.
+function LiveProgress({
+  liveFiles,
+  fileSnapshots,
+}: {
+  liveFiles: LiveFile[];
+  fileSnapshots: Record<string, string>;
+}) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const done = liveFiles.filter((f) => f.action).length;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        bottom: 0,
+        left: 0,
+        right: 0,
+        zIndex: 100,
+        pointerEvents: "auto",
+      }}
+      className="border-t-2 border-indigo/40 bg-[#07081a]/95 px-3 pb-3 pt-2.5 backdrop-blur-sm shadow-[0_-12px_32px_rgba(0,0,0,0.7)]"
+    >
+      <div className="mb-2 flex items-center gap-1.5">
+        <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-indigo-light" />
+        <span className="text-[11px] font-semibold tracking-wide text-indigo-light">
+          Writing changes…
+        </span>
+        <span className="ml-auto shrink-0 rounded-full bg-indigo/20 px-2 py-0.5 text-[9px] font-medium text-indigo-light">
+          {done}/{liveFiles.length}&nbsp;done
+        </span>
+      </div>
+
+      <div className="max-h-[260px] space-y-0.5 overflow-y-auto">
+        {liveFiles.map((f, idx) => (
+          <div key={`${idx}:${f.path}`}>
+            <button
+              onClick={() => setExpanded((e) => (e === idx ? null : idx))}
+              disabled={f.kind !== "write"}
+              className="flex w-full items-center gap-1.5 text-left disabled:cursor-default"
+            >
+              {f.action ? (
+                <CheckCheck className="h-3 w-3 shrink-0 text-emerald-400" />
+              ) : (
+                <Loader2 className="h-3 w-3 shrink-0 animate-spin text-indigo/70" />
+              )}
+              <span className="font-mono text-[10px] text-foreground/70 truncate">
+                {f.action ? describeAction(f.action) : f.path}
+              </span>
+              <span className="ml-auto shrink-0 text-[9px] tabular-nums text-muted/50">
+                {ACTION_VERB[f.kind]}
+                {f.lines > 0 ? ` · ${f.lines} lines` : ""}
+              </span>
+            </button>
+            {expanded === idx && f.kind === "write" && (
+              <DiffView
+                action={{ kind: "write", path: f.path, content: f.content.replace(/\n$/, "") }}
+                currentContent={fileSnapshots[f.path] ?? ""}
+                streaming={!f.action}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ─── ThreadBar ──────────────────────────────────────────────────────────────
+// Thread switcher under the header: pick / create / rename / clear / delete.
+// `locked` disables everything that would swap out the conversation while a
+// reply is streaming or a review is pending.
+function ThreadBar({
+  threads,
+  activeId,
+  locked,
+  onSelect,
+  onCreate,
+  onRename,
+  onClear,
+  onDelete,
+}: {
+  threads: ChatThread[];
+  activeId: string | null;
+  locked: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onClear: () => void;
+  onDelete: (id: string) => void;
+}) {
+  const [showList, setShowList] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const active = threads.find((t) => t.id === activeId);
+
+  function commitRename(value: string) {
+    if (active && value.trim()) onRename(active.id, value.trim());
+    setRenaming(false);
+  }
+
+  return (
+    <div className="relative flex items-center gap-0.5 border-b border-border/50 px-2 py-1">
+      {renaming && active ? (
+        <input
+          autoFocus
+          defaultValue={active.title}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename(e.currentTarget.value);
+            else if (e.key === "Escape") setRenaming(false);
+          }}
+          onBlur={(e) => commitRename(e.target.value)}
+          className="min-w-0 flex-1 rounded border border-indigo/40 bg-surface-light px-1.5 py-0.5 text-[11px] text-foreground outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => setShowList((v) => !v)}
+          disabled={locked}
+          className="flex min-w-0 flex-1 items-center gap-1.5 rounded px-1.5 py-0.5 text-left transition-colors hover:bg-white/5 disabled:opacity-50"
+          title="Switch conversation"
+        >
+          <MessagesSquare className="h-3 w-3 shrink-0 text-muted/60" />
+          <span className="truncate text-[11px] text-foreground/80">
+            {active?.title ?? DEFAULT_THREAD_TITLE}
+          </span>
+          <ChevronDown className="h-3 w-3 shrink-0 text-muted/50" />
+        </button>
+      )}
+
+      <button
+        onClick={onCreate}
+        disabled={locked}
+        className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground disabled:opacity-40"
+        title="New conversation"
+      >
+        <Plus className="h-3 w-3" />
+      </button>
+      <button
+        onClick={() => setRenaming(true)}
+        disabled={!active}
+        className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground disabled:opacity-40"
+        title="Rename conversation"
+      >
+        <Pencil className="h-3 w-3" />
+      </button>
+      <button
+        onClick={onClear}
+        disabled={locked || !active || active.messages.length === 0}
+        className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground disabled:opacity-40"
+        title="Clear messages"
+      >
+        <Eraser className="h-3 w-3" />
+      </button>
+
+      {showList && !locked && (
+        <div className="absolute left-2 right-2 top-full z-50 mt-1 max-h-64 overflow-y-auto rounded-md border border-border bg-surface py-1 shadow-xl">
+          {threads.map((t) => (
+            <div
+              key={t.id}
+              className={`group flex items-center gap-1 px-2 py-1 ${
+                t.id === activeId ? "bg-indigo/10" : "hover:bg-white/5"
+              }`}
+            >
+              <button
+                onClick={() => {
+                  onSelect(t.id);
+                  setShowList(false);
+                }}
+                className="min-w-0 flex-1 text-left"
+              >
+                <span className="block truncate text-[11px] text-foreground/80">{t.title}</span>
+                <span className="block text-[9px] text-muted/50">
+                  {t.messages.length} message{t.messages.length !== 1 ? "s" : ""} ·{" "}
+                  {new Date(t.updatedAt).toLocaleDateString()}
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(t.id)}
+                className="rounded p-1 text-muted/40 opacity-0 transition-all hover:bg-red-500/10 hover:text-red-400 group-hover:opacity-100"
+                title="Delete conversation"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── MentionMenu ────────────────────────────────────────────────────────────
+// Autocomplete list that floats above the input while an @-token is typed.
+// Keyboard selection is owned by the input; clicks pick directly.
+function MentionMenu({
+  suggestions,
+  selected,
+  onPick,
+}: {
+  suggestions: MentionSuggestion[];
+  selected: number;
+  onPick: (value: string) => void;
+}) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 z-20 mb-1 max-h-56 overflow-y-auto rounded-lg border border-border bg-surface py-1 shadow-xl">
+      {suggestions.map((s, i) => {
+        const Icon =
+          s.kind === "folder" ? Folder : s.kind === "file" ? FileCode : SquareTerminal;
+        return (
+          <button
+            key={s.value}
+            // mousedown, not click: keep focus (and the caret) in the textarea
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onPick(s.value);
+            }}
+            className={`flex w-full items-center gap-1.5 px-2.5 py-1 text-left transition-colors ${
+              i === selected ? "bg-indigo/15 text-foreground" : "text-foreground/70 hover:bg-white/5"
+            }`}
+          >
+            <Icon className="h-3 w-3 shrink-0 text-muted/60" />
+            <span className="truncate font-mono text-[11px]">{s.value}</span>
+            {s.hint && <span className="ml-auto shrink-0 text-[9px] text-muted/50">{s.hint}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 // ─── ReviewOverlay ──────────────────────────────────────────────────────────
 // Absolutely-positioned panel that floats over the chat at the bottom.
 // Uses position:absolute + bottom:0 so it is ALWAYS visible regardless of
@@ -101,35 +436,70 @@ function modelDisplayName(modelId: string | null): string {
 // container must have position:relative (set below) for this to work.
 // pointer-events:auto guarantees buttons are clickable even while streaming.
 function ReviewOverlay({
-  onApplyFileAction,
+  onApplyFileActions,
   setMessages,
+  liveFiles,
+  fileSnapshots,
 }: {
-  onApplyFileAction: (action: import("@/lib/ai-parser").FileAction) => void;
+  onApplyFileActions: (actions: FileAction[], label: string) => Promise<Array<string | null>>;
   setMessages: React.Dispatch<React.SetStateAction<UIMessage[]>>;
+  liveFiles: LiveFile[];
+  fileSnapshots: Record<string, string>;
 }) {
-  const { pendingReview, setPendingReview, clearPendingPaths } = usePendingPaths();
+  const {
+    pendingReview,
+    setPendingReview,
+    setActionExcluded,
+    resolveHunk,
+    clearPendingPaths,
+  } = usePendingPaths();
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (!pendingReview) {
+    return liveFiles.length > 0 ? (
+      <LiveProgress liveFiles={liveFiles} fileSnapshots={fileSnapshots} />
+    ) : null;
+  }
 
-  if (!pendingReview) return null;
+  // Has the user narrowed the change set at all?
+  const partial =
+    pendingReview.excluded.length > 0 ||
+    Object.values(pendingReview.hunkResolutions).some((hunks) =>
+      hunks.some((r) => r && (r.status === "rejected" || r.edited !== undefined))
+    );
 
-  const dismiss = (accepted: boolean) => {
-    if (accepted) {
-      pendingReview.actions.forEach((a) => onApplyFileAction(a));
+  const dismiss = async (accepted: boolean) => {
+    const status: Record<number, "accepted" | "rejected" | "failed"> = {};
+    const errors: Record<number, string> = {};
+    const toApply: FileAction[] = [];
+    // Message index of each action in `toApply`
+    const applied: number[] = [];
+    const resolvedActions = accepted ? resolveReview(pendingReview) : [];
+    pendingReview.actions.forEach((_action, i) => {
+      const resolved = resolvedActions[i] ?? null;
+      const messageIndex = pendingReview.messageIndexes[i];
+      if (resolved) {
+        toApply.push(resolved);
+        applied.push(messageIndex);
+      }
+      status[messageIndex] = resolved ? "accepted" : "rejected";
+    });
+    if (toApply.length > 0) {
+      const results = await onApplyFileActions(toApply, pendingReview.prompt);
+      results.forEach((error, i) => {
+        if (error === null) return;
+        status[applied[i]] = "failed";
+        errors[applied[i]] = error;
+      });
     }
     setMessages((prev) =>
       prev.map((m) =>
         m.id === pendingReview.messageId
-          ? {
-              ...m,
-              actionStatus: Object.fromEntries(
-                pendingReview.actions.map((a) => [
-                  a.path,
-                  accepted ? ("accepted" as const) : ("rejected" as const),
-                ])
-              ),
-            }
+          ? { ...m, actionStatus: status, actionErrors: { ...m.actionErrors, ...errors } }
           : m
       )
     );
+    setExpanded(null);
     setPendingReview(null);
     clearPendingPaths();
   };
@@ -158,16 +528,61 @@ function ReviewOverlay({
         </span>
       </div>
 
-      {/* File list */}
-      <div className="mb-3 space-y-0.5">
-        {pendingReview.actions.map(({ path }) => (
-          <div key={path} className="flex items-center gap-1.5">
-            <span className="h-1 w-1 shrink-0 rounded-full bg-amber-400/70" />
-            <span className="font-mono text-[10px] text-foreground/60 truncate">
-              {path}
-            </span>
-          </div>
-        ))}
+      {/* File list — tick to include, expand to review hunks */}
+      <div className="mb-3 max-h-[55vh] space-y-0.5 overflow-y-auto">
+        {pendingReview.actions.map((action, idx) => {
+          const included = !pendingReview.excluded.includes(idx);
+          const isContent = action.kind === "write" || action.kind === "patch";
+          return (
+            <div key={idx}>
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={included}
+                  onChange={(e) => setActionExcluded(idx, !e.target.checked)}
+                  className="h-3 w-3 shrink-0 accent-amber-500"
+                  title={included ? "Skip this change" : "Include this change"}
+                />
+                <button
+                  onClick={() => setExpanded((e) => (e === idx ? null : idx))}
+                  className="flex min-w-0 flex-1 items-center gap-1 text-left"
+                >
+                  {expanded === idx ? (
+                    <ChevronDown className="h-3 w-3 shrink-0 text-muted/50" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3 shrink-0 text-muted/50" />
+                  )}
+                  <span
+                    className={`font-mono text-[10px] truncate ${
+                      included ? "text-foreground/60" : "text-muted/40 line-through"
+                    }`}
+                  >
+                    {describeAction(action)}
+                  </span>
+                </button>
+                <span
+                  className={`shrink-0 text-[9px] uppercase tracking-wide ${
+                    action.kind === "delete" ? "text-red-400/70" : "text-muted/50"
+                  }`}
+                >
+                  {ACTION_VERB[action.kind]}
+                </span>
+              </div>
+              {expanded === idx && (
+                <DiffView
+                  action={action}
+                  currentContent={pendingReview.baseContent[idx] ?? ""}
+                  hunkResolutions={pendingReview.hunkResolutions[idx]}
+                  onResolveHunk={
+                    isContent && included
+                      ? (hunk, resolution) => resolveHunk(idx, hunk, resolution)
+                      : undefined
+                  }
+                />
+              )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Buttons */}
@@ -178,7 +593,7 @@ function ReviewOverlay({
           className="flex flex-1 items-center justify-center gap-1.5 rounded-md bg-emerald-600 px-3 py-2 text-[12px] font-bold text-white shadow-md transition-colors hover:bg-emerald-500 active:scale-[0.98]"
         >
           <CheckCheck className="h-3.5 w-3.5" />
-          Accept Changes
+          {partial ? "Apply Selected" : "Accept Changes"}
         </button>
         <button
           onClick={() => dismiss(false)}
@@ -203,14 +618,24 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
   userHash,
   projectId,
   encryptionKey,
-  onApplyFileAction,
+  onApplyFileActions,
   readFileContent,
+  getCursorLine,
+  getTerminalOutput,
+  getPreviewErrors,
+  draft,
 }) => {
   const ai = useAIEngine();
   const [messages, setMessages] = useState<UIMessage[]>([]);
   const [input, setInput] = useState("");
   const [queuedPrompt, setQueuedPrompt] = useState<string | null>(null);
 
+  // ── Threads — persisted encrypted per project; `messages` mirrors the active one ──
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const threadsRef = useRef(threads);
+  useEffect(() => { threadsRef.current = threads; }, [threads]);
+
   // ── Review gate — stored in context so it persists when sidebar is hidden ──
   const {
     pendingReview,
@@ -220,21 +645,127 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
   } = usePendingPaths();
 
   // ── Streaming detection ──────────────────────────────────────────────────
-  // accumulatedCode builds the full raw AI output token-by-token.
-  // isApplyingChanges / pendingFilePath are set the moment FILE: is detected
-  // mid-stream so the "Reviewing…" badge appears immediately, before onDone.
+  // accumulatedCode builds the full raw AI output token-by-token so a
+  // cancelled generation still has its partial text. streamParserRef turns
+  // the same tokens into per-file events; liveFiles mirrors them for the
+  // review overlay so progress and partial diffs show before onDone.
   const accumulatedCode = useRef("");
-  const detectedRef = useRef(false); // avoids setState on every token
-  const [isApplyingChanges, setIsApplyingChanges] = useState(false);
-  const [pendingFilePath, setPendingFilePath] = useState<string | null>(null);
+  const streamParserRef = useRef<StreamingActionParser | null>(null);
+  const streamingIdRef = useRef<string | null>(null);
+  const [liveFiles, setLiveFiles] = useState<LiveFile[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   // Keep a stable ref to messages so queued-prompt fires never use a stale snapshot
   const messagesRef = useRef(messages);
   useEffect(() => { messagesRef.current = messages; }, [messages]);
+  // ── @-mention autocomplete — project paths are re-listed when a token starts ──
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionPaths, setMentionPaths] = useState<string[]>([]);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const mentionSuggestions = useMemo(
+    () => (mentionQuery ? suggestMentions(mentionQuery.query, mentionPaths) : []),
+    [mentionQuery, mentionPaths]
+  );
   // hold per-action original content for the diff viewer
   const [fileSnapshots, setFileSnapshots] = useState<Record<string, string>>({});
 
+  // ── Load this project's threads (or start a fresh one) ──
+  useEffect(() => {
+    if (!userHash) return;
+    let cancelled = false;
+    listThreads(userHash, projectId, encryptionKey)
+      .catch((err) => {
+        console.warn("[chat] Failed to load conversations:", err);
+        return [] as ChatThread[];
+      })
+      .then((loaded) => {
+        if (cancelled) return;
+        const list = loaded.length > 0 ? loaded : [createThread()];
+        setThreads(list);
+        setActiveThreadId(list[0].id);
+        setMessages(list[0].messages);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userHash, projectId, encryptionKey]);
+
+  // ── Persist the active thread whenever its messages settle ──
+  useEffect(() => {
+    if (!userHash || !activeThreadId) return;
+    if (messages.some((m) => m.streaming)) return;
+    const current = threadsRef.current.find((t) => t.id === activeThreadId);
+    // Unchanged since load / switch (same array), or still empty
+    if (!current || current.messages === messages) return;
+    if (current.messages.length === 0 && messages.length === 0) return;
+
+    const firstPrompt = messages.find((m) => m.role === "user")?.content;
+    const next: ChatThread = {
+      ...current,
+      title:
+        current.title === DEFAULT_THREAD_TITLE && firstPrompt
+          ? titleFromPrompt(firstPrompt)
+          : current.title,
+      updatedAt: Date.now(),
+      messages: messages.map(toStoredMessage),
+    };
+    setThreads((prev) => prev.map((t) => (t.id === next.id ? next : t)));
+    saveThread(userHash, projectId, next, encryptionKey).catch((err) =>
+      console.warn("[chat] Failed to save conversation:", err)
+    );
+  }, [messages, activeThreadId, userHash, projectId, encryptionKey]);
+
+  // ── Thread actions ──
+  const handleSelectThread = useCallback((id: string) => {
+    const thread = threadsRef.current.find((t) => t.id === id);
+    if (!thread) return;
+    setActiveThreadId(id);
+    setMessages(thread.messages);
+  }, []);
+
+  const handleCreateThread = useCallback(() => {
+    const current = threadsRef.current.find((t) => t.id === activeThreadId);
+    // Already on an empty thread — nothing to do
+    if (current && current.messages.length === 0) return;
+    const thread = createThread();
+    setThreads((prev) => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    setMessages(thread.messages);
+  }, [activeThreadId]);
+
+  const handleRenameThread = useCallback(
+    (id: string, title: string) => {
+      const thread = threadsRef.current.find((t) => t.id === id);
+      if (!thread || thread.title === title) return;
+      const next = { ...thread, title };
+      setThreads((prev) => prev.map((t) => (t.id === id ? next : t)));
+      saveThread(userHash, projectId, next, encryptionKey).catch((err) =>
+        console.warn("[chat] Failed to rename conversation:", err)
+      );
+    },
+    [userHash, projectId, encryptionKey]
+  );
+
+  const handleClearThread = useCallback(() => {
+    setMessages([]);
+  }, []);
+
+  const handleDeleteThread = useCallback(
+    (id: string) => {
+      deleteThread(userHash, projectId, id).catch((err) =>
+        console.warn("[chat] Failed to delete conversation:", err)
+      );
+      const remaining = threadsRef.current.filter((t) => t.id !== id);
+      const list = remaining.length > 0 ? remaining : [createThread()];
+      setThreads(list);
+      if (id === activeThreadId) {
+        setActiveThreadId(list[0].id);
+        setMessages(list[0].messages);
+      }
+    },
+    [userHash, projectId, activeThreadId]
+  );
+
   // Auto-scroll chat to bottom
   useEffect(() => {
     if (scrollRef.current) {
@@ -242,6 +773,18 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
     }
   }, [messages]);
 
+  // Pre-fill the input from a draft — left for the user to review and send
+  useEffect(() => {
+    if (!draft) return;
+    setInput(draft.text);
+    setTimeout(() => {
+      const el = inputRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(el.value.length, el.value.length);
+    }, 100);
+  }, [draft]);
+
   // Focus input when sidebar opens
   useEffect(() => {
     if (isOpen) {
@@ -249,6 +792,130 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
     }
   }, [isOpen]);
 
+  // ── Apply streaming-parser events to the live file list ──
+  const applyStreamEvents = useCallback(
+    (events: StreamEvent[]) => {
+      for (const ev of events) {
+        if (ev.type === "file-started") {
+          setLiveFiles((prev) => [
+            ...prev,
+            { path: ev.path, kind: ev.kind, lines: 0, content: "" },
+          ]);
+          // Read the "before" content now so the live diff has a base
+          if (ev.kind === "write" || ev.kind === "patch") {
+            readFileContent(ev.path)
+              .catch(() => "")
+              .then((content) =>
+                setFileSnapshots((prev) =>
+                  ev.path in prev ? prev : { ...prev, [ev.path]: content }
+                )
+              );
+          }
+        } else if (ev.type === "chunk") {
+          setLiveFiles((prev) =>
+            prev.map((f, idx) =>
+              idx === prev.length - 1 && f.path === ev.path && !f.action
+                ? {
+                    ...f,
+                    lines: f.lines + 1,
+                    content: ev.kind === "write" ? f.content + ev.text : f.content,
+                  }
+                : f
+            )
+          );
+        } else if (ev.type === "file-completed") {
+          setLiveFiles((prev) =>
+            prev.map((f, idx) =>
+              idx === prev.length - 1 && f.path === ev.action.path && !f.action
+                ? { ...f, action: ev.action }
+                : f
+            )
+          );
+        }
+      }
+    },
+    [readFileContent]
+  );
+
+  // ── Finalise a response: snapshot, validate patches, open the review gate ──
+  const finalizeResponse = useCallback(
+    async (assistantId: string, fullText: string, parsed: ParsedResponse) => {
+      // Pre-read the file snapshots so DiffView can show proper diffs
+      const snapshots: Record<string, string> = {};
+      for (const path of simulationSources(parsed.actions)) {
+        try {
+          snapshots[path] = await readFileContent(path);
+        } catch {
+          snapshots[path] = ""; // new file
+        }
+      }
+      setFileSnapshots((prev) => ({ ...prev, ...snapshots }));
+
+      // Dry-run the actions in order so a missing SEARCH anchor is
+      // reported now instead of failing silently on Accept. Each action
+      // sees the earlier ones: renames, deletes and previous edits.
+      const steps = simulateActions(parsed.actions, (path) => snapshots[path] ?? "");
+      const actionErrors: Record<number, string> = {};
+      const baseContent: Record<number, string> = {};
+      const reviewableIndexes = parsed.actions.flatMap((_action, i) => {
+        const step = steps[i];
+        if (step && "error" in step) {
+          actionErrors[i] = step.error;
+          return [];
+        }
+        return [i];
+      });
+      reviewableIndexes.forEach((messageIndex, i) => {
+        const step = steps[messageIndex];
+        if (step && "before" in step) baseContent[i] = step.before;
+      });
+      const reviewable = reviewableIndexes.map((i) => parsed.actions[i]);
+
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === assistantId
+            ? {
+                ...m,
+                content: fullText,
+                streaming: false,
+                actions:
+                  parsed.actions.length > 0 ? parsed.actions : undefined,
+                actionStatus: {},
+                actionErrors,
+              }
+            : m
+        )
+      );
+
+      // Gate: if the AI proposed file changes, push to context for review.
+      // Nothing is written until the user clicks "Accept Changes".
+      if (reviewable.length > 0) {
+        // The user message right before this reply labels the checkpoint
+        const msgs = messagesRef.current;
+        const idx = msgs.findIndex((m) => m.id === assistantId);
+        const prompt = idx > 0 ? msgs[idx - 1].content : "AI changes";
+        const review: PendingReview = {
+          messageId: assistantId,
+          prompt,
+          actions: reviewable,
+          messageIndexes: reviewableIndexes,
+          baseContent,
+          snapshots,
+          excluded: [],
+          hunkResolutions: {},
+        };
+        setPendingReview(review);
+        registerPendingPaths(reviewable);
+      }
+
+      // Clear live streaming state — context state takes over
+      setLiveFiles([]);
+      streamParserRef.current = null;
+      streamingIdRef.current = null;
+    },
+    [readFileContent, setPendingReview, registerPendingPaths]
+  );
+
   // ── Handle sending a message ──
   const handleSend = useCallback(async (promptOverride?: string) => {
     const prompt = (promptOverride ?? input).trim();
@@ -266,12 +933,6 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
     if (!promptOverride) setInput("");
     setQueuedPrompt(null);
 
-    // Reset streaming-detection state for this new request
-    accumulatedCode.current = "";
-    detectedRef.current = false;
-    setIsApplyingChanges(false);
-    setPendingFilePath(null);
-
     // Add user message
     const userMsg: UIMessage = {
       id: `user-${Date.now()}`,
@@ -287,19 +948,60 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
       streaming: true,
     };
 
+    // Snapshot prior turns before this exchange is appended
+    const history: ChatMessage[] = messagesRef.current.map((m) => ({
+      role: m.role,
+      content: m.content,
+    }));
+
+    // Reset streaming state for this new request
+    accumulatedCode.current = "";
+    streamParserRef.current = new StreamingActionParser();
+    streamingIdRef.current = assistantId;
+    setLiveFiles([]);
+
     setMessages((prev) => [...prev, userMsg, assistantMsg]);
 
-    // Gather project context
+    // @terminal / @preview-errors — captured now, before the reply adds output
+    const attachments: ContextAttachment[] = [];
+    for (const mention of parseMentions(prompt, [])) {
+      if (mention.kind === "terminal") {
+        attachments.push({
+          title: "Terminal output",
+          content: getTerminalOutput?.() || "(terminal is empty)",
+        });
+      } else if (mention.kind === "preview-errors") {
+        const errors = getPreviewErrors?.() ?? [];
+        attachments.push({
+          title: "Preview errors",
+          content: errors.length > 0 ? errors.join("\n\n") : "(no errors reported by the preview)",
+        });
+      }
+    }
+
+    // Gather project context within the model's window: the system prompt
+    // gets its share first, prior turns fill what is left.
+    const budget = planBudget(ai.contextWindow, estimateTokens(prompt));
     let systemPrompt = "";
+    let contextNotes: string[] = [];
+    let relatedFiles: string[] = [];
     try {
       const ctx = await gatherContext(
         userHash,
         projectId,
         activePath,
         activeContent,
-        encryptionKey
+        encryptionKey,
+        {
+          maxTokens: budget.system,
+          cursorLine: getCursorLine?.() ?? null,
+          prompt,
+          attachments,
+        }
       );
       systemPrompt = ctx.systemContext;
+      contextNotes = ctx.notes;
+      relatedFiles = ctx.relatedFiles;
     } catch {
       systemPrompt = [
         "You are SouthStack Agent, a coding assistant in a local browser IDE.",
@@ -314,16 +1016,33 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
       ].join("\n");
     }
 
+    const fitted = fitHistory(
+      history,
+      budget.input - estimateMessages([
+        { role: "system", content: systemPrompt },
+        { role: "user", content: prompt },
+      ])
+    );
+    if (fitted.summary) systemPrompt += `\n${fitted.summary}\n`;
+
     // Build message history for the LLM
     const chatMessages: ChatMessage[] = [
       { role: "system", content: systemPrompt },
-      ...messagesRef.current.map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      })),
+      ...fitted.messages,
       { role: "user" as const, content: prompt },
     ];
 
+    // Record what was trimmed so the reply can say so
+    const context = {
+      tokens: estimateMessages(chatMessages),
+      window: budget.contextWindow,
+      notes: [...contextNotes, ...fitted.notes],
+      files: relatedFiles,
+    };
+    setMessages((prev) =>
+      prev.map((m) => (m.id === assistantId ? { ...m, context } : m))
+    );
+
     // Stream tokens
     ai.chat(
       chatMessages,
@@ -331,16 +1050,10 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
       (token) => {
         accumulatedCode.current += token;
 
-        // Detect FILE: <path> as soon as it appears in the stream
-        // so the "Reviewing…" badge shows up while the AI is still writing.
-        if (!detectedRef.current) {
-          const m = /FILE:\s*([^\n]+)/.exec(accumulatedCode.current);
-          if (m) {
-            detectedRef.current = true;
-            setIsApplyingChanges(true);
-            setPendingFilePath(m[1].trim());
-          }
-        }
+        // Advance the incremental parser so per-file progress shows up
+        // while the AI is still writing.
+        const parser = streamParserRef.current;
+        if (parser) applyStreamEvents(parser.push(token));
 
         setMessages((prev) =>
           prev.map((m) =>
@@ -350,51 +1063,21 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
           )
         );
       },
-      // onDone
+      // onDone — the full text is re-parsed with the tolerant regex parser,
+      // which also handles the bare-code-block fallback.
       async (fullText) => {
-        const parsed = parseAIResponse(fullText, activePath);
-
-        // Pre-read the file snapshots so DiffView can show proper diffs
-        const snapshots: Record<string, string> = {};
-        for (const action of parsed.actions) {
-          try {
-            snapshots[action.path] = await readFileContent(action.path);
-          } catch {
-            snapshots[action.path] = ""; // new file
-          }
-        }
-        setFileSnapshots((prev) => ({ ...prev, ...snapshots }));
-
-        setMessages((prev) =>
-          prev.map((m) =>
-            m.id === assistantId
-              ? {
-                  ...m,
-                  content: fullText,
-                  streaming: false,
-                  actions:
-                    parsed.actions.length > 0 ? parsed.actions : undefined,
-                  actionStatus: {},
-                }
-              : m
-          )
+        streamParserRef.current?.end();
+        await finalizeResponse(
+          assistantId,
+          fullText,
+          parseAIResponse(fullText, activePath)
         );
-
-        // Gate: if the AI proposed file changes, push to context for review.
-        // Nothing is written until the user clicks "Accept Changes".
-        if (parsed.actions.length > 0) {
-          const review: PendingReview = { messageId: assistantId, actions: parsed.actions };
-          setPendingReview(review);
-          registerPendingPaths(parsed.actions.map((a) => a.path));
-        }
-
-        // Clear local streaming detection — context state takes over
-        setIsApplyingChanges(false);
-        setPendingFilePath(null);
-        detectedRef.current = false;
       },
       // onError
       (error) => {
+        setLiveFiles([]);
+        streamParserRef.current = null;
+        streamingIdRef.current = null;
         setMessages((prev) =>
           prev.map((m) =>
             m.id === assistantId
@@ -416,9 +1099,25 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
     activePath,
     activeContent,
     encryptionKey,
-    readFileContent,
+    getCursorLine,
+    getTerminalOutput,
+    getPreviewErrors,
+    applyStreamEvents,
+    finalizeResponse,
   ]);
 
+  // ── Stop generating — keep whatever blocks were fully received ──
+  // The worker sends no "done" after an abort, so the partial response is
+  // finalised here from the streaming parser's completed actions.
+  const handleStop = useCallback(() => {
+    ai.abort();
+    const parser = streamParserRef.current;
+    const assistantId = streamingIdRef.current;
+    if (!parser || !assistantId) return;
+    parser.end();
+    finalizeResponse(assistantId, accumulatedCode.current, parser.result());
+  }, [ai, finalizeResponse]);
+
   // ── Fire queued prompt as soon as model becomes ready ──
   useEffect(() => {
     if (ai.status === "ready" && queuedPrompt !== null) {
@@ -427,15 +1126,78 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ai.status]);
 
+  // ── @-mentions: track the token under the caret ──
+  const updateMentionQuery = useCallback(
+    (text: string, caret: number) => {
+      const query = mentionQueryAt(text, caret);
+      // A new token — refresh the path list so new files show up
+      if (query && query.start !== mentionQuery?.start && userHash) {
+        loadProjectFiles(userHash, projectId, encryptionKey)
+          .then(setMentionPaths)
+          .catch(() => {});
+      }
+      if (query?.start !== mentionQuery?.start || query?.query !== mentionQuery?.query) {
+        setMentionIndex(0);
+      }
+      setMentionQuery(query);
+    },
+    [mentionQuery, userHash, projectId, encryptionKey]
+  );
+
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      setInput(e.target.value);
+      updateMentionQuery(e.target.value, e.target.selectionStart);
+    },
+    [updateMentionQuery]
+  );
+
+  const pickMention = useCallback(
+    (value: string) => {
+      const el = inputRef.current;
+      if (!el || !mentionQuery) return;
+      const next = insertMention(input, mentionQuery, el.selectionStart, value);
+      setInput(next.text);
+      // Folders stay open for drilling down; anything else closes the menu
+      setMentionQuery(value.endsWith("/") ? { start: mentionQuery.start, query: value } : null);
+      setMentionIndex(0);
+      requestAnimationFrame(() => {
+        el.focus();
+        el.setSelectionRange(next.caret, next.caret);
+      });
+    },
+    [input, mentionQuery]
+  );
+
   // ── Keyboard shortcuts ──
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (mentionSuggestions.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setMentionIndex(
+            (i) => (i + step + mentionSuggestions.length) % mentionSuggestions.length
+          );
+          return;
+        }
+        if (e.key === "Enter" || e.key === "Tab") {
+          e.preventDefault();
+          pickMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)].value);
+          return;
+        }
+        if (e.key === "Escape") {
+          e.preventDefault();
+          setMentionQuery(null);
+          return;
+        }
+      }
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
         handleSend();
       }
     },
-    [handleSend]
+    [handleSend, mentionSuggestions, mentionIndex, pickMention]
   );
 
   // ── Render message text ──────────────────────────────────────────────────
@@ -510,6 +1272,18 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
         </div>
       </div>
 
+      {/* ─── Thread switcher ─── */}
+      <ThreadBar
+        threads={threads}
+        activeId={activeThreadId}
+        locked={ai.status === "generating" || !!pendingReview}
+        onSelect={handleSelectThread}
+        onCreate={handleCreateThread}
+        onRename={handleRenameThread}
+        onClear={handleClearThread}
+        onDelete={handleDeleteThread}
+      />
+
       {/* ─── Body: messages + init bar + error ─── */}
 
       {/* Error bar (no model loaded + failed) */}
@@ -587,51 +1361,96 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
                   )}
                 </div>
 
+                {/* Context report — related files sent, and anything trimmed */}
+                {msg.role === "assistant" && msg.context && (msg.context.files?.length || msg.context.notes.length > 0) ? (
+                  <details
+                    className={`ml-7 mt-1 text-[10px] ${
+                      msg.context.notes.length > 0 ? "text-amber-400/80" : "text-muted/60"
+                    }`}
+                  >
+                    <summary className="cursor-pointer select-none">
+                      {msg.context.notes.length > 0 ? "Context trimmed to fit" : "Context"}
+                      {msg.context.files?.length
+                        ? ` · ${msg.context.files.length} related file${msg.context.files.length !== 1 ? "s" : ""}`
+                        : ""}{" "}
+                      · ~{formatTokens(msg.context.tokens)} / {formatTokens(msg.context.window)} tokens
+                    </summary>
+                    <ul className="mt-0.5 space-y-0.5 pl-3 text-muted/70">
+                      {msg.context.files?.map((path) => (
+                        <li key={path} className="font-mono">+ {path}</li>
+                      ))}
+                      {msg.context.notes.map((note) => (
+                        <li key={note}>· {note}</li>
+                      ))}
+                    </ul>
+                  </details>
+                ) : null}
+
                 {/* File actions — status labels + Reviewing badge */}
                 {msg.actions &&
                   !msg.streaming &&
-                  msg.actions.map((action) => {
-                    const status = msg.actionStatus?.[action.path];
+                  msg.actions.map((action, actionIndex) => {
+                    const status = msg.actionStatus?.[actionIndex];
+                    const actionError = msg.actionErrors?.[actionIndex];
                     const isReviewing =
-                      (pendingReview?.messageId === msg.id &&
-                        pendingReview.actions.some((a) => a.path === action.path)) ||
-                      (isApplyingChanges &&
-                        pendingFilePath === action.path &&
-                        !msg.actionStatus?.[action.path]);
+                      pendingReview?.messageId === msg.id &&
+                      pendingReview.messageIndexes.includes(actionIndex);
 
                     if (status === "accepted") {
                       return (
                         <div
-                          key={action.path}
+                          key={actionIndex}
                           className="ml-7 mt-1 flex items-center gap-1.5 text-[10px] text-emerald-400"
                         >
                           <CheckCheck className="h-3 w-3 shrink-0" />
-                          <span className="font-mono truncate">{action.path}</span>
-                          <span className="shrink-0 text-emerald-400/70">· committed</span>
+                          <span className="font-mono truncate">{describeAction(action)}</span>
+                          <span className="shrink-0 text-emerald-400/70">
+                            · {action.kind === "delete" ? "deleted" : "committed"}
+                          </span>
                         </div>
                       );
                     }
                     if (status === "rejected") {
                       return (
                         <div
-                          key={action.path}
+                          key={actionIndex}
                           className="ml-7 mt-1 flex items-center gap-1.5 text-[10px] text-red-400/70"
                         >
                           <X className="h-3 w-3 shrink-0" />
-                          <span className="font-mono truncate line-through">{action.path}</span>
+                          <span className="font-mono truncate line-through">{describeAction(action)}</span>
                           <span className="shrink-0">· discarded</span>
                         </div>
                       );
                     }
+                    if (status === "failed" || actionError) {
+                      return (
+                        <div
+                          key={actionIndex}
+                          className="ml-7 mt-1 text-[10px] text-red-400/80"
+                          title={actionError}
+                        >
+                          <div className="flex items-center gap-1.5">
+                            <X className="h-3 w-3 shrink-0" />
+                            <span className="font-mono truncate">{describeAction(action)}</span>
+                            <span className="shrink-0">
+                              · {status === "failed" ? "failed" : "patch failed"}
+                            </span>
+                          </div>
+                          {actionError && (
+                            <p className="ml-[18px] line-clamp-2 text-red-400/60">{actionError}</p>
+                          )}
+                        </div>
+                      );
+                    }
                     if (isReviewing) {
                       return (
                         <div
-                          key={action.path}
+                          key={actionIndex}
                           className="ml-7 mt-1 flex items-center gap-1.5 rounded-md border border-amber-500/20 bg-amber-500/5 px-2 py-1"
                         >
                           <FileClock className="h-3 w-3 shrink-0 text-amber-400" />
                           <span className="font-mono text-[10px] text-foreground/80 truncate">
-                            {action.path}
+                            {describeAction(action)}
                           </span>
                           <span className="ml-auto shrink-0 rounded bg-amber-500/15 px-1.5 py-0.5 text-[9px] font-medium text-amber-300">
                             Reviewing…
@@ -642,10 +1461,10 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
                     // Fallback — shouldn't normally be reached once pendingChange is set
                     return (
                       <div
-                        key={action.path}
+                        key={actionIndex}
                         className="ml-7 mt-1 flex items-center gap-1.5 text-[10px] text-muted/50"
                       >
-                        <span className="font-mono truncate">{action.path}</span>
+                        <span className="font-mono truncate">{describeAction(action)}</span>
                       </div>
                     );
                   })}
@@ -655,8 +1474,10 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
 
       {/* ─── ReviewOverlay — absolute bottom:0, position:relative on parent ─── */}
       <ReviewOverlay
-        onApplyFileAction={onApplyFileAction}
+        onApplyFileActions={onApplyFileActions}
         setMessages={setMessages}
+        liveFiles={liveFiles}
+        fileSnapshots={fileSnapshots}
       />
 
       {/* ─── System Initializing bar ─── */}
@@ -685,7 +1506,7 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
       <div className="border-t border-border/50 p-3">
         {ai.status === "generating" && (
           <button
-            onClick={ai.abort}
+            onClick={handleStop}
             className="mb-2 flex w-full items-center justify-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-[11px] text-muted transition-colors hover:text-foreground hover:border-border-light"
           >
             <Square className="h-3 w-3" />
@@ -708,12 +1529,23 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
             </button>
           </div>
         )}
-        <div className="flex items-end gap-2">
+        <div className="relative flex items-end gap-2">
+          {mentionSuggestions.length > 0 && (
+            <MentionMenu
+              suggestions={mentionSuggestions}
+              selected={mentionIndex}
+              onPick={pickMention}
+            />
+          )}
           <textarea
             ref={inputRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={handleInputChange}
             onKeyDown={handleKeyDown}
+            onSelect={(e) =>
+              updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)
+            }
+            onBlur={() => setMentionQuery(null)}
             placeholder={
               pendingReview
                 ? "Review the proposed changes above before continuing…"
@@ -721,7 +1553,7 @@ const ChatSidebar: FC<ChatSidebarProps> = ({
                   ? "Generating…"
                   : ai.status === "loading" || ai.status === "idle"
                     ? "Type your prompt — will send once ready…"
-                    : "Ask the AI agent…"
+                    : "Ask the AI agent… (@ to mention files)"
             }
             disabled={ai.status === "generating" || !!pendingReview}
             rows={1}
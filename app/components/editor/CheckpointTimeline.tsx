@@ -0,0 +1,180 @@
+"use client";
+
+/**
+ * CheckpointTimeline — undo history for accepted AI changes.
+ *
+ * Lists checkpoints newest first. Each entry can be expanded to show the
+ * files it touched, reverted on its own (recorded as a new checkpoint so
+ * the revert is itself undoable), or used as a rollback target — which
+ * undoes every newer checkpoint and drops them from the history.
+ */
+
+import type { Checkpoint, CheckpointFile } from "@/lib/checkpoints";
+import {
+  ChevronDown,
+  ChevronRight,
+  History,
+  Loader2,
+  RotateCcw,
+  Undo2,
+  X,
+} from "lucide-react";
+import { useState, type FC } from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface CheckpointTimelineProps {
+  /** All checkpoints for the project, oldest first */
+  checkpoints: Checkpoint[];
+  /** Id of the checkpoint currently being reverted / rolled back to */
+  busyId: string | null;
+  /** Undo a single checkpoint */
+  onRevert: (id: string) => void;
+  /** Undo every checkpoint newer than `id` */
+  onRollback: (id: string) => void;
+  onClose: () => void;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function formatTime(ts: number): string {
+  const d = new Date(ts);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : d.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function fileChange(file: CheckpointFile): { label: string; className: string } {
+  if (file.before === null) return { label: "A", className: "text-emerald-400" };
+  if (file.after === null) return { label: "D", className: "text-red-400" };
+  return { label: "M", className: "text-amber-400" };
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+const CheckpointTimeline: FC<CheckpointTimelineProps> = ({
+  checkpoints,
+  busyId,
+  onRevert,
+  onRollback,
+  onClose,
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const newestFirst = [...checkpoints].reverse();
+
+  return (
+    <div className="flex h-full w-[280px] shrink-0 flex-col border-l border-border bg-surface">
+      {/* ─── Header ─── */}
+      <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-indigo" />
+          <span className="text-xs font-semibold text-foreground">History</span>
+          <span className="rounded-full bg-indigo/15 px-1.5 py-0.5 text-[9px] text-indigo-light">
+            {checkpoints.length}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+          title="Close history"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {/* ─── Timeline ─── */}
+      <div className="flex-1 overflow-y-auto px-2 py-2">
+        {newestFirst.length === 0 ? (
+          <p className="px-2 py-6 text-center text-[11px] text-muted/60">
+            Accepted AI changes will appear here.
+          </p>
+        ) : (
+          <ol className="relative space-y-1 border-l border-border/60 pl-3">
+            {newestFirst.map((cp, idx) => {
+              const isOpen = expanded === cp.id;
+              const isBusy = busyId === cp.id;
+              return (
+                <li key={cp.id} className="relative">
+                  <span
+                    className={`absolute -left-[17px] top-2 h-2 w-2 rounded-full ${
+                      idx === 0 ? "bg-indigo" : "bg-border-light"
+                    }`}
+                  />
+                  <div className="group rounded-md px-2 py-1.5 transition-colors hover:bg-white/5">
+                    <button
+                      onClick={() => setExpanded(isOpen ? null : cp.id)}
+                      className="flex w-full items-start gap-1 text-left"
+                    >
+                      {isOpen ? (
+                        <ChevronDown className="mt-0.5 h-3 w-3 shrink-0 text-muted/50" />
+                      ) : (
+                        <ChevronRight className="mt-0.5 h-3 w-3 shrink-0 text-muted/50" />
+                      )}
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate text-[11px] text-foreground/80">
+                          {cp.label}
+                        </span>
+                        <span className="block text-[9px] text-muted/50">
+                          {formatTime(cp.createdAt)} · {cp.files.length} file
+                          {cp.files.length !== 1 ? "s" : ""}
+                        </span>
+                      </span>
+                    </button>
+
+                    {isOpen && (
+                      <ul className="mt-1 space-y-0.5 pl-4">
+                        {cp.files.map((f) => {
+                          const change = fileChange(f);
+                          return (
+                            <li key={f.path} className="flex items-center gap-1.5">
+                              <span className={`w-2 font-mono text-[9px] font-bold ${change.className}`}>
+                                {change.label}
+                              </span>
+                              <span className="truncate font-mono text-[10px] text-foreground/60">
+                                {f.path}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+
+                    <div className="mt-1 flex gap-1 pl-4">
+                      <button
+                        onClick={() => onRevert(cp.id)}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-muted transition-colors hover:bg-amber-500/15 hover:text-amber-400 disabled:opacity-40"
+                        title="Undo just this change"
+                      >
+                        {isBusy ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-3 w-3" />
+                        )}
+                        Revert
+                      </button>
+                      {idx > 0 && (
+                        <button
+                          onClick={() => onRollback(cp.id)}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-muted transition-colors hover:bg-red-500/15 hover:text-red-400 disabled:opacity-40"
+                          title="Undo every newer change and restore the project to this point"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Roll back to here
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckpointTimeline;
@@ -0,0 +1,181 @@
+"use client";
+
+/**
+ * ConflictModal — resolve a file the editor and the container both changed.
+ *
+ * Shows a three-way diff against the last synced version (file-versions.ts):
+ * the unsaved editor edits on one side, the container's changes on the
+ * other, and below them an editable automatic merge (`mergeThreeWay`) with
+ * conflict markers where both sides touched the same lines.
+ *
+ * Keeping either side saves it to both places. The merge is saved right
+ * away once no markers are left; otherwise it opens in the editor unsaved
+ * so the markers can be resolved there.
+ */
+
+import type { FileConflict } from "@/lib/file-versions";
+import { diffLines, hunkHeader, MERGE_MARKER_RE, mergeThreeWay, type DiffLine } from "@/lib/diff";
+import { AlertTriangle, GitMerge, X } from "lucide-react";
+import { useMemo, useState, type FC } from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface ConflictModalProps {
+  conflict: FileConflict;
+  /** Apply `content` to the editor; `save` also writes it to OPFS and the container */
+  onResolve: (content: string, save: boolean) => void;
+  /** Decide later — the next save asks again */
+  onClose: () => void;
+}
+
+const LINE_STYLE: Record<DiffLine["type"], string> = {
+  add: "bg-emerald-500/10 text-emerald-300",
+  del: "bg-red-500/10 text-red-300",
+  ctx: "text-muted",
+};
+
+// ─── Diff Pane ──────────────────────────────────────────────
+
+/** One side of the three-way diff: the last synced version → `text`. */
+const DiffPane: FC<{ title: string; base: string; text: string }> = ({ title, base, text }) => {
+  const hunks = useMemo(() => diffLines(base, text), [base, text]);
+
+  return (
+    <div className="flex min-h-0 min-w-0 flex-col overflow-hidden rounded-lg border border-border bg-[#0d1117]">
+      <div className="border-b border-border/50 bg-surface/50 px-3 py-1.5 text-[11px] font-medium text-foreground">
+        {title}
+      </div>
+      <div className="min-h-0 flex-1 overflow-auto">
+        <pre className="text-[11px] leading-[1.6]">
+          {hunks.length === 0 ? (
+            <div className="px-3 text-muted/60">No changes</div>
+          ) : (
+            hunks.map((hunk, h) => (
+              <div key={h}>
+                <div className="bg-indigo/10 px-3 py-0.5 text-indigo-light">{hunkHeader(hunk)}</div>
+                {hunk.lines.map((line, i) => (
+                  <div key={i} className={`flex pr-3 ${LINE_STYLE[line.type]}`}>
+                    <span className="w-8 shrink-0 select-none pr-1 text-right text-muted/30">
+                      {line.newLine ?? line.oldLine ?? ""}
+                    </span>
+                    <span className="mx-2 inline-block w-3 shrink-0 select-none text-muted/40">
+                      {line.type === "add" ? "+" : line.type === "del" ? "−" : " "}
+                    </span>
+                    <span>{line.text}</span>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+// ─── Component ──────────────────────────────────────────────
+
+const ConflictModal: FC<ConflictModalProps> = ({ conflict, onResolve, onClose }) => {
+  const { path, base, mine, theirs } = conflict;
+  const merge = useMemo(
+    () => mergeThreeWay(base, mine, theirs, { mine: "editor", theirs: "container" }),
+    [base, mine, theirs]
+  );
+  const [merged, setMerged] = useState(merge.text);
+  // The container can change again while the prompt is open — start over
+  const [mergedFrom, setMergedFrom] = useState(merge);
+  if (mergedFrom !== merge) {
+    setMergedFrom(merge);
+    setMerged(merge.text);
+  }
+  const hasMarkers = MERGE_MARKER_RE.test(merged);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative flex h-[85vh] w-full max-w-5xl flex-col rounded-2xl border border-border bg-surface p-6 shadow-2xl shadow-black/40">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-muted transition-colors hover:text-foreground"
+          aria-label="Close"
+          title="Decide later"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <h2 className="mb-1 flex items-center gap-2 text-lg font-bold text-foreground">
+          <AlertTriangle className="h-5 w-5 text-amber-400" />
+          Conflicting changes
+        </h2>
+        <p className="mb-4 text-sm text-muted">
+          <span className="font-mono text-foreground">{path}</span> was changed in the container
+          while you had unsaved edits. Both are shown against the last synced version.
+        </p>
+
+        {/* Three-way diff */}
+        <div className="mb-3 grid min-h-0 flex-1 grid-cols-2 gap-3">
+          <DiffPane title="Your edits" base={base} text={mine} />
+          <DiffPane title="Container changes" base={base} text={theirs} />
+        </div>
+
+        {/* Merge */}
+        <div className="mb-4 flex min-h-0 flex-1 flex-col">
+          <div className="mb-1 flex items-center gap-2 text-[11px]">
+            <GitMerge className="h-3.5 w-3.5 text-indigo" />
+            <span className="font-medium text-foreground">Merged</span>
+            {merge.conflicts > 0 ? (
+              <span className="rounded bg-amber-500/20 px-1.5 py-0.5 text-[9px] font-semibold uppercase text-amber-400">
+                {merge.conflicts} conflict{merge.conflicts === 1 ? "" : "s"}
+              </span>
+            ) : (
+              <span className="rounded bg-emerald-500/20 px-1.5 py-0.5 text-[9px] font-semibold uppercase text-emerald-400">
+                Clean
+              </span>
+            )}
+          </div>
+          <textarea
+            value={merged}
+            onChange={(e) => setMerged(e.target.value)}
+            spellCheck={false}
+            className="min-h-0 flex-1 resize-none rounded-lg border border-border-light bg-[#0d1117] px-3 py-2 font-mono text-[11px] leading-[1.6] text-foreground outline-none focus:border-indigo/50"
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={() => onResolve(mine, true)}
+            className="rounded-lg border border-border-light px-4 py-2 text-sm text-muted transition-colors hover:text-foreground"
+            title="Save your edits over the container's version"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={() => onResolve(theirs, true)}
+            className="rounded-lg border border-border-light px-4 py-2 text-sm text-muted transition-colors hover:text-foreground"
+            title="Discard your edits and load the container's version"
+          >
+            Take container&apos;s
+          </button>
+          <button
+            onClick={() => onResolve(merged, !hasMarkers)}
+            className="flex items-center gap-2 rounded-lg bg-indigo px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-indigo-light"
+            title={
+              hasMarkers
+                ? "Open the merge in the editor (unsaved) to resolve the markers"
+                : "Save the merged version"
+            }
+          >
+            <GitMerge className="h-4 w-4" />
+            {hasMarkers ? "Resolve in editor" : "Save merge"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictModal;
@@ -0,0 +1,238 @@
+"use client";
+
+/**
+ * DependencyPanel — the project's npm dependencies.
+ *
+ * Lists `dependencies` and `devDependencies` from package.json with the
+ * version actually installed in node_modules, and adds, removes and
+ * upgrades packages. Each change runs as an npm command whose output
+ * streams into the terminal; the list reloads once it finishes.
+ */
+
+import type { DependencyAction, PackageDependency } from "@/lib/useWebContainer";
+import { ArrowUpCircle, Loader2, Package, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { useCallback, useEffect, useState, type FC } from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface DependencyPanelProps {
+  /** Read package.json + node_modules */
+  loadDependencies: () => Promise<PackageDependency[]>;
+  /** Run an npm command; resolves with its exit code */
+  onRun: (action: DependencyAction) => Promise<number>;
+  onClose: () => void;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** Split the add field into package specs (`react`, `zod@3`, `@types/node`). */
+function parseSpecs(input: string): string[] {
+  return input.split(/[\s,]+/).filter(Boolean);
+}
+
+const SECTIONS = [
+  { type: "dependencies", label: "Dependencies" },
+  { type: "devDependencies", label: "Dev dependencies" },
+] as const;
+
+// ─── Component ──────────────────────────────────────────────
+
+const DependencyPanel: FC<DependencyPanelProps> = ({ loadDependencies, onRun, onClose }) => {
+  const [deps, setDeps] = useState<PackageDependency[] | null>(null);
+  const [specs, setSpecs] = useState("");
+  const [asDev, setAsDev] = useState(false);
+  /** Description of the npm command in progress */
+  const [running, setRunning] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setDeps(await loadDependencies());
+  }, [loadDependencies]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDependencies()
+      .then((loaded) => {
+        if (!cancelled) setDeps(loaded);
+      })
+      .catch((err) => console.warn("[DependencyPanel] Failed to read dependencies:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadDependencies]);
+
+  const run = useCallback(
+    async (action: DependencyAction, description: string) => {
+      setRunning(description);
+      setError(null);
+      try {
+        const code = await onRun(action);
+        if (code !== 0) setError(`npm exited with code ${code} — see the terminal.`);
+        return code === 0;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      } finally {
+        setRunning(null);
+        await reload().catch(() => {});
+      }
+    },
+    [onRun, reload]
+  );
+
+  const handleAdd = useCallback(async () => {
+    const packages = parseSpecs(specs);
+    if (packages.length === 0) return;
+    const ok = await run({ kind: "add", packages, dev: asDev }, `Adding ${packages.join(", ")}…`);
+    if (ok) setSpecs("");
+  }, [specs, asDev, run]);
+
+  const isBusy = running !== null;
+
+  return (
+    <div className="flex h-full w-[360px] shrink-0 flex-col border-l border-border bg-surface">
+      {/* ─── Header ─── */}
+      <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <Package className="h-4 w-4 text-indigo" />
+          <span className="text-xs font-semibold text-foreground">Dependencies</span>
+          {deps && (
+            <span className="rounded-full bg-indigo/15 px-1.5 py-0.5 text-[9px] text-indigo-light">
+              {deps.length}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={() => reload()}
+            disabled={isBusy}
+            className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground disabled:opacity-40"
+            title="Reload from package.json"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+            title="Close dependencies"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* ─── Add ─── */}
+      <div className="space-y-1.5 border-b border-border/50 px-3 py-2">
+        <div className="flex gap-1">
+          <input
+            value={specs}
+            onChange={(e) => setSpecs(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !isBusy) handleAdd();
+            }}
+            placeholder="react-router zod@3"
+            spellCheck={false}
+            className="min-w-0 flex-1 rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isBusy || parseSpecs(specs).length === 0}
+            className="flex items-center gap-1 rounded bg-indigo px-2 py-1 text-[11px] text-white transition-colors hover:bg-indigo-light disabled:opacity-40"
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </button>
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] text-muted">
+          <input
+            type="checkbox"
+            checked={asDev}
+            onChange={(e) => setAsDev(e.target.checked)}
+            className="accent-indigo"
+          />
+          Dev dependency
+        </label>
+        {running && (
+          <p className="flex items-center gap-1.5 text-[10px] text-muted">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {running}
+          </p>
+        )}
+        {error && (
+          <p className="rounded border border-red-500/30 bg-red-500/10 px-2 py-1 text-[10px] text-red-300">
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* ─── Installed ─── */}
+      <div className="min-h-0 flex-1 overflow-y-auto px-2 py-2">
+        {!deps ? (
+          <p className="px-2 py-6 text-center text-[11px] text-muted/60">Reading package.json…</p>
+        ) : deps.length === 0 ? (
+          <p className="px-2 py-6 text-center text-[11px] text-muted/60">
+            No dependencies in package.json yet.
+          </p>
+        ) : (
+          SECTIONS.map(({ type, label }) => {
+            const inSection = deps.filter((d) => d.type === type);
+            if (inSection.length === 0) return null;
+            return (
+              <div key={type} className="mb-2">
+                <p className="px-2 pb-0.5 pt-1 text-[9px] font-semibold uppercase tracking-wider text-muted/60">
+                  {label}
+                </p>
+                <ul className="space-y-0.5">
+                  {inSection.map((dep) => (
+                    <li
+                      key={dep.name}
+                      className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-white/5"
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate font-mono text-[11px] text-foreground/80">
+                          {dep.name}
+                        </span>
+                        <span className="block truncate text-[9px] text-muted/50">
+                          {dep.range} ·{" "}
+                          {dep.installed ? (
+                            `installed ${dep.installed}`
+                          ) : (
+                            <span className="text-amber-400/80">not installed</span>
+                          )}
+                        </span>
+                      </span>
+                      <div className="flex shrink-0 gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                        <button
+                          onClick={() =>
+                            run({ kind: "upgrade", packages: [dep.name] }, `Upgrading ${dep.name}…`)
+                          }
+                          disabled={isBusy}
+                          className="rounded p-1 text-muted transition-colors hover:bg-indigo/15 hover:text-indigo-light disabled:opacity-40"
+                          title="Upgrade to latest"
+                        >
+                          <ArrowUpCircle className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            run({ kind: "remove", packages: [dep.name] }, `Removing ${dep.name}…`)
+                          }
+                          disabled={isBusy}
+                          className="rounded p-1 text-muted transition-colors hover:bg-red-500/15 hover:text-red-400 disabled:opacity-40"
+                          title="Remove"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DependencyPanel;
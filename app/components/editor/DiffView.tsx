@@ -3,26 +3,111 @@
 /**
  * DiffView — Accept / Reject UI for AI-generated file changes.
  *
- * Shows a simple unified-diff-style view with colored additions (+)
- * and deletions (-) so the user can review before applying changes.
+ * Renders the structured hunks from `lib/diff.ts`: old/new line-number
+ * gutters, colored additions (+) and deletions (-), collapsed context
+ * between hunks, and word-level highlights on lines that were edited
+ * rather than replaced wholesale.
+ * PATCH actions are resolved against `currentContent` first; if a
+ * SEARCH anchor is missing the error is shown and Accept is disabled.
+ * DELETE shows the whole file as removed; RENAME and MKDIR show a
+ * one-line summary since they carry no content.
+ *
+ * With `onResolveHunk`, each hunk gets its own Accept / Reject / Edit
+ * controls; the caller owns the decisions and composes the final file
+ * with `applyHunkResolutions`.
  */
 
 import type { FileAction } from "@/lib/ai-parser";
-import { simpleDiff } from "@/lib/ai-parser";
-import { Check, X } from "lucide-react";
-import { useMemo, type FC } from "react";
+import { proposedContent } from "@/lib/ai-parser";
+import {
+  diffLines,
+  hunkHeader,
+  hunkNewText,
+  hunkOldText,
+  type DiffHunk,
+  type DiffLine,
+  type DiffSegment,
+  type HunkResolution,
+} from "@/lib/diff";
+import { Check, Pencil, RotateCcw, X } from "lucide-react";
+import { useMemo, useState, type FC } from "react";
 
 // ─── Types ──────────────────────────────────────────────────
 
 interface DiffViewProps {
   /** The file action proposed by the AI */
   action: FileAction;
-  /** Current content of the file (empty string for new files) */
+  /** Current content of the file (empty string for new files / directories) */
   currentContent: string;
-  /** Called when the user accepts the change */
-  onAccept: (action: FileAction) => void;
-  /** Called when the user rejects the change */
-  onReject: (action: FileAction) => void;
+  /** Called when the user accepts the change (buttons hidden when omitted) */
+  onAccept?: (action: FileAction) => void;
+  /** Called when the user rejects the change (buttons hidden when omitted) */
+  onReject?: (action: FileAction) => void;
+  /** True while the action is still being streamed (partial content) */
+  streaming?: boolean;
+  /** Per-hunk decisions, by hunk index (missing entries count as accepted) */
+  hunkResolutions?: ReadonlyArray<HunkResolution | undefined>;
+  /** Enables per-hunk Accept / Reject / Edit controls; `undefined` resets a hunk */
+  onResolveHunk?: (hunkIndex: number, resolution: HunkResolution | undefined) => void;
+}
+
+/** A rendered row: a diff line, a hunk header, or a one-line notice. */
+type Row =
+  | { type: "line"; line: DiffLine; hunk?: number }
+  | { type: "hunk"; hunk: DiffHunk; index: number }
+  | { type: "edit"; index: number }
+  | { type: "header"; text: string };
+
+const LINE_STYLE: Record<DiffLine["type"], string> = {
+  add: "bg-emerald-500/10 text-emerald-300",
+  del: "bg-red-500/10 text-red-300",
+  ctx: "text-muted",
+};
+
+const SEGMENT_STYLE: Record<"add" | "del", string> = {
+  add: "rounded-sm bg-emerald-500/30 text-emerald-100",
+  del: "rounded-sm bg-red-500/30 text-red-100",
+};
+
+/** Every line of `text` as a single add or del run (new / deleted files). */
+function wholeFile(text: string, type: "add" | "del"): Row[] {
+  return text.split("\n").map((t, i) => ({
+    type: "line",
+    line: {
+      type,
+      text: t,
+      oldLine: type === "del" ? i + 1 : null,
+      newLine: type === "add" ? i + 1 : null,
+    },
+  }));
+}
+
+/**
+ * Lines shown for a hunk the user edited inline: the hunk's old side
+ * diffed against the edited text, renumbered to the hunk's position.
+ */
+function editedLines(hunk: DiffHunk, edited: string): DiffLine[] {
+  const [mini] = diffLines(hunkOldText(hunk), edited, Number.MAX_SAFE_INTEGER);
+  if (!mini) return hunk.lines.filter((l) => l.type !== "add").map((l) => ({ ...l, type: "ctx" }));
+  const oldBase = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newBase = hunk.newLines > 0 ? hunk.newStart - 1 : hunk.newStart;
+  return mini.lines.map((l) => ({
+    ...l,
+    oldLine: l.oldLine === null ? null : l.oldLine + oldBase,
+    newLine: l.newLine === null ? null : l.newLine + newBase,
+  }));
+}
+
+function renderSegments(segments: DiffSegment[], type: "add" | "del") {
+  return segments.map((seg, i) =>
+    seg.changed ? (
+      <span key={i} className={SEGMENT_STYLE[type]}>
+        {seg.text}
+      </span>
+    ) : (
+      <span key={i}>{seg.text}</span>
+    )
+  );
 }
 
 // ─── Component ──────────────────────────────────────────────
@@ -32,28 +117,69 @@ const DiffView: FC<DiffViewProps> = ({
   currentContent,
   onAccept,
   onReject,
+  streaming = false,
+  hunkResolutions = [],
+  onResolveHunk,
 }) => {
-  const isNewFile = currentContent === "";
+  const isContentChange = action.kind === "write" || action.kind === "patch";
+  const isNewFile = isContentChange && currentContent === "";
+  const interactive = isContentChange && !!onResolveHunk;
+  const [editing, setEditing] = useState<{ index: number; draft: string } | null>(null);
+
+  // Resolve PATCH hunks into the proposed full content
+  const { proposed, patchError } = useMemo(() => {
+    try {
+      return { proposed: proposedContent(action, currentContent), patchError: null };
+    } catch (err) {
+      return {
+        proposed: currentContent,
+        patchError: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }, [action, currentContent]);
 
-  const diffLines = useMemo(() => {
-    if (isNewFile) {
+  const hunks = useMemo(
+    () => (isContentChange && !patchError ? diffLines(currentContent, proposed) : []),
+    [isContentChange, patchError, currentContent, proposed]
+  );
+
+  const rows = useMemo((): Row[] => {
+    if (patchError) {
+      return [{ type: "header", text: patchError }];
+    }
+    if (action.kind === "rename") {
+      return [{ type: "header", text: `rename ${action.path} → ${action.newPath}` }];
+    }
+    if (action.kind === "mkdir") {
+      return [{ type: "header", text: `create directory ${action.path}/` }];
+    }
+    if (action.kind === "delete") {
+      // Show the whole file as removed
+      return currentContent === ""
+        ? [{ type: "header", text: `delete ${action.path}` }]
+        : wholeFile(currentContent, "del");
+    }
+    if (isNewFile && !interactive) {
       // For new files, show all lines as additions
-      return action.content.split("\n").map((line) => ({
-        type: "add" as const,
-        text: line,
-      }));
+      return wholeFile(proposed, "add");
+    }
+    if (hunks.length === 0) {
+      return [{ type: "header", text: "No changes" }];
     }
-    // Generate diff and parse into typed lines
-    const raw = simpleDiff(currentContent, action.content, action.path);
-    return raw.split("\n").map((line) => {
-      if (line.startsWith("+ ")) return { type: "add" as const, text: line.slice(2) };
-      if (line.startsWith("- ")) return { type: "del" as const, text: line.slice(2) };
-      if (line.startsWith("@@ ")) return { type: "hunk" as const, text: line };
-      if (line.startsWith("---") || line.startsWith("+++"))
-        return { type: "header" as const, text: line };
-      return { type: "ctx" as const, text: line.startsWith("  ") ? line.slice(2) : line };
+    return hunks.flatMap((hunk, index): Row[] => {
+      const head: Row = { type: "hunk", hunk, index };
+      if (editing?.index === index) return [head, { type: "edit", index }];
+      const edited = hunkResolutions[index]?.edited;
+      const lines = edited !== undefined ? editedLines(hunk, edited) : hunk.lines;
+      return [head, ...lines.map((line): Row => ({ type: "line", line, hunk: index }))];
     });
-  }, [action, currentContent, isNewFile]);
+  }, [action, currentContent, isNewFile, interactive, proposed, patchError, hunks, hunkResolutions, editing]);
+
+  const saveEdit = () => {
+    if (!editing || !onResolveHunk) return;
+    onResolveHunk(editing.index, { status: "accepted", edited: editing.draft });
+    setEditing(null);
+  };
 
   return (
     <div className="my-2 overflow-hidden rounded-lg border border-border bg-[#0d1117]">
@@ -61,58 +187,190 @@ const DiffView: FC<DiffViewProps> = ({
       <div className="flex items-center justify-between border-b border-border/50 bg-surface/50 px-3 py-1.5">
         <div className="flex items-center gap-2">
           <span className="text-[11px] font-medium text-foreground">
-            {action.path}
+            {action.kind === "rename"
+              ? `${action.path} → ${action.newPath}`
+              : action.path}
           </span>
           {isNewFile && (
             <span className="rounded bg-emerald-500/20 px-1.5 py-0.5 text-[9px] font-semibold uppercase text-emerald-400">
               New File
             </span>
           )}
+          {streaming && (
+            <span className="rounded bg-indigo/20 px-1.5 py-0.5 text-[9px] font-semibold uppercase text-indigo-light">
+              Streaming
+            </span>
+          )}
+          {!isContentChange && (
+            <span
+              className={`rounded px-1.5 py-0.5 text-[9px] font-semibold uppercase ${
+                action.kind === "delete"
+                  ? "bg-red-500/20 text-red-400"
+                  : "bg-amber-500/20 text-amber-400"
+              }`}
+            >
+              {action.kind === "delete"
+                ? "Delete"
+                : action.kind === "rename"
+                  ? "Rename"
+                  : "New Folder"}
+            </span>
+          )}
         </div>
-        <div className="flex items-center gap-1">
-          <button
-            onClick={() => onAccept(action)}
-            className="flex items-center gap-1 rounded px-2 py-0.5 text-[10px] font-medium text-emerald-400 transition-colors hover:bg-emerald-500/20"
-            title="Accept changes"
-          >
-            <Check className="h-3 w-3" />
-            Accept
-          </button>
-          <button
-            onClick={() => onReject(action)}
-            className="flex items-center gap-1 rounded px-2 py-0.5 text-[10px] font-medium text-red-400 transition-colors hover:bg-red-500/20"
-            title="Reject changes"
-          >
-            <X className="h-3 w-3" />
-            Reject
-          </button>
-        </div>
+        {onAccept && onReject && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onAccept(action)}
+              disabled={!!patchError}
+              className="flex items-center gap-1 rounded px-2 py-0.5 text-[10px] font-medium text-emerald-400 transition-colors hover:bg-emerald-500/20 disabled:opacity-30"
+              title="Accept changes"
+            >
+              <Check className="h-3 w-3" />
+              Accept
+            </button>
+            <button
+              onClick={() => onReject(action)}
+              className="flex items-center gap-1 rounded px-2 py-0.5 text-[10px] font-medium text-red-400 transition-colors hover:bg-red-500/20"
+              title="Reject changes"
+            >
+              <X className="h-3 w-3" />
+              Reject
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Diff body */}
       <div className="max-h-[300px] overflow-auto p-0">
         <pre className="text-[11px] leading-[1.6]">
-          {diffLines.map((line, i) => (
-            <div
-              key={i}
-              className={
-                line.type === "add"
-                  ? "bg-emerald-500/10 text-emerald-300 px-3"
-                  : line.type === "del"
-                    ? "bg-red-500/10 text-red-300 px-3"
-                    : line.type === "hunk"
-                      ? "bg-indigo/10 text-indigo-light px-3 py-0.5"
-                      : line.type === "header"
-                        ? "text-muted/60 px-3"
-                        : "text-muted px-3"
-              }
-            >
-              <span className="select-none text-muted/40 mr-2 inline-block w-3">
-                {line.type === "add" ? "+" : line.type === "del" ? "−" : " "}
-              </span>
-              {line.text}
-            </div>
-          ))}
+          {rows.map((row, i) => {
+            if (row.type === "hunk") {
+              const resolution = hunkResolutions[row.index];
+              const rejected = resolution?.status === "rejected";
+              return (
+                <div
+                  key={i}
+                  className="flex items-center gap-2 bg-indigo/10 px-3 py-0.5 text-indigo-light"
+                >
+                  <span className={rejected ? "opacity-40" : ""}>{hunkHeader(row.hunk)}</span>
+                  {resolution?.edited !== undefined && (
+                    <span className="rounded bg-amber-500/20 px-1 text-[9px] font-semibold uppercase text-amber-400">
+                      Edited
+                    </span>
+                  )}
+                  {rejected && (
+                    <span className="rounded bg-red-500/20 px-1 text-[9px] font-semibold uppercase text-red-400">
+                      Rejected
+                    </span>
+                  )}
+                  {interactive && editing?.index !== row.index && (
+                    <span className="ml-auto flex items-center gap-0.5 font-sans">
+                      <button
+                        onClick={() => onResolveHunk?.(row.index, { status: "accepted" })}
+                        className={`rounded p-0.5 transition-colors hover:bg-emerald-500/20 ${
+                          !rejected ? "text-emerald-400" : "text-muted/50"
+                        }`}
+                        title="Accept hunk"
+                      >
+                        <Check className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => onResolveHunk?.(row.index, { status: "rejected" })}
+                        className={`rounded p-0.5 transition-colors hover:bg-red-500/20 ${
+                          rejected ? "text-red-400" : "text-muted/50"
+                        }`}
+                        title="Reject hunk"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() =>
+                          setEditing({
+                            index: row.index,
+                            draft: resolution?.edited ?? hunkNewText(row.hunk),
+                          })
+                        }
+                        className="rounded p-0.5 text-muted/50 transition-colors hover:bg-amber-500/20 hover:text-amber-400"
+                        title="Edit hunk before accepting"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                      {resolution?.edited !== undefined && (
+                        <button
+                          onClick={() => onResolveHunk?.(row.index, undefined)}
+                          className="rounded p-0.5 text-muted/50 transition-colors hover:bg-indigo/20 hover:text-indigo-light"
+                          title="Discard edit"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  )}
+                </div>
+              );
+            }
+            if (row.type === "edit") {
+              return (
+                <div key={i} className="space-y-1 bg-amber-500/5 px-3 py-1.5 font-sans">
+                  <textarea
+                    value={editing?.draft ?? ""}
+                    onChange={(e) =>
+                      setEditing((prev) => prev && { ...prev, draft: e.target.value })
+                    }
+                    rows={Math.min(12, (editing?.draft.split("\n").length ?? 1) + 1)}
+                    spellCheck={false}
+                    autoFocus
+                    className="w-full resize-y rounded border border-amber-500/30 bg-[#0d1117] px-2 py-1 font-mono text-[11px] text-foreground outline-none focus:border-amber-500/60"
+                  />
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => setEditing(null)}
+                      className="rounded px-2 py-0.5 text-[10px] text-muted transition-colors hover:bg-surface"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveEdit}
+                      className="rounded bg-amber-600/80 px-2 py-0.5 text-[10px] font-semibold text-white transition-colors hover:bg-amber-500"
+                    >
+                      Save &amp; accept
+                    </button>
+                  </div>
+                </div>
+              );
+            }
+            if (row.type === "header") {
+              return (
+                <div key={i} className="px-3 text-muted/60">
+                  {row.text}
+                </div>
+              );
+            }
+            const { line } = row;
+            const dimmed =
+              row.hunk !== undefined && hunkResolutions[row.hunk]?.status === "rejected";
+            return (
+              <div
+                key={i}
+                className={`flex pr-3 ${LINE_STYLE[line.type]} ${dimmed ? "opacity-40" : ""}`}
+              >
+                <span className="w-8 shrink-0 select-none pr-1 text-right text-muted/30">
+                  {line.oldLine ?? ""}
+                </span>
+                <span className="w-8 shrink-0 select-none pr-1 text-right text-muted/30">
+                  {line.newLine ?? ""}
+                </span>
+                <span className="mx-2 inline-block w-3 shrink-0 select-none text-muted/40">
+                  {line.type === "add" ? "+" : line.type === "del" ? "−" : " "}
+                </span>
+                <span>
+                  {line.segments && line.type !== "ctx"
+                    ? renderSegments(line.segments, line.type)
+                    : line.text}
+                </span>
+              </div>
+            );
+          })}
         </pre>
       </div>
     </div>
@@ -0,0 +1,247 @@
+"use client";
+
+/**
+ * EnvPanel — the project's environment variables.
+ *
+ * Variables are edited here, stored encrypted per project (env-vars.ts)
+ * and given to every process the IDE starts afterwards: scripts, npm
+ * installs and new terminal shells. Secret values stay masked unless
+ * revealed. Optionally the variables are also written to a generated
+ * `.env` in the container, for tools that only read files.
+ */
+
+import {
+    validateEnvVars,
+    type EnvVar,
+    type ProjectEnv,
+} from "@/lib/env-vars";
+import type { DotEnvSyncResult } from "@/lib/useWebContainer";
+import { Eye, EyeOff, KeyRound, Loader2, Lock, LockOpen, Plus, Trash2, X } from "lucide-react";
+import { useCallback, useState, type FC } from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface EnvPanelProps {
+  /** The saved variables */
+  env: ProjectEnv;
+  /** Why the saved variables couldn't be loaded, if they couldn't */
+  loadError?: string | null;
+  /** Persist and apply the variables; resolves with what happened to `.env` */
+  onSave: (env: ProjectEnv) => Promise<DotEnvSyncResult>;
+  onClose: () => void;
+}
+
+/** An editable row — `key` keeps React identity stable while names change. */
+interface Row extends EnvVar {
+  key: number;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+let nextRowKey = 1;
+
+function toRows(vars: EnvVar[]): Row[] {
+  return vars.map((v) => ({ ...v, key: nextRowKey++ }));
+}
+
+function toVars(rows: Row[]): EnvVar[] {
+  return rows.map(({ name, value, secret }) => ({ name: name.trim(), value, secret }));
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+const EnvPanel: FC<EnvPanelProps> = ({ env, loadError, onSave, onClose }) => {
+  const [rows, setRows] = useState<Row[]>(() => toRows(env.vars));
+  const [writeDotEnv, setWriteDotEnv] = useState(env.writeDotEnv);
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const updateRow = useCallback((key: number, patch: Partial<EnvVar>) => {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+    setIsDirty(true);
+  }, []);
+
+  const addRow = useCallback(() => {
+    setRows((prev) => [...prev, { key: nextRowKey++, name: "", value: "", secret: false }]);
+    setIsDirty(true);
+  }, []);
+
+  const removeRow = useCallback((key: number) => {
+    setRows((prev) => prev.filter((r) => r.key !== key));
+    setIsDirty(true);
+  }, []);
+
+  const toggleReveal = useCallback((key: number) => {
+    setRevealed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    // Rows left completely empty are dropped rather than reported
+    const vars = toVars(rows).filter((v) => v.name || v.value);
+    const found = validateEnvVars(vars);
+    setProblems(found);
+    if (found.length > 0) return;
+
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const result = await onSave({ vars, writeDotEnv });
+      setIsDirty(false);
+      setStatus(
+        result === "conflict"
+          ? "Saved. The project has its own .env file, so no .env was generated."
+          : "Saved. Restart running processes to pick up the changes."
+      );
+    } catch (err) {
+      setProblems([`Failed to save: ${err instanceof Error ? err.message : String(err)}`]);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [rows, writeDotEnv, onSave]);
+
+  return (
+    <div className="flex h-full w-[360px] shrink-0 flex-col border-l border-border bg-surface">
+      {/* ─── Header ─── */}
+      <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-indigo" />
+          <span className="text-xs font-semibold text-foreground">Environment</span>
+          <span className="rounded-full bg-indigo/15 px-1.5 py-0.5 text-[9px] text-indigo-light">
+            {rows.length}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+          title="Close environment"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {/* ─── Variables ─── */}
+      <div className="min-h-0 flex-1 overflow-y-auto px-2 py-2">
+        {loadError && (
+          <p className="mb-2 rounded border border-amber-500/30 bg-amber-500/10 px-2 py-1 text-[10px] text-amber-300">
+            {loadError}
+          </p>
+        )}
+        {rows.length === 0 ? (
+          <p className="px-2 py-6 text-center text-[11px] text-muted/60">
+            No variables yet. They are passed to scripts, installs and terminals.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {rows.map((row) => {
+              const masked = row.secret && !revealed.has(row.key);
+              return (
+                <li key={row.key} className="group flex items-center gap-1 rounded-md px-1 py-0.5 hover:bg-white/5">
+                  <input
+                    value={row.name}
+                    onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                    placeholder="NAME"
+                    spellCheck={false}
+                    className="w-[38%] min-w-0 rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+                  />
+                  <input
+                    type={masked ? "password" : "text"}
+                    value={row.value}
+                    onChange={(e) => updateRow(row.key, { value: e.target.value })}
+                    placeholder="value"
+                    spellCheck={false}
+                    autoComplete="off"
+                    className="min-w-0 flex-1 rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+                  />
+                  {row.secret && (
+                    <button
+                      onClick={() => toggleReveal(row.key)}
+                      className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+                      title={masked ? "Show value" : "Hide value"}
+                    >
+                      {masked ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => updateRow(row.key, { secret: !row.secret })}
+                    className={`rounded p-1 transition-colors hover:bg-white/5 ${
+                      row.secret ? "text-amber-400" : "text-muted/40 hover:text-foreground"
+                    }`}
+                    title={row.secret ? "Secret — masked and kept out of AI context" : "Mark as secret"}
+                  >
+                    {row.secret ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3" />}
+                  </button>
+                  <button
+                    onClick={() => removeRow(row.key)}
+                    className="rounded p-1 text-muted/40 opacity-0 transition-all hover:bg-red-500/10 hover:text-red-400 group-hover:opacity-100"
+                    title="Delete variable"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <button
+          onClick={addRow}
+          className="mt-2 flex items-center gap-1 rounded px-2 py-1 text-[11px] text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+        >
+          <Plus className="h-3 w-3" />
+          Add variable
+        </button>
+      </div>
+
+      {/* ─── Footer ─── */}
+      <div className="space-y-2 border-t border-border/50 px-3 py-2">
+        <label className="flex items-start gap-2 text-[11px] text-muted">
+          <input
+            type="checkbox"
+            checked={writeDotEnv}
+            onChange={(e) => {
+              setWriteDotEnv(e.target.checked);
+              setIsDirty(true);
+            }}
+            className="mt-0.5 accent-indigo"
+          />
+          <span>
+            Write a <code className="font-mono">.env</code> file into the container
+            <span className="block text-[9px] text-muted/50">
+              Container only — never saved with the project files.
+            </span>
+          </span>
+        </label>
+
+        {problems.length > 0 && (
+          <ul className="rounded border border-red-500/30 bg-red-500/10 px-2 py-1 text-[10px] text-red-300">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+        {status && !isDirty && <p className="text-[10px] text-muted/70">{status}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="flex items-center gap-1 rounded bg-indigo px-2.5 py-1 text-[11px] text-white transition-colors hover:bg-indigo-light disabled:opacity-40"
+          >
+            {isSaving && <Loader2 className="h-3 w-3 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnvPanel;
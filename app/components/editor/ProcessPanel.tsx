@@ -0,0 +1,210 @@
+"use client";
+
+/**
+ * ProcessPanel — every WebContainer process the IDE has spawned.
+ *
+ * Reads the page-wide process manager: dev servers and scripts, npm
+ * installs and terminal shells, newest first, with their status and
+ * exit code. Selecting one shows its captured output; running ones can
+ * be killed, and those that know how to start again can be restarted.
+ * Processes started from inside a shell belong to that shell and are
+ * not listed separately.
+ */
+
+import {
+    processManager,
+    type ProcessInfo,
+} from "@/lib/process-manager";
+import { Activity, RotateCw, Square, Trash2, X } from "lucide-react";
+import {
+    useEffect,
+    useRef,
+    useState,
+    useSyncExternalStore,
+    type FC,
+} from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface ProcessPanelProps {
+  onClose: () => void;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const subscribe = (listener: () => void) => processManager.subscribe(listener);
+const getSnapshot = () => processManager.list();
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return m < 60 ? `${m}m ${s % 60}s` : `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+/**
+ * Terminal output as plain text: escape sequences removed, and a
+ * carriage return overwrites its line (progress bars) as it would on
+ * screen.
+ */
+function toPlainText(output: string): string {
+  const stripped = output
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, "") // OSC (titles, links)
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, "") // CSI (colours, cursor moves)
+    .replace(/\x1b[@-_]/g, "");
+  return stripped
+    .split(/\r?\n/)
+    .map((line) => line.split("\r").filter(Boolean).pop() ?? "")
+    .join("\n");
+}
+
+function statusDot(p: ProcessInfo): string {
+  if (p.status === "running") return "bg-emerald-400 animate-pulse";
+  if (p.status === "killed") return "bg-zinc-500";
+  return p.exitCode === 0 ? "bg-zinc-500" : "bg-red-400";
+}
+
+function statusLabel(p: ProcessInfo, now: number): string {
+  if (p.status === "running") return `running · ${formatDuration(now - p.startedAt)}`;
+  const code = p.exitCode !== null ? ` (${p.exitCode})` : "";
+  return p.status === "killed" ? `killed${code}` : `exited${code}`;
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+const ProcessPanel: FC<ProcessPanelProps> = ({ onClose }) => {
+  const processes = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  const newestFirst = [...processes].reverse();
+  const selected =
+    processes.find((p) => p.id === selectedId) ?? newestFirst.find((p) => p.status === "running") ?? null;
+  const hasFinished = processes.some((p) => p.status !== "running");
+
+  // Tick running durations
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Follow the output tail
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [selected?.id, selected?.output]);
+
+  return (
+    <div className="flex h-full w-[360px] shrink-0 flex-col border-l border-border bg-surface">
+      {/* ─── Header ─── */}
+      <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <Activity className="h-4 w-4 text-indigo" />
+          <span className="text-xs font-semibold text-foreground">Processes</span>
+          <span className="rounded-full bg-indigo/15 px-1.5 py-0.5 text-[9px] text-indigo-light">
+            {processes.filter((p) => p.status === "running").length}
+          </span>
+        </div>
+        <div className="flex items-center gap-0.5">
+          {hasFinished && (
+            <button
+              onClick={() => processManager.clearFinished()}
+              className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+              title="Clear finished processes"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+            title="Close processes"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* ─── Process list ─── */}
+      <div className="max-h-[45%] shrink-0 overflow-y-auto border-b border-border/50 px-2 py-2">
+        {newestFirst.length === 0 ? (
+          <p className="px-2 py-6 text-center text-[11px] text-muted/60">
+            Dev servers, installs and terminal shells will appear here.
+          </p>
+        ) : (
+          <ul className="space-y-0.5">
+            {newestFirst.map((p) => {
+              const isSelected = p.id === selected?.id;
+              return (
+                <li
+                  key={p.id}
+                  className={`group flex items-center gap-2 rounded-md px-2 py-1.5 transition-colors ${
+                    isSelected ? "bg-indigo/10" : "hover:bg-white/5"
+                  }`}
+                >
+                  <button
+                    onClick={() => setSelectedId(p.id)}
+                    className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  >
+                    <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${statusDot(p)}`} />
+                    <span className="min-w-0 flex-1">
+                      <span className="flex items-baseline gap-1.5">
+                        <span className="truncate text-[11px] text-foreground/80">{p.name}</span>
+                        <span className="shrink-0 text-[9px] text-muted/50">{p.kind}</span>
+                      </span>
+                      <span className="block truncate text-[9px] text-muted/50">
+                        #{p.id} · {formatTime(p.startedAt)} · {statusLabel(p, now)}
+                      </span>
+                    </span>
+                  </button>
+                  <div className="flex shrink-0 gap-0.5">
+                    {p.canRestart && (
+                      <button
+                        onClick={() => processManager.restart(p.id)}
+                        className="rounded p-1 text-muted transition-colors hover:bg-indigo/15 hover:text-indigo-light"
+                        title={p.status === "running" ? "Restart" : "Run again"}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                      </button>
+                    )}
+                    {p.status === "running" && (
+                      <button
+                        onClick={() => processManager.kill(p.id)}
+                        className="rounded p-1 text-muted transition-colors hover:bg-red-500/15 hover:text-red-400"
+                        title="Kill"
+                      >
+                        <Square className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* ─── Output ─── */}
+      {selected && (
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="flex items-center gap-2 px-3 py-1.5 text-[10px] text-muted">
+            <span className="truncate font-mono">{selected.command}</span>
+          </div>
+          <pre
+            ref={outputRef}
+            className="min-h-0 flex-1 overflow-auto whitespace-pre-wrap break-all bg-[#0B0E14] px-3 py-2 font-mono text-[10px] leading-relaxed text-foreground/70"
+          >
+            {toPlainText(selected.output) || "No output yet."}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProcessPanel;
@@ -0,0 +1,364 @@
+"use client";
+
+/**
+ * ScriptRunner — toolbar menu for running any package.json script.
+ *
+ * Lists the project's saved run configurations and every script from
+ * package.json. A script can be run as-is, or opened in a small form to
+ * add arguments and environment variables — and saved under a name so
+ * it is one click away next time. Configurations are stored per project
+ * (run-configs.ts).
+ */
+
+import {
+    createRunConfig,
+    describeScriptRun,
+    loadRunConfigs,
+    parseArgs,
+    parseEnv,
+    RunConfigError,
+    saveRunConfigs,
+    toScriptRun,
+    type RunConfig,
+    type ScriptRun,
+} from "@/lib/run-configs";
+import type { PackageScripts } from "@/lib/useWebContainer";
+import { ChevronDown, ListVideo, Pencil, Play, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState, type FC } from "react";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface ScriptRunnerProps {
+  /** Scripts from the mounted project's package.json */
+  scripts: PackageScripts;
+  onRun: (run: ScriptRun) => void;
+  /** User hash for OPFS access */
+  userHash: string;
+  /** Current project ID */
+  projectId: string;
+  /** Encryption key for OPFS */
+  encryptionKey?: CryptoKey;
+}
+
+/** The form's fields; `id` is set when editing a saved configuration. */
+interface Draft {
+  id: string | null;
+  name: string;
+  script: string;
+  args: string;
+  env: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function parseDraft(draft: Draft): ScriptRun {
+  return {
+    script: draft.script,
+    args: parseArgs(draft.args),
+    env: parseEnv(draft.env),
+    label: draft.name.trim() || undefined,
+  };
+}
+
+/** The saved form of a configuration, for the menu's second line. */
+function describeConfig(config: RunConfig): string {
+  try {
+    return describeScriptRun(toScriptRun(config));
+  } catch (err) {
+    return err instanceof RunConfigError ? err.message : String(err);
+  }
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+const ScriptRunner: FC<ScriptRunnerProps> = ({
+  scripts,
+  onRun,
+  userHash,
+  projectId,
+  encryptionKey,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [configs, setConfigs] = useState<RunConfig[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scriptNames = Object.keys(scripts);
+
+  // ── Load the project's configurations ──
+  useEffect(() => {
+    if (!userHash) return;
+    let cancelled = false;
+    loadRunConfigs(userHash, projectId, encryptionKey)
+      .then((loaded) => {
+        if (!cancelled) setConfigs(loaded);
+      })
+      .catch((err) => console.warn("[ScriptRunner] Failed to load run configurations:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userHash, projectId, encryptionKey]);
+
+  const persist = useCallback(
+    (next: RunConfig[]) => {
+      setConfigs(next);
+      if (!userHash) return;
+      saveRunConfigs(userHash, projectId, next, encryptionKey).catch((err) =>
+        console.warn("[ScriptRunner] Failed to save run configurations:", err)
+      );
+    },
+    [userHash, projectId, encryptionKey]
+  );
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setDraft(null);
+    setError(null);
+  }, []);
+
+  const run = useCallback(
+    (scriptRun: ScriptRun) => {
+      onRun(scriptRun);
+      close();
+    },
+    [onRun, close]
+  );
+
+  const handleRunConfig = useCallback(
+    (config: RunConfig) => {
+      try {
+        run(toScriptRun(config));
+      } catch (err) {
+        setError(err instanceof RunConfigError ? `${config.name}: ${err.message}` : String(err));
+      }
+    },
+    [run]
+  );
+
+  const handleDraftRun = useCallback(() => {
+    if (!draft) return;
+    try {
+      run(parseDraft(draft));
+    } catch (err) {
+      setError(err instanceof RunConfigError ? err.message : String(err));
+    }
+  }, [draft, run]);
+
+  const handleDraftSave = useCallback(() => {
+    if (!draft) return;
+    try {
+      // Validate before saving so a saved configuration always runs
+      parseDraft(draft);
+    } catch (err) {
+      setError(err instanceof RunConfigError ? err.message : String(err));
+      return;
+    }
+    const fields = {
+      name: draft.name.trim() || [draft.script, draft.args.trim()].filter(Boolean).join(" "),
+      script: draft.script,
+      args: draft.args.trim(),
+      env: draft.env.trim(),
+    };
+    persist(
+      draft.id
+        ? configs.map((c) => (c.id === draft.id ? { ...c, ...fields } : c))
+        : [...configs, createRunConfig(fields)]
+    );
+    setDraft(null);
+    setError(null);
+  }, [draft, configs, persist]);
+
+  if (scriptNames.length === 0 && configs.length === 0) return null;
+
+  return (
+    <div className="relative hidden sm:block">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className={`flex items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors ${
+          isOpen
+            ? "border-indigo bg-indigo/10 text-indigo-light"
+            : "border-border-light text-muted hover:text-foreground"
+        }`}
+        title="Run a package.json script"
+      >
+        <ListVideo className="h-3 w-3" />
+        Scripts
+        <ChevronDown className="h-3 w-3 opacity-60" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full z-50 mt-1 max-h-[70vh] w-[340px] overflow-y-auto rounded-md border border-border bg-surface py-1 shadow-xl">
+          {error && (
+            <p className="mx-2 my-1 rounded border border-red-500/30 bg-red-500/10 px-2 py-1 text-[10px] text-red-300">
+              {error}
+            </p>
+          )}
+
+          {draft ? (
+            // ── Configure: arguments, environment, name ──
+            <div className="space-y-2 px-3 py-2">
+              <label className="block">
+                <span className="mb-0.5 block text-[10px] text-muted">Script</span>
+                <select
+                  value={draft.script}
+                  onChange={(e) => setDraft({ ...draft, script: e.target.value })}
+                  className="w-full rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+                >
+                  {[...new Set([draft.script, ...scriptNames])].map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="mb-0.5 block text-[10px] text-muted">Arguments</span>
+                <input
+                  autoFocus
+                  value={draft.args}
+                  onChange={(e) => setDraft({ ...draft, args: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleDraftRun();
+                  }}
+                  placeholder="--watch"
+                  spellCheck={false}
+                  className="w-full rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-0.5 block text-[10px] text-muted">Environment</span>
+                <textarea
+                  value={draft.env}
+                  onChange={(e) => setDraft({ ...draft, env: e.target.value })}
+                  placeholder="NODE_ENV=production"
+                  rows={2}
+                  spellCheck={false}
+                  className="w-full resize-y rounded border border-border-light bg-surface-light px-1.5 py-1 font-mono text-[11px] text-foreground outline-none focus:border-indigo/50"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-0.5 block text-[10px] text-muted">Save as</span>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder={`${draft.script} ${draft.args}`.trim()}
+                  className="w-full rounded border border-border-light bg-surface-light px-1.5 py-1 text-[11px] text-foreground outline-none focus:border-indigo/50"
+                />
+              </label>
+              <div className="flex justify-end gap-1 pt-1">
+                <button
+                  onClick={() => {
+                    setDraft(null);
+                    setError(null);
+                  }}
+                  className="rounded px-2 py-1 text-[11px] text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDraftSave}
+                  className="rounded border border-border-light px-2 py-1 text-[11px] text-muted transition-colors hover:text-foreground"
+                >
+                  {draft.id ? "Update" : "Save"}
+                </button>
+                <button
+                  onClick={handleDraftRun}
+                  disabled={!(draft.script in scripts)}
+                  className="flex items-center gap-1 rounded bg-indigo px-2 py-1 text-[11px] text-white transition-colors hover:bg-indigo-light disabled:opacity-40"
+                >
+                  <Play className="h-3 w-3" />
+                  Run
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* ── Saved configurations ── */}
+              {configs.length > 0 && (
+                <>
+                  <p className="px-3 pb-0.5 pt-1 text-[9px] font-semibold uppercase tracking-wider text-muted/60">
+                    Run configurations
+                  </p>
+                  {configs.map((config) => {
+                    const missing = !(config.script in scripts);
+                    return (
+                      <div key={config.id} className="group flex items-center gap-1 px-2 py-1 hover:bg-white/5">
+                        <button
+                          onClick={() => handleRunConfig(config)}
+                          disabled={missing}
+                          className="flex min-w-0 flex-1 items-center gap-2 text-left disabled:opacity-50"
+                          title={missing ? `package.json has no "${config.script}" script` : "Run"}
+                        >
+                          <Play className="h-3 w-3 shrink-0 text-emerald-400" />
+                          <span className="min-w-0 flex-1">
+                            <span className="block truncate text-[11px] text-foreground/80">{config.name}</span>
+                            <span className="block truncate font-mono text-[9px] text-muted/50">
+                              {missing ? `missing script "${config.script}"` : describeConfig(config)}
+                            </span>
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => {
+                            setDraft({ ...config });
+                            setError(null);
+                          }}
+                          className="rounded p-1 text-muted/40 opacity-0 transition-all hover:bg-white/5 hover:text-foreground group-hover:opacity-100"
+                          title="Edit configuration"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => persist(configs.filter((c) => c.id !== config.id))}
+                          className="rounded p-1 text-muted/40 opacity-0 transition-all hover:bg-red-500/10 hover:text-red-400 group-hover:opacity-100"
+                          title="Delete configuration"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <div className="my-1 border-t border-border/50" />
+                </>
+              )}
+
+              {/* ── Every package.json script ── */}
+              <p className="px-3 pb-0.5 pt-1 text-[9px] font-semibold uppercase tracking-wider text-muted/60">
+                package.json scripts
+              </p>
+              {scriptNames.length === 0 ? (
+                <p className="px-3 py-2 text-[11px] text-muted/60">No scripts found.</p>
+              ) : (
+                scriptNames.map((name) => (
+                  <div key={name} className="group flex items-center gap-1 px-2 py-1 hover:bg-white/5">
+                    <button
+                      onClick={() => run({ script: name, args: [], env: {} })}
+                      className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                      title={`npm run ${name}`}
+                    >
+                      <Play className="h-3 w-3 shrink-0 text-muted/60" />
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate font-mono text-[11px] text-foreground/80">{name}</span>
+                        <span className="block truncate font-mono text-[9px] text-muted/50">{scripts[name]}</span>
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setDraft({ id: null, name: "", script: name, args: "", env: "" });
+                        setError(null);
+                      }}
+                      className="rounded p-1 text-muted/40 opacity-0 transition-all hover:bg-white/5 hover:text-foreground group-hover:opacity-100"
+                      title="Run with arguments / environment…"
+                    >
+                      <SlidersHorizontal className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptRunner;
@@ -7,7 +7,10 @@ import {
     createFile as opfsCreateFile,
     type FSNode,
 } from "@/lib/opfs";
-import { usePendingPaths } from "@/lib/pending-change-context";
+import {
+    usePendingPaths,
+    type PendingPathKind,
+} from "@/lib/pending-change-context";
 import {
     ChevronDown,
     ChevronRight,
@@ -24,6 +27,7 @@ import {
 import {
     useCallback,
     useEffect,
+    useMemo,
     useRef,
     useState,
     type KeyboardEvent,
@@ -51,6 +55,53 @@ function fileIcon(name: string) {
   return colourMap[ext ?? ""] ?? "text-muted";
 }
 
+// ─── Pending-review styling ──────────────────────────────────
+
+const PENDING_STYLE: Record<
+  PendingPathKind,
+  { label: string; row: string; badge: string; icon: string }
+> = {
+  modify: {
+    label: "pending",
+    row: "bg-amber-500/5 text-amber-300/90 hover:bg-amber-500/10",
+    badge: "bg-amber-500/20 text-amber-400",
+    icon: "text-amber-400",
+  },
+  delete: {
+    label: "delete",
+    row: "bg-red-500/5 text-red-300/80 line-through hover:bg-red-500/10",
+    badge: "bg-red-500/20 text-red-400",
+    icon: "text-red-400",
+  },
+  "rename-from": {
+    label: "rename",
+    row: "bg-amber-500/5 text-amber-300/70 line-through hover:bg-amber-500/10",
+    badge: "bg-amber-500/20 text-amber-400",
+    icon: "text-amber-400",
+  },
+  "rename-to": {
+    label: "renamed",
+    row: "bg-emerald-500/5 text-emerald-300/90 hover:bg-emerald-500/10",
+    badge: "bg-emerald-500/20 text-emerald-400",
+    icon: "text-emerald-400",
+  },
+  mkdir: {
+    label: "new",
+    row: "bg-emerald-500/5 text-emerald-300/90 hover:bg-emerald-500/10",
+    badge: "bg-emerald-500/20 text-emerald-400",
+    icon: "text-emerald-400",
+  },
+};
+
+/** Collect every path present in the tree (files and directories). */
+function collectPaths(nodes: FSNode[], into = new Set<string>()): Set<string> {
+  for (const node of nodes) {
+    into.add(node.path);
+    if (node.isDirectory) collectPaths(node.children, into);
+  }
+  return into;
+}
+
 // ─── Props ───────────────────────────────────────────────────
 
 interface SidebarProps {
@@ -92,6 +143,18 @@ export default function Sidebar({
   const [loading, setLoading] = useState(true);
   const { pendingPaths } = usePendingPaths();
 
+  // Pending paths that don't exist yet (new files, rename targets, mkdirs)
+  // can't be highlighted in the tree, so they're listed separately.
+  const ghostEntries = useMemo(() => {
+    const existing = collectPaths(tree);
+    return [...pendingPaths.entries()]
+      .filter(
+        ([path, kind]) =>
+          !existing.has(path) && kind !== "delete" && kind !== "rename-from"
+      )
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [tree, pendingPaths]);
+
   // "Inline rename / new" state
   const [showNewEntry, setShowNewEntry] = useState(false);
   const [newEntryParent, setNewEntryParent] = useState<string | null>(null);
@@ -194,12 +257,19 @@ export default function Sidebar({
     const isActive = node.path === activePath;
     const indent = depth * 16;
 
+    const pendingKind = pendingPaths.get(node.path);
+    const pending = pendingKind ? PENDING_STYLE[pendingKind] : null;
+
     if (node.isDirectory) {
       return (
         <div key={node.path}>
           <div
             className={`group flex items-center gap-1.5 cursor-pointer py-[3px] pr-2 text-[13px] hover:bg-white/5 transition-colors ${
-              isActive ? "bg-indigo/10 text-indigo-light" : "text-muted"
+              isActive
+                ? "bg-indigo/10 text-indigo-light"
+                : pending
+                  ? pending.row
+                  : "text-muted"
             }`}
             style={{ paddingLeft: indent + 8 }}
             onClick={() => toggleExpand(node.path)}
@@ -215,6 +285,11 @@ export default function Sidebar({
               <Folder className="h-3.5 w-3.5 shrink-0 text-indigo/70" />
             )}
             <span className="truncate">{node.name}</span>
+            {pending && (
+              <span className={`ml-1 shrink-0 rounded px-1 py-0.5 text-[8px] font-medium no-underline ${pending.badge}`}>
+                {pending.label}
+              </span>
+            )}
 
             {/* Hover actions */}
             <div className="ml-auto hidden items-center gap-0.5 group-hover:flex">
@@ -264,30 +339,29 @@ export default function Sidebar({
     }
 
     // File node
-    const isPending = pendingPaths.has(node.path);
     return (
       <div
         key={node.path}
         className={`group flex items-center gap-1.5 cursor-pointer py-[3px] pr-2 text-[13px] transition-colors ${
           isActive
             ? "bg-indigo/10 text-foreground"
-            : isPending
-              ? "bg-amber-500/5 text-amber-300/90 hover:bg-amber-500/10"
+            : pending
+              ? pending.row
               : "text-muted hover:bg-white/5 hover:text-foreground/80"
         }`}
         style={{ paddingLeft: indent + 8 }}
         onClick={() => onFileSelect(node.path)}
       >
         <span className="w-3.5" /> {/* spacer for chevron alignment */}
-        {isPending ? (
-          <FileClock className="h-3.5 w-3.5 shrink-0 text-amber-400" />
+        {pending ? (
+          <FileClock className={`h-3.5 w-3.5 shrink-0 ${pending.icon}`} />
         ) : (
           <File className={`h-3.5 w-3.5 shrink-0 ${fileIcon(node.name)}`} />
         )}
         <span className="truncate">{node.name}</span>
-        {isPending && (
-          <span className="ml-1 shrink-0 rounded bg-amber-500/20 px-1 py-0.5 text-[8px] font-medium text-amber-400">
-            pending
+        {pending && (
+          <span className={`ml-1 shrink-0 rounded px-1 py-0.5 text-[8px] font-medium no-underline ${pending.badge}`}>
+            {pending.label}
           </span>
         )}
 
@@ -407,6 +481,28 @@ export default function Sidebar({
             {tree.map((node) => renderNode(node, 0))}
             {/* Root-level inline input */}
             {showNewEntry && newEntryParent === null && renderInlineInput(0)}
+            {/* Pending entries that don't exist on disk yet */}
+            {ghostEntries.map(([path, kind]) => {
+              const style = PENDING_STYLE[kind === "modify" ? "mkdir" : kind];
+              return (
+                <div
+                  key={`pending:${path}`}
+                  className={`flex items-center gap-1.5 py-[3px] pl-2 pr-2 text-[13px] italic ${style.row}`}
+                  title={path}
+                >
+                  <span className="w-3.5" />
+                  {kind === "mkdir" ? (
+                    <FolderPlus className={`h-3.5 w-3.5 shrink-0 ${style.icon}`} />
+                  ) : (
+                    <FilePlus className={`h-3.5 w-3.5 shrink-0 ${style.icon}`} />
+                  )}
+                  <span className="truncate font-mono text-[11px]">{path}</span>
+                  <span className={`ml-1 shrink-0 rounded px-1 py-0.5 text-[8px] font-medium not-italic ${style.badge}`}>
+                    {style.label}
+                  </span>
+                </div>
+              );
+            })}
           </>
         )}
       </div>
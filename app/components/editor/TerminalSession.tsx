@@ -0,0 +1,563 @@
+"use client";
+
+/**
+ * TerminalSession — one xterm.js surface bound to its own `jsh` process.
+ *
+ * WebTerminal renders one of these per tab. A session stays mounted
+ * while hidden so its process keeps running and its scrollback
+ * survives tab switches; only `visible` changes, which re-fits the
+ * surface to its (possibly new) pane size.
+ *
+ * Each session scans its own output for errors (terminal-errors.ts)
+ * and turns project `path:line:col` locations into clickable links.
+ * Commands submitted at the jsh prompt are reported for the project's
+ * persisted history, which Ctrl+R searches.
+ */
+
+import {
+    detectTerminalError,
+    findFileLinks,
+    type TerminalError,
+} from "@/lib/terminal-errors";
+import { processManager } from "@/lib/process-manager";
+import { searchHistory } from "@/lib/terminal-history";
+import { spawnWithEnv } from "@/lib/useWebContainer";
+import type { WebContainer, WebContainerProcess } from "@webcontainer/api";
+import { FitAddon } from "@xterm/addon-fit";
+import { Terminal, type IDisposable } from "@xterm/xterm";
+import "@xterm/xterm/css/xterm.css";
+import {
+    forwardRef,
+    useCallback,
+    useEffect,
+    useImperativeHandle,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
+
+// ─── Props & Handle ─────────────────────────────────────────
+
+interface TerminalSessionProps {
+  /** The booted WebContainer instance. */
+  instance: WebContainer;
+  /** Tab name — also how the shell is listed in the Processes panel. */
+  name: string;
+  /** Whether this session's pane is on screen — the container hides it otherwise. */
+  visible: boolean;
+  /** Called after output settles with the latest error (or null). */
+  onErrorChange: (error: TerminalError | null) => void;
+  /** Project file paths — file links are only offered for these. */
+  listProjectFiles?: () => Promise<string[]>;
+  /** Open a file at a 1-based line / column (from a clicked link). */
+  onOpenFile?: (path: string, line: number | null, column: number | null) => void;
+  /** Called when the surface gains focus. */
+  onFocus?: () => void;
+  /** Output from a previous visit, written dimmed before the shell starts. */
+  restoredOutput?: string;
+  /** Called with each command submitted at the jsh prompt. */
+  onCommand?: (command: string) => void;
+  /** Commands for Ctrl+R, oldest first. */
+  getHistory?: () => string[];
+}
+
+export interface TerminalSessionHandle {
+  /** The xterm Terminal (null before mount). */
+  terminal: Terminal | null;
+  /** The jsh process (null before spawn / after kill). */
+  shellProcess: WebContainerProcess | null;
+  /**
+   * Kill jsh, clear the surface and spawn a fresh shell, writing
+   * `restoredOutput` (if any) before the new prompt.
+   */
+  reset: (restoredOutput?: string) => Promise<void>;
+  /** Kill jsh without respawning. */
+  kill: () => void;
+  /** The last `maxLines` lines of output (scrollback included) as plain text. */
+  getRecentOutput: (maxLines: number) => string;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Scrollback lines scanned for errors after each write. */
+const ERROR_SCAN_LINES = 150;
+
+/** Quiet period after output before scanning (ms). */
+const ERROR_SCAN_DELAY = 300;
+
+/** How long the project file list is reused for link detection (ms). */
+const FILE_LIST_TTL = 5000;
+
+/** The jsh prompt marker — a command is whatever follows it. */
+const PROMPT_MARKER = "❯";
+
+/** jsh line editing: Ctrl+E (end of line), then Ctrl+U (kill to start). */
+const CLEAR_LINE = "\x05\x15";
+
+const THEME = {
+  background: "#0B0E14",
+  foreground: "#d4d4d8",
+  cursor: "#818cf8",
+  selectionBackground: "#6366f133",
+  black: "#0B0E14",
+  red: "#f87171",
+  green: "#34d399",
+  yellow: "#fbbf24",
+  blue: "#60a5fa",
+  magenta: "#c084fc",
+  cyan: "#22d3ee",
+  white: "#d4d4d8",
+  brightBlack: "#52525b",
+  brightRed: "#fca5a5",
+  brightGreen: "#6ee7b7",
+  brightYellow: "#fde68a",
+  brightBlue: "#93c5fd",
+  brightMagenta: "#d8b4fe",
+  brightCyan: "#67e8f9",
+  brightWhite: "#fafafa",
+};
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** The last `maxLines` logical lines of the terminal buffer as plain text. */
+function readRecentOutput(terminal: Terminal, maxLines: number): string {
+  const buffer = terminal.buffer.active;
+  const lines: string[] = [];
+  for (let i = Math.max(0, buffer.length - maxLines); i < buffer.length; i++) {
+    const line = buffer.getLine(i);
+    if (!line) continue;
+    // Wrapped rows continue the previous line
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += line.translateToString(true);
+    } else {
+      lines.push(line.translateToString(true));
+    }
+  }
+  return lines.join("\n").trim();
+}
+
+/** The command on the cursor's line, or null when it is not a jsh prompt. */
+function readPromptCommand(terminal: Terminal): string | null {
+  const buffer = terminal.buffer.active;
+  let row = buffer.baseY + buffer.cursorY;
+  // Join wrapped rows back into one logical line
+  while (row > 0 && buffer.getLine(row)?.isWrapped) row--;
+  let text = "";
+  for (let i = row; i <= buffer.baseY + buffer.cursorY; i++) {
+    text += buffer.getLine(i)?.translateToString(true) ?? "";
+  }
+  const marker = text.lastIndexOf(PROMPT_MARKER);
+  if (marker === -1) return null;
+  return text.slice(marker + PROMPT_MARKER.length).trim() || null;
+}
+
+/** Buffer cell a character of a logical line sits in. */
+interface CellPosition {
+  /** 0-based buffer row */
+  row: number;
+  /** 0-based column */
+  col: number;
+  /** Columns the character covers (2 for wide characters) */
+  width: number;
+}
+
+/**
+ * The logical line (wrapped rows joined) containing buffer row `row`,
+ * with the cell of every UTF-16 offset in its text — string indices are
+ * not columns once a line wraps or holds wide characters.
+ */
+function readLogicalLine(
+  terminal: Terminal,
+  row: number
+): { text: string; cells: CellPosition[] } {
+  const buffer = terminal.buffer.active;
+  let start = row;
+  while (start > 0 && buffer.getLine(start)?.isWrapped) start--;
+
+  const cell = buffer.getNullCell();
+  let text = "";
+  const cells: CellPosition[] = [];
+  for (let r = start; r < buffer.length; r++) {
+    const line = buffer.getLine(r);
+    if (!line || (r > start && !line.isWrapped)) break;
+    for (let col = 0; col < line.length; col++) {
+      if (!line.getCell(col, cell)) break;
+      const width = cell.getWidth();
+      if (width === 0) continue; // Second half of a wide character
+      const chars = cell.getChars() || " ";
+      text += chars;
+      for (let i = 0; i < chars.length; i++) cells.push({ row: r, col, width });
+    }
+  }
+  // Trailing blank cells aren't part of the text
+  const trimmed = text.trimEnd();
+  return { text: trimmed, cells: cells.slice(0, trimmed.length) };
+}
+
+/** Write saved output dimmed, followed by a divider. */
+function writeRestoredOutput(terminal: Terminal, output: string): void {
+  if (!output) return;
+  terminal.write(`\x1b[2m${output.replace(/\n/g, "\r\n")}\x1b[0m\r\n`);
+  terminal.writeln("\x1b[2m── restored from your last session ──\x1b[0m");
+}
+
+// ─── History Search ─────────────────────────────────────────
+
+interface HistorySearchProps {
+  commands: string[];
+  /** Put `command` on the prompt; `run` also submits it. */
+  onPick: (command: string, run: boolean) => void;
+  onClose: () => void;
+}
+
+/** Ctrl+R reverse search over the project's command history. */
+function HistorySearch({ commands, onPick, onClose }: HistorySearchProps) {
+  const [query, setQuery] = useState("");
+  const [index, setIndex] = useState(0);
+  const matches = useMemo(() => searchHistory(commands, query), [commands, query]);
+  const match = matches[Math.min(index, matches.length - 1)] ?? null;
+
+  return (
+    <div className="absolute inset-x-2 bottom-2 z-10 flex items-center gap-2 rounded border border-indigo/40 bg-surface px-2 py-1 font-mono text-[11px] shadow-lg">
+      <span className="shrink-0 text-muted">(reverse-i-search)</span>
+      <input
+        autoFocus
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIndex(0);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape" || (e.ctrlKey && e.key === "c")) {
+            e.preventDefault();
+            onClose();
+          } else if ((e.ctrlKey && e.key === "r") || e.key === "ArrowUp") {
+            e.preventDefault();
+            setIndex((i) => Math.min(i + 1, Math.max(matches.length - 1, 0)));
+          } else if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setIndex((i) => Math.max(i - 1, 0));
+          } else if (e.key === "Enter" || e.key === "Tab" || e.key === "ArrowRight") {
+            e.preventDefault();
+            if (match) onPick(match, e.key === "Enter");
+            else onClose();
+          }
+        }}
+        onBlur={onClose}
+        className="w-32 shrink-0 bg-transparent text-foreground outline-none"
+        spellCheck={false}
+      />
+      <span className="min-w-0 flex-1 truncate text-foreground/80">
+        {match ?? (commands.length === 0 ? "no history yet" : "no match")}
+      </span>
+      {matches.length > 1 && (
+        <span className="shrink-0 text-muted/60">
+          {Math.min(index, matches.length - 1) + 1}/{matches.length}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+const TerminalSession = forwardRef<TerminalSessionHandle, TerminalSessionProps>(
+  (
+    {
+      instance,
+      name,
+      visible,
+      onErrorChange,
+      listProjectFiles,
+      onOpenFile,
+      onFocus,
+      restoredOutput,
+      onCommand,
+      getHistory,
+    },
+    ref
+  ) => {
+  const termRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<Terminal | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  const processRef = useRef<WebContainerProcess | null>(null);
+  const processIdRef = useRef<string | null>(null);
+  const writerRef = useRef<WritableStreamDefaultWriter<string> | null>(null);
+  const inputRef = useRef<IDisposable | null>(null);
+
+  // Latest callbacks in refs so the xterm listeners are registered once
+  const callbacksRef = useRef({
+    onErrorChange, listProjectFiles, onOpenFile, onFocus, onCommand, getHistory,
+  });
+  useEffect(() => {
+    callbacksRef.current = {
+      onErrorChange, listProjectFiles, onOpenFile, onFocus, onCommand, getHistory,
+    };
+  }, [onErrorChange, listProjectFiles, onOpenFile, onFocus, onCommand, getHistory]);
+  const fileCacheRef = useRef<{ at: number; files: Promise<string[]> } | null>(null);
+
+  // Only read on the first spawn; later restores go through reset()
+  const restoredRef = useRef(restoredOutput);
+
+  // Keep the Processes panel entry named after the tab
+  const nameRef = useRef(name);
+  useEffect(() => {
+    nameRef.current = name;
+    if (processIdRef.current) processManager.rename(processIdRef.current, name);
+  }, [name]);
+
+  // Ctrl+R search — a snapshot of the history while open
+  const [searchCommands, setSearchCommands] = useState<string[] | null>(null);
+
+  // ── Kill the shell and detach its I/O ──
+  const killShell = useCallback(() => {
+    inputRef.current?.dispose();
+    inputRef.current = null;
+    if (writerRef.current) {
+      try { writerRef.current.close(); } catch { /* already closed */ }
+      writerRef.current = null;
+    }
+    if (processIdRef.current) {
+      processManager.kill(processIdRef.current);
+      processIdRef.current = null;
+    }
+    processRef.current = null;
+  }, []);
+
+  // ── Spawn the shell and wire up I/O ──
+  const spawnShell = useCallback(
+    async (terminal: Terminal) => {
+      const process = await spawnWithEnv(instance, "jsh", [], {
+        terminal: {
+          cols: terminal.cols,
+          rows: terminal.rows,
+        },
+      });
+
+      processRef.current = process;
+      const { id, output } = processManager.track(process, {
+        name: nameRef.current,
+        kind: "shell",
+        command: "jsh",
+        // The manager has already killed the old process
+        restart: async () => {
+          if (processIdRef.current !== id) return;
+          killShell();
+          terminal.writeln("\r\n\x1b[2m── shell restarted ──\x1b[0m");
+          await spawnShell(terminal);
+        },
+      });
+      processIdRef.current = id;
+
+      // stdout → xterm
+      output.pipeTo(
+        new WritableStream({
+          write(data) {
+            terminal.write(data);
+          },
+        })
+      ).catch(() => { /* stream closed */ });
+
+      // xterm → stdin
+      const writer = process.input.getWriter();
+      writerRef.current = writer;
+      inputRef.current = terminal.onData((data) => {
+        writer.write(data);
+      });
+
+      return process;
+    },
+    [instance, killShell]
+  );
+
+  useImperativeHandle(ref, () => ({
+    get terminal() {
+      return xtermRef.current;
+    },
+    get shellProcess() {
+      return processRef.current;
+    },
+    async reset(restoredOutput?: string) {
+      killShell();
+      const term = xtermRef.current;
+      if (!term) return;
+      term.clear();
+      term.write("\x1bc"); // full reset escape sequence
+      if (restoredOutput) writeRestoredOutput(term, restoredOutput);
+      callbacksRef.current.onErrorChange(null);
+      await spawnShell(term);
+    },
+    kill: killShell,
+    getRecentOutput(maxLines: number) {
+      return xtermRef.current ? readRecentOutput(xtermRef.current, maxLines) : "";
+    },
+  }));
+
+  // ── Fit the surface and sync the process size ──
+  const fit = useCallback(() => {
+    const terminal = xtermRef.current;
+    if (!terminal || !fitRef.current) return;
+    fitRef.current.fit();
+    processRef.current?.resize({ cols: terminal.cols, rows: terminal.rows });
+  }, []);
+
+  // ── Ctrl+R: put a history entry on the prompt ──
+  const closeSearch = useCallback(() => {
+    setSearchCommands(null);
+    xtermRef.current?.focus();
+  }, []);
+
+  const handlePickCommand = useCallback(
+    (command: string, run: boolean) => {
+      writerRef.current?.write(CLEAR_LINE + command + (run ? "\r" : ""));
+      // Submitted here, not through xterm, so the prompt listener won't see it
+      if (run) callbacksRef.current.onCommand?.(command);
+      closeSearch();
+    },
+    [closeSearch]
+  );
+
+  // ── Initialize terminal + shell once ──
+  useEffect(() => {
+    if (!termRef.current) return;
+
+    const terminal = new Terminal({
+      cursorBlink: true,
+      cursorStyle: "bar",
+      fontSize: 13,
+      lineHeight: 1.4,
+      fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+      theme: THEME,
+      allowProposedApi: true,
+    });
+
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    terminal.open(termRef.current);
+    xtermRef.current = terminal;
+    fitRef.current = fitAddon;
+
+    // Fit immediately + after a brief delay (element may still be sizing)
+    fitAddon.fit();
+    const fitTimer = setTimeout(() => fitAddon.fit(), 100);
+
+    writeRestoredOutput(terminal, restoredRef.current ?? "");
+
+    let disposed = false;
+    spawnShell(terminal).then(() => {
+      // Unmounted while jsh was starting
+      if (disposed) killShell();
+    });
+
+    // Track focus so the container knows which pane is active
+    const handleFocusIn = () => callbacksRef.current.onFocus?.();
+    const surface = termRef.current;
+    surface.addEventListener("focusin", handleFocusIn);
+
+    // Ctrl+R opens history search instead of reaching jsh (or reloading the page)
+    terminal.attachCustomKeyEventHandler((e) => {
+      const getHistory = callbacksRef.current.getHistory;
+      if (!getHistory || !e.ctrlKey || e.altKey || e.key !== "r") return true;
+      e.preventDefault();
+      if (e.type === "keydown") setSearchCommands(getHistory());
+      return false;
+    });
+
+    // Record commands as they are submitted at the prompt
+    const commandListener = terminal.onData((data) => {
+      if (!data.includes("\r")) return;
+      const command = readPromptCommand(terminal);
+      if (command) callbacksRef.current.onCommand?.(command);
+    });
+
+    // Clickable `path:line:col` links for project files
+    const linkProvider = terminal.registerLinkProvider({
+      provideLinks(y, callback) {
+        const list = callbacksRef.current.listProjectFiles;
+        const { text, cells } = readLogicalLine(terminal, y - 1);
+        if (!list || !text || !/\.\w+/.test(text)) {
+          callback(undefined);
+          return;
+        }
+        const cache = fileCacheRef.current;
+        if (!cache || Date.now() - cache.at > FILE_LIST_TTL) {
+          fileCacheRef.current = { at: Date.now(), files: list().catch(() => []) };
+        }
+        fileCacheRef.current!.files.then((files) => {
+          // A link may span wrapped rows; report the ones that touch row `y`
+          const links = findFileLinks(text, files)
+            .map((link) => {
+              const first = cells[link.start];
+              const last = cells[link.end - 1];
+              return {
+                range: {
+                  start: { x: first.col + 1, y: first.row + 1 },
+                  end: { x: last.col + last.width, y: last.row + 1 },
+                },
+                text: text.slice(link.start, link.end),
+                decorations: { underline: true, pointerCursor: true },
+                activate: () =>
+                  callbacksRef.current.onOpenFile?.(link.path, link.line, link.column),
+              };
+            })
+            .filter((link) => link.range.start.y <= y && y <= link.range.end.y);
+          callback(links.length === 0 ? undefined : links);
+        });
+      },
+    });
+
+    // Re-scan for errors once output settles
+    let scanTimer: ReturnType<typeof setTimeout> | undefined;
+    const writeListener = terminal.onWriteParsed(() => {
+      clearTimeout(scanTimer);
+      scanTimer = setTimeout(() => {
+        callbacksRef.current.onErrorChange(
+          detectTerminalError(readRecentOutput(terminal, ERROR_SCAN_LINES))
+        );
+      }, ERROR_SCAN_DELAY);
+    });
+
+    // ResizeObserver for panel resize, split changes and window resizes
+    const observer = new ResizeObserver(() => fit());
+    observer.observe(surface);
+
+    return () => {
+      disposed = true;
+      clearTimeout(fitTimer);
+      clearTimeout(scanTimer);
+      observer.disconnect();
+      surface.removeEventListener("focusin", handleFocusIn);
+      writeListener.dispose();
+      commandListener.dispose();
+      linkProvider.dispose();
+      killShell();
+      terminal.dispose();
+      xtermRef.current = null;
+      fitRef.current = null;
+    };
+  }, [spawnShell, killShell, fit]);
+
+  // ── Re-fit when the pane is shown ──
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setTimeout(fit, 0);
+    return () => clearTimeout(timer);
+  }, [visible, fit]);
+
+  return (
+    <div className="relative flex min-w-0 flex-1">
+      <div ref={termRef} className="min-w-0 flex-1 overflow-hidden px-1 py-1" />
+      {searchCommands && (
+        <HistorySearch
+          commands={searchCommands}
+          onPick={handlePickCommand}
+          onClose={closeSearch}
+        />
+      )}
+    </div>
+  );
+});
+
+TerminalSession.displayName = "TerminalSession";
+
+export default TerminalSession;
@@ -1,29 +1,51 @@
 "use client";
 
 /**
- * WebTerminal — xterm.js terminal connected to a WebContainer shell.
+ * WebTerminal — tabbed xterm.js terminals connected to WebContainer shells.
  *
- * Spawns `jsh` (the WebContainer shell) and pipes stdin/stdout
- * through an Xterm.js instance. Handles window resizing via the
- * FitAddon so the terminal dimensions stay in sync.
+ * Holds any number of named sessions (TerminalSession), each with its
+ * own `jsh` process and scrollback — e.g. a dev server, a test watcher
+ * and an ad-hoc shell side by side. Sessions are shown one at a time
+ * or two in a horizontal split; hidden sessions stay mounted so their
+ * processes keep running.
  *
- * Exposes the underlying xterm Terminal via a forwarded ref so
+ * Exposes the focused session's xterm Terminal via a forwarded ref so
  * parent components can pipe external process output (e.g. npm
- * install) into the same terminal surface.
+ * install) into the terminal the user is looking at.
+ *
+ * Commands typed in any session, and the focused session's recent
+ * output, are saved per project (terminal-history.ts) and restored the
+ * next time the project's terminal starts; Ctrl+R searches the saved
+ * commands.
+ *
+ * Each session watches its output for error signatures
+ * (terminal-errors.ts); the header offers "Fix with AI" for the most
+ * recent one in a visible pane. `path:line:col` locations that name
+ * project files are clickable and open the file in the editor.
  *
  * Usage:
  *   const termRef = useRef<WebTerminalHandle>(null);
- *   <WebTerminal ref={termRef} instance={webcontainer} />
+ *   <WebTerminal ref={termRef} instance={webcontainer} userHash={h} projectId={id} />
  *   // later: termRef.current?.terminal?.writeln("hello");
  */
 
+import type { TerminalError } from "@/lib/terminal-errors";
+import {
+    emptyHistory,
+    loadTerminalHistory,
+    pushCommand,
+    saveTerminalHistory,
+    SCROLLBACK_LINES,
+    type TerminalHistory,
+} from "@/lib/terminal-history";
 import type { WebContainer, WebContainerProcess } from "@webcontainer/api";
-import { FitAddon } from "@xterm/addon-fit";
-import { Terminal } from "@xterm/xterm";
-import "@xterm/xterm/css/xterm.css";
+import type { Terminal } from "@xterm/xterm";
 import {
     ChevronDown,
     ChevronUp,
+    Columns2,
+    Plus,
+    Sparkles,
     TerminalSquare,
     X,
 } from "lucide-react";
@@ -35,264 +57,447 @@ import {
     useRef,
     useState,
 } from "react";
+import TerminalSession, { type TerminalSessionHandle } from "./TerminalSession";
 
 // ─── Props & Handle ─────────────────────────────────────────
 
 interface WebTerminalProps {
   /** The booted WebContainer instance. */
   instance: WebContainer;
+  /** User hash for OPFS access (history is not persisted when empty) */
+  userHash: string;
+  /** Current project ID */
+  projectId: string;
+  /** Encryption key for OPFS */
+  encryptionKey?: CryptoKey;
+  /** Called from the "Fix with AI" button with the detected error. */
+  onFixWithAI?: (error: TerminalError) => void;
+  /** Project file paths — file links are only offered for these. */
+  listProjectFiles?: () => Promise<string[]>;
+  /** Open a file at a 1-based line / column (from a clicked link). */
+  onOpenFile?: (path: string, line: number | null, column: number | null) => void;
 }
 
 /** Imperative handle exposed via ref. */
 export interface WebTerminalHandle {
-  /** The underlying xterm Terminal (null before mount). */
+  /** The focused session's xterm Terminal (null before mount). */
   terminal: Terminal | null;
-  /** The active jsh process (null before spawn). */
+  /** The focused session's jsh process (null before spawn). */
   shellProcess: WebContainerProcess | null;
+  /** Every session's jsh process — for teardown. */
+  shellProcesses: WebContainerProcess[];
   /**
-   * Kill the current jsh shell, clear the terminal display,
-   * and spawn a brand-new jsh session. Call this after
-   * `switchProject()` to give the user a clean shell pointing
-   * at the freshly-mounted file system.
+   * Close every session but the focused one, then kill its jsh shell,
+   * clear the display and spawn a brand-new shell. Call this after
+   * `switchProject()` to give the user a clean shell pointing at the
+   * freshly-mounted file system. The current project's saved output is
+   * restored above the new prompt.
    */
   resetShell: () => Promise<void>;
+  /** Save command history and scrollback now (e.g. before navigating away). */
+  flushHistory: () => Promise<void>;
+  /** The last `maxLines` lines of the focused session's output as plain text. */
+  getRecentOutput: (maxLines: number) => string;
+}
+
+interface SessionInfo {
+  id: string;
+  name: string;
 }
 
+// ─── Constants ──────────────────────────────────────────────
+
+/** The session shown on mount — the one that gets restored output. */
+const FIRST_SESSION_ID = "1";
+
+/** Quiet period after a command before history is saved (ms). */
+const HISTORY_SAVE_DELAY = 1000;
+
 // ─── Component ──────────────────────────────────────────────
 
 const WebTerminal = forwardRef<WebTerminalHandle, WebTerminalProps>(
-  ({ instance }, ref) => {
-  const termRef = useRef<HTMLDivElement>(null);
-  const xtermRef = useRef<Terminal | null>(null);
-  const fitRef = useRef<FitAddon | null>(null);
-  const processRef = useRef<WebContainerProcess | null>(null);
-  const writerRef = useRef<WritableStreamDefaultWriter<string> | null>(null);
-
+  (
+    { instance, userHash, projectId, encryptionKey, onFixWithAI, listProjectFiles, onOpenFile },
+    ref
+  ) => {
   const [isOpen, setIsOpen] = useState(true);
   const [isMinimized, setIsMinimized] = useState(false);
 
-  // Expose the xterm Terminal + shell control to parent via ref
+  // ── Sessions: tabs in creation order; `panes` are the ones on screen ──
+  const nextIdRef = useRef(2);
+  const [sessions, setSessions] = useState<SessionInfo[]>([
+    { id: FIRST_SESSION_ID, name: `Terminal ${FIRST_SESSION_ID}` },
+  ]);
+  const [panes, setPanes] = useState<string[]>([FIRST_SESSION_ID]);
+  const [activeId, setActiveId] = useState(FIRST_SESSION_ID);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const handlesRef = useRef(new Map<string, TerminalSessionHandle>());
+  const activeIdRef = useRef(activeId);
+  useEffect(() => { activeIdRef.current = activeId; }, [activeId]);
+
+  // ── Error detection — latest error per session, unless dismissed ──
+  const [errors, setErrors] = useState<Record<string, TerminalError | null>>({});
+  const dismissedRef = useRef(new Set<string>());
+
+  const activeHandle = () => handlesRef.current.get(activeIdRef.current) ?? null;
+
+  // ── Persisted history — sessions wait for the first load so the
+  //    restored output lands above the first prompt ──
+  const [restoredOutput, setRestoredOutput] = useState<string | null>(null);
+  const historyRef = useRef<TerminalHistory>(emptyHistory());
+  const historyLoadRef = useRef<Promise<TerminalHistory>>(Promise.resolve(emptyHistory()));
+  const saveHistoryRef = useRef<() => Promise<void>>(async () => {});
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded = false;
+
+    const load = userHash
+      ? loadTerminalHistory(userHash, projectId, encryptionKey).catch(() => emptyHistory())
+      : Promise.resolve(emptyHistory());
+    historyLoadRef.current = load;
+    load.then((history) => {
+      if (cancelled) return;
+      loaded = true;
+      historyRef.current = history;
+      setRestoredOutput((prev) => prev ?? history.scrollback);
+    });
+
+    // Saves go to the project this effect loaded, even after a switch
+    const save = async () => {
+      if (!loaded || !userHash) return;
+      const focused = handlesRef.current.get(activeIdRef.current);
+      const output = focused?.getRecentOutput(SCROLLBACK_LINES);
+      const history: TerminalHistory = {
+        ...historyRef.current,
+        scrollback: output || historyRef.current.scrollback,
+        updatedAt: Date.now(),
+      };
+      historyRef.current = history;
+      try {
+        await saveTerminalHistory(userHash, projectId, history, encryptionKey);
+      } catch (err) {
+        console.warn("[WebTerminal] Failed to save terminal history:", err);
+      }
+    };
+    saveHistoryRef.current = save;
+
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(saveTimerRef.current);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      save();
+    };
+  }, [userHash, projectId, encryptionKey]);
+
+  const handleCommand = useCallback((command: string) => {
+    historyRef.current = {
+      ...historyRef.current,
+      commands: pushCommand(historyRef.current.commands, command),
+    };
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => saveHistoryRef.current(), HISTORY_SAVE_DELAY);
+  }, []);
+
+  const getHistory = useCallback(() => historyRef.current.commands, []);
+
+  // Expose the focused session + teardown to the parent via ref
   useImperativeHandle(ref, () => ({
     get terminal() {
-      return xtermRef.current;
+      return activeHandle()?.terminal ?? null;
     },
     get shellProcess() {
-      return processRef.current;
+      return activeHandle()?.shellProcess ?? null;
+    },
+    get shellProcesses() {
+      return [...handlesRef.current.values()].flatMap((h) =>
+        h.shellProcess ? [h.shellProcess] : []
+      );
     },
     async resetShell() {
-      // 1. Kill the old shell process
-      if (writerRef.current) {
-        try { writerRef.current.close(); } catch { /* already closed */ }
-        writerRef.current = null;
-      }
-      if (processRef.current) {
-        try { processRef.current.kill(); } catch { /* already exited */ }
-        processRef.current = null;
-      }
-
-      // 2. Clear the terminal display (scrollback + viewport)
-      const term = xtermRef.current;
-      if (term) {
-        term.clear();
-        term.write("\x1bc"); // full reset escape sequence
-      }
-
-      // 3. Spawn a fresh jsh shell
-      if (term) {
-        await spawnShell(term);
+      const keep = activeIdRef.current;
+      // Unmounting the other sessions kills their shells
+      for (const [id, handle] of handlesRef.current) {
+        if (id !== keep) handle.kill();
       }
+      setSessions((prev) => prev.filter((s) => s.id === keep));
+      setPanes([keep]);
+      setErrors({});
+      const history = await historyLoadRef.current;
+      await handlesRef.current.get(keep)?.reset(history.scrollback);
+    },
+    flushHistory() {
+      clearTimeout(saveTimerRef.current);
+      return saveHistoryRef.current();
+    },
+    getRecentOutput(maxLines: number) {
+      return activeHandle()?.getRecentOutput(maxLines) ?? "";
     },
   }));
 
-  // ── Spawn the shell and wire up I/O ──
-  const spawnShell = useCallback(
-    async (terminal: Terminal) => {
-      const process = await instance.spawn("jsh", {
-        terminal: {
-          cols: terminal.cols,
-          rows: terminal.rows,
-        },
-      });
-
-      processRef.current = process;
+  // ── Session actions ──
+  const createSession = useCallback((): string => {
+    const id = String(nextIdRef.current++);
+    setSessions((prev) => [...prev, { id, name: `Terminal ${id}` }]);
+    return id;
+  }, []);
 
-      // stdout → xterm
-      process.output.pipeTo(
-        new WritableStream({
-          write(data) {
-            terminal.write(data);
-          },
-        })
-      );
+  const handleNewSession = useCallback(() => {
+    const id = createSession();
+    // Replace the focused pane with the new session
+    setPanes((prev) => prev.map((p) => (p === activeIdRef.current ? id : p)));
+    setActiveId(id);
+  }, [createSession]);
 
-      // xterm → stdin
-      const writer = process.input.getWriter();
-      writerRef.current = writer;
+  const handleSelectSession = useCallback((id: string) => {
+    setPanes((prev) =>
+      prev.includes(id) ? prev : prev.map((p) => (p === activeIdRef.current ? id : p))
+    );
+    setActiveId(id);
+  }, []);
 
-      terminal.onData((data) => {
-        writer.write(data);
+  const handleToggleSplit = useCallback(() => {
+    if (panes.length > 1) {
+      setPanes([activeId]);
+      return;
+    }
+    // Show a hidden session next to the focused one, or start a new one
+    const other = sessions.find((s) => s.id !== activeId)?.id ?? createSession();
+    setPanes([activeId, other]);
+    setActiveId(other);
+  }, [panes, sessions, activeId, createSession]);
+
+  const handleCloseSession = useCallback(
+    (id: string) => {
+      const remaining = sessions.filter((s) => s.id !== id);
+      if (remaining.length === 0) return;
+      setSessions(remaining);
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
       });
-
-      return process;
+      const nextPanes = panes.filter((p) => p !== id);
+      const shown = nextPanes.length > 0 ? nextPanes : [remaining[remaining.length - 1].id];
+      setPanes(shown);
+      if (id === activeId) setActiveId(shown[shown.length - 1]);
     },
-    [instance]
+    [sessions, panes, activeId]
   );
 
-  // ── Initialize terminal ──
-  useEffect(() => {
-    if (!termRef.current || !isOpen || isMinimized) return;
-
-    // Prevent double-init on HMR
-    if (xtermRef.current) return;
-
-    const terminal = new Terminal({
-      cursorBlink: true,
-      cursorStyle: "bar",
-      fontSize: 13,
-      lineHeight: 1.4,
-      fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
-      theme: {
-        background: "#0B0E14",
-        foreground: "#d4d4d8",
-        cursor: "#818cf8",
-        selectionBackground: "#6366f133",
-        black: "#0B0E14",
-        red: "#f87171",
-        green: "#34d399",
-        yellow: "#fbbf24",
-        blue: "#60a5fa",
-        magenta: "#c084fc",
-        cyan: "#22d3ee",
-        white: "#d4d4d8",
-        brightBlack: "#52525b",
-        brightRed: "#fca5a5",
-        brightGreen: "#6ee7b7",
-        brightYellow: "#fde68a",
-        brightBlue: "#93c5fd",
-        brightMagenta: "#d8b4fe",
-        brightCyan: "#67e8f9",
-        brightWhite: "#fafafa",
-      },
-      allowProposedApi: true,
-    });
-
-    const fitAddon = new FitAddon();
-    terminal.loadAddon(fitAddon);
-    terminal.open(termRef.current);
-
-    // Fit immediately + after a brief delay (element may still be sizing)
-    fitAddon.fit();
-    const fitTimer = setTimeout(() => fitAddon.fit(), 100);
-
-    xtermRef.current = terminal;
-    fitRef.current = fitAddon;
-
-    // Spawn the shell
-    spawnShell(terminal);
-
-    // Resize handler
-    const handleResize = () => {
-      fitAddon.fit();
-      // Sync dimensions with the WebContainer process
-      if (processRef.current) {
-        processRef.current.resize({
-          cols: terminal.cols,
-          rows: terminal.rows,
-        });
-      }
-    };
+  const handleRenameSession = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      setSessions((prev) => prev.map((s) => (s.id === id ? { ...s, name: trimmed } : s)));
+    }
+    setRenamingId(null);
+  }, []);
 
-    window.addEventListener("resize", handleResize);
+  const handleErrorChange = useCallback((id: string, error: TerminalError | null) => {
+    setErrors((prev) => ({
+      ...prev,
+      [id]: error && !dismissedRef.current.has(error.signature) ? error : null,
+    }));
+  }, []);
 
-    // ResizeObserver for panel resize (not just window)
-    const observer = new ResizeObserver(() => {
-      fitAddon.fit();
-      if (processRef.current) {
-        processRef.current.resize({
-          cols: terminal.cols,
-          rows: terminal.rows,
-        });
-      }
-    });
-    if (termRef.current) observer.observe(termRef.current);
+  // Focused pane first, then the other visible one
+  const detectedError =
+    [activeId, ...panes.filter((p) => p !== activeId)]
+      .map((id) => errors[id])
+      .find((e): e is TerminalError => !!e) ?? null;
 
-    return () => {
-      clearTimeout(fitTimer);
-      window.removeEventListener("resize", handleResize);
-      observer.disconnect();
-      terminal.dispose();
-      xtermRef.current = null;
-      fitRef.current = null;
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, isMinimized, spawnShell]);
+  const isVisible = isOpen && !isMinimized;
 
-  // ── Cleanup on unmount ──
-  useEffect(() => {
-    return () => {
-      writerRef.current?.close().catch(() => {});
-      processRef.current?.kill();
-    };
-  }, []);
+  return (
+    <>
+      {/* ── Closed state ── just show a toggle button (sessions stay alive) */}
+      {!isOpen && (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-4 right-4 z-50 flex items-center gap-1.5 rounded-lg bg-surface border border-border px-3 py-2 text-xs text-muted shadow-lg transition-colors hover:text-foreground hover:border-indigo/40"
+          title="Open terminal"
+        >
+          <TerminalSquare className="h-3.5 w-3.5" />
+          Terminal
+        </button>
+      )}
 
-  // ── Closed state ── just show a toggle button
-  if (!isOpen) {
-    return (
-      <button
-        onClick={() => setIsOpen(true)}
-        className="fixed bottom-4 right-4 z-50 flex items-center gap-1.5 rounded-lg bg-surface border border-border px-3 py-2 text-xs text-muted shadow-lg transition-colors hover:text-foreground hover:border-indigo/40"
-        title="Open terminal"
+      <div
+        className={`flex flex-col border-t border-border bg-[#0B0E14] transition-all ${
+          isOpen ? (isMinimized ? "h-8" : "h-[240px]") : "hidden"
+        }`}
       >
-        <TerminalSquare className="h-3.5 w-3.5" />
-        Terminal
-      </button>
-    );
-  }
-
-  return (
-    <div
-      className={`flex flex-col border-t border-border bg-[#0B0E14] transition-all ${
-        isMinimized ? "h-8" : "h-[240px]"
-      }`}
-    >
-      {/* Header bar */}
-      <div className="flex h-8 shrink-0 items-center justify-between border-b border-border/50 bg-surface/50 px-3">
-        <div className="flex items-center gap-2 text-[11px] text-muted">
-          <TerminalSquare className="h-3 w-3 text-indigo" />
-          <span className="font-medium">Terminal</span>
-          <span className="text-muted/50">jsh</span>
+        {/* Header bar */}
+        <div className="flex h-8 shrink-0 items-center justify-between gap-2 border-b border-border/50 bg-surface/50 px-3">
+          <div className="flex min-w-0 items-center gap-1 text-[11px] text-muted">
+            <TerminalSquare className="mr-1 h-3 w-3 shrink-0 text-indigo" />
+
+            {/* Session tabs */}
+            <div className="flex min-w-0 items-center gap-0.5 overflow-x-auto">
+              {sessions.map((s) => {
+                const isActive = s.id === activeId;
+                const isShown = panes.includes(s.id);
+                return (
+                  <div
+                    key={s.id}
+                    className={`group flex shrink-0 items-center rounded px-1.5 py-0.5 transition-colors ${
+                      isActive
+                        ? "bg-indigo/15 text-foreground"
+                        : isShown
+                          ? "bg-white/5 text-foreground/70"
+                          : "text-muted hover:bg-white/5 hover:text-foreground"
+                    }`}
+                  >
+                    {renamingId === s.id ? (
+                      <input
+                        autoFocus
+                        defaultValue={s.name}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRenameSession(s.id, e.currentTarget.value);
+                          else if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        onBlur={(e) => handleRenameSession(s.id, e.target.value)}
+                        className="w-24 rounded border border-indigo/40 bg-surface-light px-1 text-[11px] text-foreground outline-none"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => handleSelectSession(s.id)}
+                        onDoubleClick={() => setRenamingId(s.id)}
+                        className="flex items-center gap-1 font-medium"
+                        title="Double-click to rename"
+                      >
+                        {s.name}
+                        {errors[s.id] && <span className="h-1.5 w-1.5 rounded-full bg-red-400" />}
+                      </button>
+                    )}
+                    {sessions.length > 1 && (
+                      <button
+                        onClick={() => handleCloseSession(s.id)}
+                        className="ml-1 rounded text-muted/50 opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100"
+                        title="Close session (kills its shell)"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={handleNewSession}
+              className="shrink-0 rounded p-0.5 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+              title="New terminal"
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={handleToggleSplit}
+              className={`shrink-0 rounded p-0.5 transition-colors hover:bg-white/5 hover:text-foreground ${
+                panes.length > 1 ? "text-indigo-light" : "text-muted"
+              }`}
+              title={panes.length > 1 ? "Unsplit" : "Split terminal"}
+            >
+              <Columns2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+
+          <div className="flex shrink-0 items-center gap-0.5">
+            {detectedError && onFixWithAI && (
+              <div className="mr-1 flex items-center overflow-hidden rounded border border-red-500/30 bg-red-500/10">
+                <button
+                  onClick={() => onFixWithAI(detectedError)}
+                  className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-red-300 transition-colors hover:bg-red-500/15 hover:text-red-200"
+                  title={`Send to AI chat: ${detectedError.summary}`}
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Fix with AI
+                </button>
+                <button
+                  onClick={() => {
+                    dismissedRef.current.add(detectedError.signature);
+                    setErrors((prev) =>
+                      Object.fromEntries(
+                        Object.entries(prev).map(([id, e]) => [
+                          id,
+                          e?.signature === detectedError.signature ? null : e,
+                        ])
+                      )
+                    );
+                  }}
+                  className="border-l border-red-500/30 px-1 py-0.5 text-red-300/60 transition-colors hover:text-red-200"
+                  title="Dismiss"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            <button
+              onClick={() => setIsMinimized((m) => !m)}
+              className="rounded p-0.5 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+              title={isMinimized ? "Expand" : "Minimize"}
+            >
+              {isMinimized ? (
+                <ChevronUp className="h-3.5 w-3.5" />
+              ) : (
+                <ChevronDown className="h-3.5 w-3.5" />
+              )}
+            </button>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="rounded p-0.5 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
+              title="Close terminal"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
         </div>
 
-        <div className="flex items-center gap-0.5">
-          <button
-            onClick={() => setIsMinimized((m) => !m)}
-            className="rounded p-0.5 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
-            title={isMinimized ? "Expand" : "Minimize"}
-          >
-            {isMinimized ? (
-              <ChevronUp className="h-3.5 w-3.5" />
-            ) : (
-              <ChevronDown className="h-3.5 w-3.5" />
-            )}
-          </button>
-          <button
-            onClick={() => setIsOpen(false)}
-            className="rounded p-0.5 text-muted transition-colors hover:bg-white/5 hover:text-foreground"
-            title="Close terminal"
-          >
-            <X className="h-3.5 w-3.5" />
-          </button>
+        {/* Terminal surfaces — every session stays mounted; panes pick what shows */}
+        <div className={`min-h-0 flex-1 ${isVisible ? "flex" : "hidden"}`}>
+          {restoredOutput !== null && sessions.map((s) => {
+            const paneIndex = panes.indexOf(s.id);
+            const shown = paneIndex !== -1;
+            return (
+              <div
+                key={s.id}
+                style={{ order: paneIndex }}
+                className={
+                  shown
+                    ? `flex min-w-0 flex-1 ${paneIndex > 0 ? "border-l border-border/50" : ""} ${
+                        panes.length > 1 && s.id === activeId ? "bg-indigo/[0.03]" : ""
+                      }`
+                    : "hidden"
+                }
+              >
+                <TerminalSession
+                  ref={(handle) => {
+                    if (handle) handlesRef.current.set(s.id, handle);
+                    else handlesRef.current.delete(s.id);
+                  }}
+                  instance={instance}
+                  name={s.name}
+                  visible={isVisible && shown}
+                  onErrorChange={(error) => handleErrorChange(s.id, error)}
+                  listProjectFiles={listProjectFiles}
+                  onOpenFile={onOpenFile}
+                  onFocus={() => setActiveId(s.id)}
+                  restoredOutput={s.id === FIRST_SESSION_ID ? restoredOutput : undefined}
+                  onCommand={handleCommand}
+                  getHistory={getHistory}
+                />
+              </div>
+            );
+          })}
         </div>
       </div>
-
-      {/* Terminal surface */}
-      {!isMinimized && (
-        <div
-          ref={termRef}
-          className="flex-1 overflow-hidden px-1 py-1"
-        />
-      )}
-    </div>
+    </>
   );
 });
 
@@ -7,6 +7,10 @@
  * Redirects to /login if unauthenticated.
  */
 
+import { deleteProjectCheckpoints } from "@/lib/checkpoints";
+import { deleteProjectThreads } from "@/lib/chat-threads";
+import { deleteProjectEnv } from "@/lib/env-vars";
+import { deleteProjectNodeModules } from "@/lib/node-modules-cache";
 import { deleteProjectOPFS } from "@/lib/opfs";
 import {
     createProject,
@@ -14,10 +18,14 @@ import {
     getAllProjects,
     type Project,
 } from "@/lib/projects";
+import { deleteProjectRunConfigs } from "@/lib/run-configs";
+import { deleteProjectTerminalHistory } from "@/lib/terminal-history";
+import { deleteProjectWriteJournal } from "@/lib/write-journal";
 import {
     Clock,
     FileCode,
     FolderOpen,
+    HardDrive,
     LayoutGrid,
     LogOut,
     Plus,
@@ -30,6 +38,7 @@ import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState } from "react";
 import { useAuth } from "../components/AuthProvider";
 import NewProjectModal from "../components/NewProjectModal";
+import NpmCacheModal from "../components/NpmCacheModal";
 
 // ─── Language badge colors ──────────────────────────────────
 
@@ -69,12 +78,13 @@ function timeAgo(isoDate: string): string {
 // ─── Component ──────────────────────────────────────────────
 
 export default function DashboardPage() {
-  const { user, userHash, isLoggedIn, mounted, logout } = useAuth();
+  const { user, userHash, encryptionKey, isLoggedIn, mounted, logout } = useAuth();
   const router = useRouter();
 
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoadingProjects, setIsLoadingProjects] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
+  const [cacheOpen, setCacheOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
@@ -117,9 +127,16 @@ export default function DashboardPage() {
     setDeletingId(id);
     try {
       await deleteProject(id);
-      // Also clean up the OPFS directory for this project
+      // Also clean up the OPFS directory, undo history and chats for this project
       if (userHash) {
         await deleteProjectOPFS(userHash, id);
+        await deleteProjectCheckpoints(userHash, id);
+        await deleteProjectThreads(userHash, id);
+        await deleteProjectTerminalHistory(userHash, id);
+        await deleteProjectRunConfigs(userHash, id);
+        await deleteProjectEnv(userHash, id);
+        await deleteProjectNodeModules(userHash, id);
+        await deleteProjectWriteJournal(userHash, id);
       }
       setProjects((prev) => prev.filter((p) => p.id !== id));
     } catch (err) {
@@ -163,6 +180,14 @@ export default function DashboardPage() {
             <span className="hidden max-w-[200px] truncate text-sm text-muted sm:block">
               {user}
             </span>
+            <button
+              onClick={() => setCacheOpen(true)}
+              className="flex items-center gap-1.5 rounded-lg border border-border-light bg-surface px-3 py-2 text-sm text-muted transition-all hover:border-muted hover:text-foreground"
+              title="Offline npm package cache"
+            >
+              <HardDrive className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">Package cache</span>
+            </button>
             <button
               onClick={() => {
                 logout();
@@ -354,6 +379,16 @@ export default function DashboardPage() {
         onClose={() => setModalOpen(false)}
         onCreate={handleCreate}
       />
+
+      {/* ── Package Cache Modal ── */}
+      {userHash && (
+        <NpmCacheModal
+          open={cacheOpen}
+          onClose={() => setCacheOpen(false)}
+          userHash={userHash}
+          encryptionKey={encryptionKey ?? undefined}
+        />
+      )}
     </div>
   );
 }
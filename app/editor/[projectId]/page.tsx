@@ -8,44 +8,95 @@
  */
 
 import {
+    createCheckpoint,
+    deleteCheckpoints,
+    listCheckpoints,
+    revertTargets,
+    saveCheckpoint,
+    type Checkpoint,
+    type CheckpointFile,
+} from "@/lib/checkpoints";
+import {
+    loadProjectEnv,
+    redactSecrets,
+    saveProjectEnv,
+    toEnvRecord,
+    type ProjectEnv,
+} from "@/lib/env-vars";
+import { FileVersions, type FileConflict } from "@/lib/file-versions";
+import {
+    createDirectory,
+    deleteEntry,
     detectLanguage,
     listTree,
     readFile,
+    renameEntry,
+    repairProjectFiles,
     writeFile,
+    type FSNode,
 } from "@/lib/opfs";
-import { OPFSWriteQueue } from "@/lib/opfs-write-queue";
+import { OPFSWriteQueue, type WriteOp } from "@/lib/opfs-write-queue";
+import { loadProjectFiles } from "@/lib/import-graph";
 import { getProject, type Project } from "@/lib/projects";
+import { describeScriptRun, type ScriptRun } from "@/lib/run-configs";
+import { buildFixPrompt, type TerminalError } from "@/lib/terminal-errors";
 import {
     initializeProject,
+    readFileFromContainer,
+    readPackageDependencies,
     readPackageScripts,
     rehydrateProject,
+    runDependencyAction,
+    setContainerEnv,
     spawnNpmScript,
     switchProject,
+    syncDotEnvToContainer,
     syncDeleteInContainer,
     syncDirToContainer,
     syncFileToContainer,
+    syncRenameInContainer,
     teardownProject,
     useWebContainer,
-    type RehydrationPhase
+    type DependencyAction,
+    type DotEnvSyncResult,
+    type PackageScripts,
+    type RehydrationPhase,
+    type SpawnScriptOptions
 } from "@/lib/useWebContainer";
 import { injectHeaderConfig } from "@/lib/wc-server-headers";
 import { WCSyncManager } from "@/lib/wc-sync-manager";
+import { createWriteJournal, replayWriteJournal } from "@/lib/write-journal";
 import { useAuth } from "../../components/AuthProvider";
+import CheckpointTimeline from "../../components/editor/CheckpointTimeline";
+import ConflictModal from "../../components/editor/ConflictModal";
+import DependencyPanel from "../../components/editor/DependencyPanel";
+import EnvPanel from "../../components/editor/EnvPanel";
+import ProcessPanel from "../../components/editor/ProcessPanel";
+import ScriptRunner from "../../components/editor/ScriptRunner";
 import Sidebar from "../../components/editor/Sidebar";
 import TabBar, { type TabItem } from "../../components/editor/TabBar";
 
 import { AIProvider } from "@/lib/ai-engine";
-import type { FileAction } from "@/lib/ai-parser";
+import { applyPatch, type FileAction } from "@/lib/ai-parser";
 import { PendingChangeProvider } from "@/lib/pending-change-context";
-import type { Monaco } from "@monaco-editor/react";
-import type { WebContainerProcess } from "@webcontainer/api";
+import type { Monaco, OnMount } from "@monaco-editor/react";
 import {
+    PreviewMessageType,
+    type PreviewMessage,
+    type WebContainerProcess,
+} from "@webcontainer/api";
+import {
+    Activity,
+    AlertTriangle,
     ArrowLeft,
     Bot,
     Code2,
     FileCode,
+    History,
+    KeyRound,
     Loader2,
     LogOut,
+    Package,
     PanelRightClose,
     PanelRightOpen,
     Play,
@@ -63,8 +114,10 @@ import {
     useMemo,
     useRef,
     useState,
+    useSyncExternalStore,
     type FC,
 } from "react";
+import type { ChatDraft } from "../../components/editor/ChatSidebar";
 import type { WebTerminalHandle } from "../../components/editor/WebTerminal";
 
 // ─── Custom Monaco Theme ────────────────────────────────────
@@ -168,6 +221,36 @@ const ChatSidebar = dynamic(
   { ssr: false }
 );
 
+// ─── Helpers ────────────────────────────────────────────────
+
+/** Terminal lines handed to the AI for @terminal. */
+const TERMINAL_CONTEXT_LINES = 200;
+
+/** Preview errors kept for @preview-errors. */
+const MAX_PREVIEW_ERRORS = 20;
+
+/** Scripts that start a server — they run in the single server slot. */
+const SERVER_SCRIPTS = ["dev", "start"];
+
+/** Flatten a tree into the paths of its files (directories omitted). */
+function flattenFiles(nodes: FSNode[]): string[] {
+  return nodes.flatMap((n) => (n.isDirectory ? flattenFiles(n.children) : [n.path]));
+}
+
+/** One-entry text form of an error forwarded from a preview iframe. */
+function formatPreviewMessage(message: PreviewMessage): string {
+  const where = `[:${message.port}${message.pathname}]`;
+  if (message.type === PreviewMessageType.ConsoleError) {
+    const args = message.args
+      .map((a) => (typeof a === "string" ? a : JSON.stringify(a)))
+      .join(" ");
+    return `${where} console.error: ${args}`;
+  }
+  const kind =
+    message.type === PreviewMessageType.UncaughtException ? "Uncaught" : "Unhandled rejection";
+  return `${where} ${kind}: ${message.message}${message.stack ? `\n${message.stack}` : ""}`;
+}
+
 // ─── Page ───────────────────────────────────────────────────
 
 const EditorProjectPage: FC = () => {
@@ -191,8 +274,12 @@ const EditorProjectPage: FC = () => {
   const [fileContent, setFileContent] = useState<string>("");
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<FileConflict | null>(null); // editor vs container
+  /** The conflict the user chose to decide later — rescans don't prompt for it again */
+  const deferredConflictRef = useRef<FileConflict | null>(null);
   const [refreshTree, setRefreshTree] = useState(0);
-  const [availableScripts, setAvailableScripts] = useState<string[]>([]);
+  const [packageScripts, setPackageScripts] = useState<PackageScripts>({});
+  const availableScripts = useMemo(() => Object.keys(packageScripts), [packageScripts]);
   const [runningScript, setRunningScript] = useState<string | null>(null);
   const [serverProcessId, setServerProcessId] = useState<string | null>(null);
   const [isStartingServer, setIsStartingServer] = useState(false);
@@ -206,6 +293,22 @@ const EditorProjectPage: FC = () => {
   const [activePorts, setActivePorts] = useState<ActivePort[]>([]);
   const [showPreviewPane, setShowPreviewPane] = useState(false); // iframe preview panel
   const [showAIChat, setShowAIChat] = useState(false); // AI chat sidebar
+  const [chatDraft, setChatDraft] = useState<ChatDraft | null>(null); // prompt pre-filled from elsewhere
+  const [showHistory, setShowHistory] = useState(false); // checkpoint timeline
+  const [showProcesses, setShowProcesses] = useState(false); // process manager
+  const [showEnv, setShowEnv] = useState(false); // environment variables
+  const [showDependencies, setShowDependencies] = useState(false); // dependency manager
+
+  // Project environment variables (null until the first project's load)
+  const [loadedEnv, setLoadedEnv] = useState<
+    { projectId: string; env: ProjectEnv; error: string | null } | null
+  >(null);
+  const projectEnv = loadedEnv?.env ?? null;
+  const envLoadRef = useRef<Promise<ProjectEnv> | null>(null);
+
+  // Undo history for accepted AI changes (oldest first)
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [busyCheckpoint, setBusyCheckpoint] = useState<string | null>(null);
 
   // ── Resizable split pane ──
   const [splitPercent, setSplitPercent] = useState(50); // editor width as % of container
@@ -213,14 +316,34 @@ const EditorProjectPage: FC = () => {
   const splitContainerRef = useRef<HTMLDivElement>(null);
 
   const activePathRef = useRef<string | null>(null);
+  /** Editor buffer of the active file, for the sync manager's conflict check */
+  const fileContentRef = useRef("");
   const serverProcessRef = useRef<WebContainerProcess | null>(null);
   const isFlushing = useRef(false);
+  /** Editor cursor line (1-based) — the AI context is elided around it */
+  const cursorLineRef = useRef<number | null>(null);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  /** Position to reveal once `path` is showing in the editor */
+  const pendingRevealRef = useRef<{ path: string; line: number; column: number } | null>(null);
+  /** Recent errors reported by the preview, oldest first (for @preview-errors) */
+  const previewErrorsRef = useRef<string[]>([]);
 
   // Project init & sync manager
   const [rehydrationPhase, setRehydrationPhase] = useState<RehydrationPhase | null>(null);
   const terminalRef = useRef<WebTerminalHandle>(null);
   const syncManagerRef = useRef<WCSyncManager | null>(null);
-  const writeQueue = useMemo(() => new OPFSWriteQueue(), []);
+  // One queue per project, journaled so a reload mid-queue loses nothing
+  const writeQueue = useMemo(
+    () =>
+      new OPFSWriteQueue({
+        journal: userHash ? createWriteJournal(userHash, projectId, encryptionKey ?? undefined) : undefined,
+      }),
+    [userHash, projectId, encryptionKey]
+  );
+  const subscribeWriteQueue = useCallback((listener: () => void) => writeQueue.subscribe(listener), [writeQueue]);
+  const getWriteQueueStatus = useCallback(() => writeQueue.status(), [writeQueue]);
+  const writeQueueStatus = useSyncExternalStore(subscribeWriteQueue, getWriteQueueStatus, getWriteQueueStatus);
+  const fileVersions = useMemo(() => new FileVersions(), []);
   const mountedProjectRef = useRef<string | null>(null);
 
   // Keep ref in sync for the save callback closure
@@ -228,6 +351,10 @@ const EditorProjectPage: FC = () => {
     activePathRef.current = activePath;
   }, [activePath]);
 
+  useEffect(() => {
+    fileContentRef.current = fileContent;
+  }, [fileContent]);
+
   // ── Route guard ──
   useEffect(() => {
     if (mounted && !isLoggedIn) router.replace("/login");
@@ -257,20 +384,28 @@ const EditorProjectPage: FC = () => {
       }
     });
 
+    // Uncaught errors and console.error calls forwarded from previews
+    const unsubPreview = wc.on("preview-message", (message: PreviewMessage) => {
+      previewErrorsRef.current = [
+        ...previewErrorsRef.current.slice(1 - MAX_PREVIEW_ERRORS),
+        formatPreviewMessage(message),
+      ];
+    });
+
     return () => {
       if (typeof unsubReady === "function") unsubReady();
       if (typeof unsubPort === "function") unsubPort();
+      if (typeof unsubPreview === "function") unsubPreview();
     };
   }, [wc]);
 
   // ── Read package.json scripts from the WebContainer ──
   const refreshScripts = useCallback(async () => {
     if (!wc || !wcMounted) {
-      setAvailableScripts([]);
+      setPackageScripts({});
       return;
     }
-    const scripts = await readPackageScripts(wc);
-    setAvailableScripts(Object.keys(scripts));
+    setPackageScripts(await readPackageScripts(wc));
   }, [wc, wcMounted]);
 
   useEffect(() => {
@@ -279,7 +414,7 @@ const EditorProjectPage: FC = () => {
 
   // ── Run / stop server process ──
   const runServerScript = useCallback(
-    async (scriptName: "dev" | "start") => {
+    async (scriptName: string, options: Omit<SpawnScriptOptions, "restart"> = {}) => {
       if (!wc || !availableScripts.includes(scriptName)) return;
 
       // Stop existing server process first
@@ -296,13 +431,16 @@ const EditorProjectPage: FC = () => {
       setRunningScript(scriptName);
 
       try {
-        const process = await spawnNpmScript(wc, scriptName);
+        const { id, process, output } = await spawnNpmScript(wc, scriptName, {
+          ...options,
+          restart: () => runServerScript(scriptName, options),
+        });
         serverProcessRef.current = process;
-        setServerProcessId(`${scriptName}-${Date.now()}`);
+        setServerProcessId(id);
 
         // Pipe server stdout/stderr into the xterm terminal
         const terminal = terminalRef.current?.terminal ?? null;
-        process.output.pipeTo(
+        output.pipeTo(
           new WritableStream({
             write(chunk: string) {
               terminal?.write(chunk);
@@ -350,6 +488,48 @@ const EditorProjectPage: FC = () => {
 
   // (server cleanup on unmount is handled by the combined teardown effect above)
 
+  // ── Run any script (script runner / run configurations) ──
+  // Servers replace the current server process; anything else (build,
+  // test, lint…) runs alongside it and is managed from the Processes panel.
+  const runScript = useCallback(
+    async (run: ScriptRun) => {
+      const options = { args: run.args, env: run.env, label: run.label };
+      if (SERVER_SCRIPTS.includes(run.script)) {
+        await runServerScript(run.script, options);
+        return;
+      }
+      if (!wc) return;
+
+      const terminal = terminalRef.current?.terminal ?? null;
+      terminal?.writeln(`\r\n\x1b[1;36m▶ ${describeScriptRun(run)}\x1b[0m\r\n`);
+      try {
+        const { process, output } = await spawnNpmScript(wc, run.script, {
+          ...options,
+          restart: () => runScript(run),
+        });
+        output.pipeTo(
+          new WritableStream({
+            write(chunk: string) {
+              terminal?.write(chunk);
+            },
+          })
+        ).catch(() => { /* stream closed */ });
+        process.exit
+          .then((code) => {
+            terminal?.writeln(
+              code === 0
+                ? `\r\n\x1b[1;32m✓ npm run ${run.script} finished\x1b[0m\r\n`
+                : `\r\n\x1b[1;31m✗ npm run ${run.script} exited with code ${code}\x1b[0m\r\n`
+            );
+          })
+          .catch(() => { /* killed */ });
+      } catch (err) {
+        console.error(`Failed to run npm script: ${run.script}`, err);
+      }
+    },
+    [wc, runServerScript]
+  );
+
   // ── Auto-show preview pane when a server becomes ready ──
   useEffect(() => {
     if (activePorts.length > 0 && !showPreviewPane) {
@@ -458,14 +638,29 @@ const EditorProjectPage: FC = () => {
 
   const handleSidebarEntryDeleted = useCallback(
     (path: string) => {
+      fileVersions.forget(path);
       if (!wc) return;
       syncDeleteInContainer(wc, path).catch((err) =>
         console.warn("[sync] Failed to mirror deletion to container:", err)
       );
     },
-    [wc]
+    [wc, fileVersions]
   );
 
+  // ── Load the project's environment variables ──
+  // Processes must see them from the start, so the mount below waits for
+  // this load and the terminal only renders once it has finished.
+  useEffect(() => {
+    if (!userHash) return;
+    envLoadRef.current = loadProjectEnv(userHash, projectId, encryptionKey ?? undefined).then(
+      ({ env, error }) => {
+        setContainerEnv(toEnvRecord(env));
+        setLoadedEnv({ projectId, env, error });
+        return env;
+      }
+    );
+  }, [userHash, projectId, encryptionKey]);
+
   // ── Mount OPFS project files + auto npm install (handles project switching) ──
   useEffect(() => {
     if (!wc || !project || !userHash) return;
@@ -480,8 +675,23 @@ const EditorProjectPage: FC = () => {
 
     (async () => {
       try {
+        const env = await envLoadRef.current;
         const terminal = terminalRef.current?.terminal ?? null;
-        const shellProc = terminalRef.current?.shellProcess ?? null;
+
+        // Finish or roll back file writes a crash interrupted, then apply
+        // the writes a previous session queued but never committed
+        const repaired = await repairProjectFiles(userHash, projectId, encryptionKey ?? undefined);
+        if (repaired.length > 0) console.info("[opfs] Repaired interrupted writes:", repaired);
+        // An unreadable journal is reported once the terminal is ready
+        let journalError: string | null = null;
+        try {
+          const replayed = await replayWriteJournal(userHash, projectId, encryptionKey ?? undefined);
+          if (replayed > 0) console.info(`[write-journal] Replayed ${replayed} uncommitted write(s)`);
+        } catch (err) {
+          console.error("[write-journal]", err);
+          journalError = err instanceof Error ? err.message : String(err);
+        }
+        const shellProcs = terminalRef.current?.shellProcesses ?? [];
 
         // ── If switching projects, tear down the old session first ──
         if (isSwitch) {
@@ -493,7 +703,7 @@ const EditorProjectPage: FC = () => {
 
           // 2. Reset editor state for the new project
           setWcMounted(false);
-          setAvailableScripts([]);
+          setPackageScripts({});
           setRunningScript(null);
           setServerProcessId(null);
           setIsStartingServer(false);
@@ -501,11 +711,13 @@ const EditorProjectPage: FC = () => {
           setActivePath(null);
           setTabs([]);
           setFileContent("");
+          setConflict(null);
+          fileVersions.clear();
 
           // 3. switchProject: kill processes → wipe FS → clear terminal → mount + npm install
           await switchProject({
             instance: wc,
-            shellProcess: shellProc,
+            shellProcesses: shellProcs,
             serverProcess: serverProcessRef.current,
             userHash,
             projectId,
@@ -550,6 +762,17 @@ const EditorProjectPage: FC = () => {
           mountedProjectRef.current = projectId;
           setWcMounted(true);
 
+          if (journalError) {
+            terminalRef.current?.terminal?.writeln(`\r\n\x1b[1;31m✗ ${journalError}\x1b[0m\r\n`);
+          }
+
+          // Generate /.env if the project asks for one (the FS was just mounted)
+          if (env) {
+            syncDotEnvToContainer(wc, env).catch((err) =>
+              console.warn("[env] Failed to write .env:", err)
+            );
+          }
+
           // Auto-inject COEP/COOP headers into Vite/Webpack configs
           injectHeaderConfig(wc).catch((err) =>
             console.warn("[injectHeaderConfig] Failed:", err)
@@ -586,10 +809,32 @@ const EditorProjectPage: FC = () => {
             projectId,
             encryptionKey: encryptionKey ?? undefined,
             writeFileToOPFS: writeFile,
+            createDirInOPFS: createDirectory,
+            deleteFromOPFS: deleteEntry,
+            renameInOPFS: renameEntry,
             onSyncBack: (path) => {
               console.info(`[SyncManager] Synced back: ${path}`);
               setRefreshTree((n) => n + 1);
             },
+            checkConflict: async (path, theirs) => {
+              // Only the active file has an editor buffer
+              if (path !== activePathRef.current) return false;
+              const mine = fileContentRef.current;
+              const status = await fileVersions.status(path, mine, theirs);
+              if (status === "conflict") {
+                const deferred = deferredConflictRef.current;
+                const same = deferred?.path === path && deferred.mine === mine && deferred.theirs === theirs;
+                if (!same) setConflict({ path, base: fileVersions.base(path) ?? "", mine, theirs });
+                return true;
+              }
+              if (status === "container-ahead") {
+                // No unsaved edits — just show the container's version
+                fileVersions.synced(path, theirs);
+                setFileContent(theirs);
+                setTabs((prev) => prev.map((t) => (t.path === path ? { ...t, dirty: false } : t)));
+              }
+              return false;
+            },
           });
           syncManagerRef.current = mgr;
           mgr.start();
@@ -603,7 +848,7 @@ const EditorProjectPage: FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [wc, project, userHash, projectId, encryptionKey, wcMounted, writeQueue]);
+  }, [wc, project, userHash, projectId, encryptionKey, wcMounted, writeQueue, fileVersions]);
 
   // ── Cleanup: stop sync manager + teardown processes on unmount ──
   useEffect(() => {
@@ -622,6 +867,7 @@ const EditorProjectPage: FC = () => {
       if (!userHash) return;
       try {
         const content = await readFile(userHash, projectId, path, encryptionKey ?? undefined);
+        fileVersions.synced(path, content);
         setFileContent(content);
         setActivePath(path);
 
@@ -634,11 +880,41 @@ const EditorProjectPage: FC = () => {
         console.error("Failed to open file:", err);
       }
     },
-    [projectId, userHash, encryptionKey]
+    [projectId, userHash, encryptionKey, fileVersions]
+  );
+  // ── Dependency manager: read / change package.json dependencies ──
+  const handleLoadDependencies = useCallback(
+    async () => (wc && wcMounted ? readPackageDependencies(wc) : []),
+    [wc, wcMounted]
+  );
+
+  const handleDependencyAction = useCallback(
+    async (action: DependencyAction) => {
+      if (!wc || !userHash) return 1;
+      const exitCode = await runDependencyAction(
+        wc,
+        action,
+        terminalRef.current?.terminal ?? null,
+        userHash,
+        projectId,
+        encryptionKey ?? undefined
+      );
+      // npm rewrote package.json / the lockfile — persist them now rather
+      // than on the sync manager's next poll, then pick up the changes
+      await syncManagerRef.current?.syncNow();
+      refreshScripts();
+      if (activePathRef.current === "package.json" && !tabs.some((t) => t.path === "package.json" && t.dirty)) {
+        openFile("package.json");
+      }
+      return exitCode;
+    },
+    [wc, userHash, projectId, encryptionKey, refreshScripts, tabs, openFile]
   );
+
   // ── Close a tab ──
   const closeTab = useCallback(
     (path: string) => {
+      fileVersions.forget(path);
       setTabs((prev) => {
         const next = prev.filter((t) => t.path !== path);
         // If we closed the active tab, switch to the last remaining tab
@@ -654,13 +930,65 @@ const EditorProjectPage: FC = () => {
         return next;
       });
     },
-    [activePath, openFile]
+    [activePath, openFile, fileVersions]
+  );
+
+  // A file leaving the editor may have a container change held back for it
+  useEffect(() => {
+    if (!activePath) return;
+    return () => syncManagerRef.current?.recheck(activePath);
+  }, [activePath]);
+
+  // ── Editor writes to OPFS ──
+  // Queued under the same key as the sync manager's writes of the path, so
+  // an older container change can't land after them; the manager is told
+  // to expect the container copy so it isn't synced back again.
+  const persistFile = useCallback(
+    (path: string, content: string): Promise<void> => {
+      if (!userHash) return Promise.resolve();
+      syncManagerRef.current?.expectWrite(path, content);
+      return writeQueue.enqueue({
+        key: path,
+        op: { kind: "write", path, content },
+        execute: () => writeFile(userHash, projectId, path, content, encryptionKey ?? undefined),
+      });
+    },
+    [userHash, projectId, encryptionKey, writeQueue]
+  );
+
+  // ── Editor deletes / renames / new folders in OPFS ──
+  // Queued and journaled like writes, under the sync manager's keys, so a
+  // write queued before them can't land afterwards and bring the old path
+  // back. Resolves false if the entry was already gone.
+  const persistChange = useCallback(
+    async (op: Exclude<WriteOp, { kind: "write" }>): Promise<boolean> => {
+      if (!userHash) return false;
+      let found = true;
+      await writeQueue.enqueue({
+        key: op.kind === "rename" ? `${op.from} → ${op.to}` : op.path,
+        op,
+        execute: async () => {
+          try {
+            if (op.kind === "delete") await deleteEntry(userHash, projectId, op.path);
+            else if (op.kind === "rename") await renameEntry(userHash, projectId, op.from, op.to);
+            else await createDirectory(userHash, projectId, op.path);
+          } catch (err) {
+            // Not worth retrying — the caller decides whether it matters
+            if ((err as DOMException)?.name !== "NotFoundError") throw err;
+            found = false;
+          }
+        },
+      });
+      return found;
+    },
+    [userHash, projectId, writeQueue]
   );
 
   // ── Fast WC FS sync (called on explicit save) ──
   const syncToContainer = useCallback(
     (path: string, content: string) => {
       if (!wc) return;
+      if (fileVersions.has(path)) fileVersions.synced(path, content);
       syncFileToContainer(wc, path, content).catch((err) =>
         console.warn("[sync] Failed to mirror file to container:", err)
       );
@@ -668,29 +996,293 @@ const EditorProjectPage: FC = () => {
         refreshScripts();
       }
     },
-    [wc, refreshScripts]
+    [wc, refreshScripts, fileVersions]
   );
 
   // ── AI Agent: apply file action ──
+  // Throws if the action could not be applied.
   const handleApplyFileAction = useCallback(
     async (action: FileAction) => {
       if (!userHash) return;
-      try {
-        // Write to OPFS
-        await writeFile(userHash, projectId, action.path, action.content, encryptionKey ?? undefined);
-        // Sync to WebContainer
-        syncToContainer(action.path, action.content);
-        // If this file is currently open, update the editor
-        if (action.path === activePathRef.current) {
-          setFileContent(action.content);
+      const key = encryptionKey ?? undefined;
+      // ── Structural actions: delete / rename / mkdir ──
+      if (action.kind === "delete") {
+        if (!(await persistChange({ kind: "delete", path: action.path }))) {
+          throw new Error(`${action.path} does not exist`);
+        }
+        if (wc) {
+          await syncDeleteInContainer(wc, action.path).catch((err) =>
+            console.warn("[sync] Failed to mirror deletion to container:", err)
+          );
+        }
+        // Close any tabs for the deleted file (or files inside a deleted folder)
+        const isGone = (p: string) =>
+          p === action.path || p.startsWith(`${action.path}/`);
+        fileVersions.forget(action.path);
+        setTabs((prev) => prev.filter((t) => !isGone(t.path)));
+        if (activePathRef.current && isGone(activePathRef.current)) {
+          setActivePath(null);
+          setFileContent("");
+        }
+        setRefreshTree((n) => n + 1);
+        return;
+      }
+
+      if (action.kind === "rename") {
+        if (!(await persistChange({ kind: "rename", from: action.path, to: action.newPath }))) {
+          throw new Error(`${action.path} does not exist`);
+        }
+        if (wc) {
+          await syncRenameInContainer(wc, action.path, action.newPath).catch((err) =>
+            console.warn("[sync] Failed to mirror rename to container:", err)
+          );
         }
-        // Refresh sidebar tree in case new files were created
+        // Re-point open tabs at the new location
+        const moved = (p: string) =>
+          p === action.path
+            ? action.newPath
+            : p.startsWith(`${action.path}/`)
+              ? action.newPath + p.slice(action.path.length)
+              : p;
+        fileVersions.rename(action.path, action.newPath);
+        setTabs((prev) => prev.map((t) => ({ ...t, path: moved(t.path) })));
+        if (activePathRef.current) setActivePath(moved(activePathRef.current));
         setRefreshTree((n) => n + 1);
+        return;
+      }
+
+      if (action.kind === "mkdir") {
+        await persistChange({ kind: "mkdir", path: action.path });
+        if (wc) {
+          await syncDirToContainer(wc, action.path).catch((err) =>
+            console.warn("[sync] Failed to mirror new folder to container:", err)
+          );
+        }
+        setRefreshTree((n) => n + 1);
+        return;
+      }
+
+      // ── Content actions: write / patch ──
+      // Resolve PATCH hunks against the file's current content
+      let content: string;
+      if (action.kind === "patch") {
+        let current = "";
+        try {
+          current = await readFile(userHash, projectId, action.path, key);
+        } catch {
+          // New file — hunks must use an empty SEARCH anchor
+        }
+        content = applyPatch(current, action);
+      } else {
+        content = action.content;
+      }
+      // Write to OPFS
+      await persistFile(action.path, content);
+      // Sync to WebContainer
+      syncToContainer(action.path, content);
+      // If this file is currently open, update the editor
+      if (action.path === activePathRef.current) {
+        setFileContent(content);
+      }
+      // Refresh sidebar tree in case new files were created
+      setRefreshTree((n) => n + 1);
+    },
+    [wc, userHash, projectId, encryptionKey, persistFile, persistChange, syncToContainer, fileVersions]
+  );
+
+  // ── Checkpoints: load history for this project ──
+  useEffect(() => {
+    if (!userHash) return;
+    let cancelled = false;
+    listCheckpoints(userHash, projectId, encryptionKey ?? undefined)
+      .then((list) => {
+        if (!cancelled) setCheckpoints(list);
+      })
+      .catch((err) => console.warn("[checkpoints] Failed to load history:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userHash, projectId, encryptionKey]);
+
+  /** Read a file's plaintext, or null if it does not exist. */
+  const readOrNull = useCallback(
+    async (path: string): Promise<string | null> => {
+      if (!userHash) return null;
+      try {
+        return await readFile(userHash, projectId, path, encryptionKey ?? undefined);
+      } catch {
+        return null;
+      }
+    },
+    [userHash, projectId, encryptionKey]
+  );
+
+  /** Persist a checkpoint and add it to the timeline. */
+  const recordCheckpoint = useCallback(
+    async (label: string, files: CheckpointFile[]) => {
+      if (!userHash) return;
+      const checkpoint = createCheckpoint(label, files);
+      if (checkpoint.files.length === 0) return;
+      try {
+        const pruned = await saveCheckpoint(
+          userHash,
+          projectId,
+          checkpoint,
+          encryptionKey ?? undefined
+        );
+        setCheckpoints((prev) => [
+          ...prev.filter((c) => !pruned.includes(c.id)),
+          checkpoint,
+        ]);
       } catch (err) {
-        console.error("Failed to apply AI file action:", err);
+        console.warn("[checkpoints] Failed to record checkpoint:", err);
       }
     },
-    [userHash, projectId, encryptionKey, syncToContainer]
+    [userHash, projectId, encryptionKey]
+  );
+
+  // ── AI Agent: apply an accepted review as one checkpoint ──
+  // Every file the actions can touch is read before and after, so folder
+  // deletes and renames are captured file by file as well as plain edits.
+  // Resolves with each action's error message, null where it applied;
+  // files only failed actions touch are left out of the checkpoint.
+  const handleApplyFileActions = useCallback(
+    async (actions: FileAction[], label: string): Promise<Array<string | null>> => {
+      if (!userHash) return actions.map(() => "Not signed in");
+      let files: string[] = [];
+      try {
+        files = flattenFiles(await listTree(userHash, projectId));
+      } catch {
+        // Empty project — only the action paths themselves are tracked
+      }
+      const under = (dir: string) =>
+        files.filter((f) => f === dir || f.startsWith(`${dir}/`));
+
+      const touchedBy = actions.map((action) => {
+        const paths = new Set<string>();
+        if (action.kind === "mkdir") return paths;
+        paths.add(action.path);
+        for (const f of under(action.path)) paths.add(f);
+        if (action.kind === "rename") {
+          paths.add(action.newPath);
+          for (const f of under(action.path)) {
+            paths.add(action.newPath + f.slice(action.path.length));
+          }
+        }
+        return paths;
+      });
+      const touched = new Set(touchedBy.flatMap((paths) => [...paths]));
+
+      const before = new Map<string, string | null>();
+      for (const path of touched) before.set(path, await readOrNull(path));
+
+      // Apply in order — a RENAME followed by a PATCH of the new path
+      // must not race.
+      const errors: Array<string | null> = [];
+      const changed = new Set<string>();
+      for (const [i, action] of actions.entries()) {
+        try {
+          await handleApplyFileAction(action);
+          errors.push(null);
+          for (const path of touchedBy[i]) changed.add(path);
+        } catch (err) {
+          console.error("Failed to apply AI file action:", err);
+          errors.push(err instanceof Error ? err.message : String(err));
+        }
+      }
+
+      const changes: CheckpointFile[] = [];
+      for (const path of changed) {
+        changes.push({ path, before: before.get(path) ?? null, after: await readOrNull(path) });
+      }
+      await recordCheckpoint(label, changes);
+      return errors;
+    },
+    [userHash, projectId, readOrNull, handleApplyFileAction, recordCheckpoint]
+  );
+
+  /**
+   * Write `targets` back to OPFS and the container (null = delete),
+   * keeping open tabs and the editor in step. Returns what each path
+   * held beforehand so the caller can record the restore itself.
+   */
+  const restoreFiles = useCallback(
+    async (targets: Map<string, string | null>): Promise<CheckpointFile[]> => {
+      if (!userHash) return [];
+      const restored: CheckpointFile[] = [];
+
+      for (const [path, content] of targets) {
+        const current = await readOrNull(path);
+        restored.push({ path, before: current, after: content });
+        if (current === content) continue;
+
+        if (content === null) {
+          await persistChange({ kind: "delete", path }).catch(() => {});
+          if (wc) {
+            await syncDeleteInContainer(wc, path).catch((err) =>
+              console.warn("[sync] Failed to mirror revert to container:", err)
+            );
+          }
+          fileVersions.forget(path);
+          setTabs((prev) => prev.filter((t) => t.path !== path));
+          if (activePathRef.current === path) {
+            setActivePath(null);
+            setFileContent("");
+          }
+        } else {
+          await persistFile(path, content);
+          syncToContainer(path, content);
+          if (activePathRef.current === path) setFileContent(content);
+        }
+      }
+
+      setRefreshTree((n) => n + 1);
+      return restored;
+    },
+    [wc, userHash, readOrNull, persistFile, persistChange, syncToContainer, fileVersions]
+  );
+
+  // ── Checkpoints: undo a single checkpoint ──
+  // Recorded as a new checkpoint so the revert itself can be undone.
+  const handleRevertCheckpoint = useCallback(
+    async (id: string) => {
+      const checkpoint = checkpoints.find((c) => c.id === id);
+      if (!checkpoint) return;
+      setBusyCheckpoint(id);
+      try {
+        const restored = await restoreFiles(revertTargets([checkpoint]));
+        await recordCheckpoint(`Revert: ${checkpoint.label}`, restored);
+      } catch (err) {
+        console.error("Failed to revert checkpoint:", err);
+      } finally {
+        setBusyCheckpoint(null);
+      }
+    },
+    [checkpoints, restoreFiles, recordCheckpoint]
+  );
+
+  // ── Checkpoints: roll the project back to just after checkpoint `id` ──
+  // Every newer checkpoint is undone (newest first) and dropped from history.
+  const handleRollbackToCheckpoint = useCallback(
+    async (id: string) => {
+      if (!userHash) return;
+      const idx = checkpoints.findIndex((c) => c.id === id);
+      if (idx === -1) return;
+      const undone = checkpoints.slice(idx + 1).reverse();
+      if (undone.length === 0) return;
+      setBusyCheckpoint(id);
+      try {
+        await restoreFiles(revertTargets(undone));
+        const ids = undone.map((c) => c.id);
+        await deleteCheckpoints(userHash, projectId, ids);
+        setCheckpoints((prev) => prev.filter((c) => !ids.includes(c.id)));
+      } catch (err) {
+        console.error("Failed to roll back to checkpoint:", err);
+      } finally {
+        setBusyCheckpoint(null);
+      }
+    },
+    [userHash, projectId, checkpoints, restoreFiles]
   );
 
   // ── AI Agent: read file content for diff ──
@@ -713,7 +1305,13 @@ const EditorProjectPage: FC = () => {
       if (!path || !userHash) return;
       setIsSaving(true);
       try {
-        await writeFile(userHash, projectId, path, fileContent, encryptionKey ?? undefined);
+        // Don't overwrite a version a container process wrote meanwhile
+        const theirs = wc ? await readFileFromContainer(wc, path) : null;
+        if (theirs !== null && (await fileVersions.status(path, fileContent, theirs)) === "conflict") {
+          setConflict({ path, base: fileVersions.base(path) ?? "", mine: fileContent, theirs });
+          return;
+        }
+        await persistFile(path, fileContent);
         setLastSaved(new Date());
         // Clear dirty indicator on this tab
         setTabs((prev) =>
@@ -727,7 +1325,32 @@ const EditorProjectPage: FC = () => {
         setIsSaving(false);
       }
     },
-    [projectId, userHash, encryptionKey, fileContent, syncToContainer]
+    [wc, userHash, fileContent, persistFile, syncToContainer, fileVersions]
+  );
+
+  // ── Resolve an editor / container conflict (ConflictModal) ──
+  const handleResolveConflict = useCallback(
+    async (content: string, save: boolean) => {
+      if (!conflict || !userHash) return;
+      const { path, theirs } = conflict;
+      setConflict(null);
+      // An unsaved merge still persists the container's version the sync manager held back
+      const persisted = save ? content : theirs;
+      try {
+        await persistFile(path, persisted);
+        if (persisted === theirs) fileVersions.synced(path, theirs);
+        else syncToContainer(path, persisted);
+        if (save) setLastSaved(new Date());
+        if (activePathRef.current === path) setFileContent(content);
+        setTabs((prev) =>
+          prev.map((t) => (t.path === path ? { ...t, dirty: content !== persisted } : t))
+        );
+        setRefreshTree((n) => n + 1);
+      } catch (err) {
+        console.error("Failed to resolve conflict:", err);
+      }
+    },
+    [conflict, userHash, persistFile, syncToContainer, fileVersions]
   );
 
   // ── Ctrl+S keyboard shortcut ──
@@ -756,6 +1379,92 @@ const EditorProjectPage: FC = () => {
     }
   }
 
+  // ── Project file paths (minus ignored ones) for terminal links / error refs ──
+  const handleListProjectFiles = useCallback(async () => {
+    if (!userHash) return [];
+    return loadProjectFiles(userHash, projectId, encryptionKey ?? undefined);
+  }, [userHash, projectId, encryptionKey]);
+
+  // ── Terminal text bound for the AI, with secret values masked ──
+  const redactOutput = useCallback(
+    (text: string) => (projectEnv ? redactSecrets(text, projectEnv) : text),
+    [projectEnv]
+  );
+
+  // ── "Fix with AI" from the terminal: pre-fill the chat with the error ──
+  const handleFixWithAI = useCallback(
+    async (error: TerminalError) => {
+      // Without the file list the excerpt alone still helps
+      const files = await handleListProjectFiles().catch(() => [] as string[]);
+      setChatDraft({ id: Date.now(), text: redactOutput(buildFixPrompt(error, files)) });
+      setShowAIChat(true);
+    },
+    [handleListProjectFiles, redactOutput]
+  );
+
+  // ── Save environment variables (Env panel) ──
+  // New values reach processes started from now on; running ones keep theirs.
+  const handleSaveEnv = useCallback(
+    async (env: ProjectEnv): Promise<DotEnvSyncResult> => {
+      if (!userHash) return "unchanged";
+      await saveProjectEnv(userHash, projectId, env, encryptionKey ?? undefined);
+      setContainerEnv(toEnvRecord(env));
+      setLoadedEnv({ projectId, env, error: null });
+      return wc && wcMounted ? syncDotEnvToContainer(wc, env) : "unchanged";
+    },
+    [userHash, projectId, encryptionKey, wc, wcMounted]
+  );
+
+  // ── Reveal a pending line/column once its file is in the editor ──
+  const applyPendingReveal = useCallback(() => {
+    const editor = editorRef.current;
+    const pending = pendingRevealRef.current;
+    if (!editor || !pending || pending.path !== activePathRef.current) return;
+    pendingRevealRef.current = null;
+    const position = { lineNumber: pending.line, column: pending.column };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+  }, []);
+
+  useEffect(() => {
+    applyPendingReveal();
+  }, [activePath, fileContent, applyPendingReveal]);
+
+  // ── Open a file at a line / column (terminal links) ──
+  const openFileAt = useCallback(
+    (path: string, line: number | null, column: number | null) => {
+      if (line !== null) {
+        pendingRevealRef.current = { path, line, column: column ?? 1 };
+      }
+      // Already open: keep unsaved edits, just move the cursor
+      if (path === activePathRef.current) {
+        applyPendingReveal();
+      } else {
+        openFile(path);
+      }
+    },
+    [openFile, applyPendingReveal]
+  );
+
+  // ── Track the cursor line for AI context ──
+  const handleEditorMount: OnMount = (editor) => {
+    editorRef.current = editor;
+    applyPendingReveal();
+    cursorLineRef.current = editor.getPosition()?.lineNumber ?? null;
+    editor.onDidChangeCursorPosition((e) => {
+      cursorLineRef.current = e.position.lineNumber;
+    });
+  };
+
+  // ── Context getters for the AI chat (stable, so its send handler is too) ──
+  const getCursorLine = useCallback(() => cursorLineRef.current, []);
+  const getTerminalOutput = useCallback(
+    () => redactOutput(terminalRef.current?.getRecentOutput(TERMINAL_CONTEXT_LINES) ?? ""),
+    [redactOutput]
+  );
+  const getPreviewErrors = useCallback(() => previewErrorsRef.current, []);
+
   // ── Flush unsaved changes + navigate (full reload) ──
   const flushAndNavigate = useCallback(
     async (url: string) => {
@@ -766,13 +1475,7 @@ const EditorProjectPage: FC = () => {
         // 1. Save any unsaved content
         const pendingPath = activePathRef.current;
         if (pendingPath && userHash && fileContent) {
-          await writeFile(
-            userHash,
-            projectId,
-            pendingPath,
-            fileContent,
-            encryptionKey ?? undefined
-          );
+          await persistFile(pendingPath, fileContent);
         }
 
         // 2. Flush the OPFS write queue (sync-manager backlog)
@@ -784,8 +1487,9 @@ const EditorProjectPage: FC = () => {
           syncManagerRef.current = null;
         }
 
-        // 4. Kill server process
-        teardownProject(serverProcessRef.current);
+        // 4. Save terminal history, then kill server process + every terminal shell
+        await terminalRef.current?.flushHistory();
+        teardownProject(serverProcessRef.current, terminalRef.current?.shellProcesses ?? []);
         serverProcessRef.current = null;
       } catch (err) {
         console.warn("[flushAndNavigate] Flush error (navigating anyway):", err);
@@ -794,7 +1498,7 @@ const EditorProjectPage: FC = () => {
       // 5. Full page reload — destroys the WebContainer JS heap
       window.location.assign(url);
     },
-    [userHash, projectId, encryptionKey, fileContent, writeQueue]
+    [userHash, fileContent, persistFile, writeQueue]
   );
 
   // ── Auth loading ──
@@ -938,6 +1642,14 @@ const EditorProjectPage: FC = () => {
             </button>
           )}
 
+          <ScriptRunner
+            scripts={packageScripts}
+            onRun={runScript}
+            userHash={userHash ?? ""}
+            projectId={projectId}
+            encryptionKey={encryptionKey ?? undefined}
+          />
+
           {runningScript && (
             <button
               onClick={stopServer}
@@ -966,6 +1678,62 @@ const EditorProjectPage: FC = () => {
             Preview
           </button>
 
+          {/* History (checkpoint timeline) toggle */}
+          <button
+            onClick={() => setShowHistory((v) => !v)}
+            className={`hidden items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors sm:flex ${
+              showHistory
+                ? "border-indigo bg-indigo/10 text-indigo-light"
+                : "border-border-light text-muted hover:text-foreground"
+            }`}
+            title={showHistory ? "Hide history" : "Show history"}
+          >
+            <History className="h-3 w-3" />
+            History
+          </button>
+
+          {/* Processes (process manager) toggle */}
+          <button
+            onClick={() => setShowProcesses((v) => !v)}
+            className={`hidden items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors sm:flex ${
+              showProcesses
+                ? "border-indigo bg-indigo/10 text-indigo-light"
+                : "border-border-light text-muted hover:text-foreground"
+            }`}
+            title={showProcesses ? "Hide processes" : "Show processes"}
+          >
+            <Activity className="h-3 w-3" />
+            Processes
+          </button>
+
+          {/* Dependencies (dependency manager) toggle */}
+          <button
+            onClick={() => setShowDependencies((v) => !v)}
+            className={`hidden items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors sm:flex ${
+              showDependencies
+                ? "border-indigo bg-indigo/10 text-indigo-light"
+                : "border-border-light text-muted hover:text-foreground"
+            }`}
+            title={showDependencies ? "Hide dependencies" : "Show dependencies"}
+          >
+            <Package className="h-3 w-3" />
+            Packages
+          </button>
+
+          {/* Environment variables toggle */}
+          <button
+            onClick={() => setShowEnv((v) => !v)}
+            className={`hidden items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors sm:flex ${
+              showEnv
+                ? "border-indigo bg-indigo/10 text-indigo-light"
+                : "border-border-light text-muted hover:text-foreground"
+            }`}
+            title={showEnv ? "Hide environment variables" : "Show environment variables"}
+          >
+            <KeyRound className="h-3 w-3" />
+            Env
+          </button>
+
           {/* AI Chat toggle */}
           <button
             onClick={() => setShowAIChat((v) => !v)}
@@ -1043,6 +1811,7 @@ const EditorProjectPage: FC = () => {
                   language={monacoLang}
                   theme="brand-dark"
                   beforeMount={handleBeforeMount}
+                  onMount={handleEditorMount}
                   value={fileContent}
                   onChange={handleEditorChange}
                   options={{
@@ -1109,6 +1878,28 @@ const EditorProjectPage: FC = () => {
                   <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
                   Offline Ready
                 </span>
+                {writeQueueStatus.failed > 0 ? (
+                  <button
+                    onClick={() => writeQueue.retryFailed()}
+                    className="flex items-center gap-1 text-red-400 transition-colors hover:text-red-300"
+                    title={`${writeQueueStatus.lastError ?? "Write failed"} — click to retry`}
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    {writeQueueStatus.failed} unsaved
+                  </button>
+                ) : writeQueueStatus.pending > 0 ? (
+                  <span
+                    className="flex items-center gap-1"
+                    title={writeQueueStatus.lastError ? `Retrying — ${writeQueueStatus.lastError}` : undefined}
+                  >
+                    <span
+                      className={`h-1.5 w-1.5 rounded-full animate-pulse ${
+                        writeQueueStatus.lastError ? "bg-red-400" : "bg-amber-400"
+                      }`}
+                    />
+                    Saving {writeQueueStatus.pending}…
+                  </span>
+                ) : null}
                 {activePath && (
                   <span className="capitalize">{monacoLang}</span>
                 )}
@@ -1145,9 +1936,11 @@ const EditorProjectPage: FC = () => {
                     />
                     {rehydrationPhase === "mounting"
                       ? "Mounting…"
-                      : rehydrationPhase === "installing"
-                        ? "Installing…"
-                        : "Install Error"}
+                      : rehydrationPhase === "restoring"
+                        ? "Restoring…"
+                        : rehydrationPhase === "installing"
+                          ? "Installing…"
+                          : "Install Error"}
                   </span>
                 )}
                 {activePorts.length > 0 && (
@@ -1162,8 +1955,19 @@ const EditorProjectPage: FC = () => {
               </div>
             </div>
 
-            {/* WebContainer Terminal */}
-            {wc && <WebTerminal ref={terminalRef} instance={wc} />}
+            {/* WebContainer Terminal — shells need the project's variables */}
+            {wc && projectEnv && (
+              <WebTerminal
+                ref={terminalRef}
+                instance={wc}
+                userHash={userHash ?? ""}
+                projectId={projectId}
+                encryptionKey={encryptionKey ?? undefined}
+                onFixWithAI={handleFixWithAI}
+                listProjectFiles={handleListProjectFiles}
+                onOpenFile={openFileAt}
+              />
+            )}
           </div>
 
           {/* ── Resizable Splitter Handle ── */}
@@ -1206,6 +2010,41 @@ const EditorProjectPage: FC = () => {
           )}
         </div>
 
+        {/* ── Checkpoint timeline ── */}
+        {showHistory && (
+          <CheckpointTimeline
+            checkpoints={checkpoints}
+            busyId={busyCheckpoint}
+            onRevert={handleRevertCheckpoint}
+            onRollback={handleRollbackToCheckpoint}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {/* ── Process manager ── */}
+        {showProcesses && <ProcessPanel onClose={() => setShowProcesses(false)} />}
+
+        {/* ── Dependency manager (needs the mounted project) ── */}
+        {showDependencies && wcMounted && (
+          <DependencyPanel
+            key={projectId}
+            loadDependencies={handleLoadDependencies}
+            onRun={handleDependencyAction}
+            onClose={() => setShowDependencies(false)}
+          />
+        )}
+
+        {/* ── Environment variables ── */}
+        {showEnv && loadedEnv?.projectId === projectId && (
+          <EnvPanel
+            key={projectId}
+            env={loadedEnv.env}
+            loadError={loadedEnv.error}
+            onSave={handleSaveEnv}
+            onClose={() => setShowEnv(false)}
+          />
+        )}
+
         {/* ── AI Chat Sidebar — always mounted so the worker/state survive hide ── */}
         <ChatSidebar
           isOpen={showAIChat}
@@ -1215,10 +2054,26 @@ const EditorProjectPage: FC = () => {
           userHash={userHash ?? ""}
           projectId={projectId}
           encryptionKey={encryptionKey ?? undefined}
-          onApplyFileAction={handleApplyFileAction}
+          onApplyFileActions={handleApplyFileActions}
           readFileContent={handleReadFileContent}
+          getCursorLine={getCursorLine}
+          getTerminalOutput={getTerminalOutput}
+          getPreviewErrors={getPreviewErrors}
+          draft={chatDraft}
         />
       </div>
+
+      {/* ── Editor / container conflict prompt ── */}
+      {conflict && (
+        <ConflictModal
+          conflict={conflict}
+          onResolve={handleResolveConflict}
+          onClose={() => {
+            deferredConflictRef.current = conflict;
+            setConflict(null);
+          }}
+        />
+      )}
     </div>
     </PendingChangeProvider>
     </AIProvider>
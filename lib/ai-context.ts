@@ -2,14 +2,30 @@
  * ai-context.ts — Gather project context for the AI coding agent.
  *
  * Builds a structured context string containing:
- *   1. The project's file tree (names only, no content)
+ *   1. The project's file tree (names only, no content), without what
+ *      its `.gitignore` / `.southstackignore` files exclude (ignore-rules.ts)
  *   2. The content of the currently active file
+ *   3. Anything the user `@`-mentioned (files, folders, terminal output,
+ *      preview errors — see mentions.ts)
+ *   4. Related files — its imports and importers, plus files the prompt
+ *      names (ranked by import-graph.ts)
  *
  * This context is prepended to the user's prompt so the LLM
  * understands the project architecture and can generate accurate
- * file paths and code.
+ * file paths and code. When a token budget is given (see
+ * context-budget.ts) deep folders are collapsed to file counts, the
+ * active file is elided around the cursor and related files are cut or
+ * dropped, lowest-ranked first, so the prompt still fits.
+ *
+ * Environment files (`.env*`) never contribute content — not as the
+ * open file, a mention or a related file.
  */
 
+import { elideAroundCursor, estimateTokens } from "./context-budget";
+import { isEnvFile } from "./env-vars";
+import { filterTree, loadIgnoreRules } from "./ignore-rules";
+import { loadImportGraph, rankRelatedFiles } from "./import-graph";
+import { parseMentions } from "./mentions";
 import { listTree, readFile, type FSNode } from "./opfs";
 
 // ─── Types ──────────────────────────────────────────────────
@@ -19,17 +35,64 @@ export interface AIContext {
   systemContext: string;
   /** Number of files in the project */
   fileCount: number;
+  /** Approximate token count of `systemContext` */
+  tokens: number;
+  /** What had to be trimmed to fit the budget (empty when nothing was) */
+  notes: string[];
+  /** Related files included alongside the active file, in rank order */
+  relatedFiles: string[];
+}
+
+export interface GatherContextOptions {
+  /** Token budget for the whole system prompt; unlimited when omitted */
+  maxTokens?: number;
+  /** 1-based cursor line in the active file — elision keeps lines around it */
+  cursorLine?: number | null;
+  /**
+   * The user's request — `@file` / `@folder/` mentions are included in
+   * full, and file names it merely mentions pull those files in
+   */
+  prompt?: string;
+  /** Text the user pulled in that is not a file, e.g. @terminal output */
+  attachments?: ContextAttachment[];
+}
+
+export interface ContextAttachment {
+  /** Section title, e.g. "Terminal output" */
+  title: string;
+  content: string;
 }
 
+// ─── Constants ──────────────────────────────────────────────
+
+/** Share of the post-tree budget reserved for related files when there are any. */
+const RELATED_SHARE = 0.4;
+
+/** Share of the post-tree budget reserved for mentions when other files compete. */
+const MENTION_SHARE = 0.5;
+
+/** A mentioned or related file is only included if at least this many tokens of it fit. */
+const MIN_SECTION_TOKENS = 120;
+
+/** Files taken from one mentioned folder, in path order. */
+const MAX_FOLDER_FILES = 12;
+
 // ─── Helpers ────────────────────────────────────────────────
 
-/** Recursively flatten the FSNode tree into indented path strings. */
-function renderTree(nodes: FSNode[], indent = ""): string {
+/**
+ * Recursively flatten the FSNode tree into indented path strings.
+ * Directories deeper than `depthLeft` are collapsed to a file count.
+ */
+function renderTree(nodes: FSNode[], indent = "", depthLeft = Infinity): string {
   let result = "";
   for (const node of nodes) {
     if (node.isDirectory) {
+      if (depthLeft <= 0) {
+        result += `${indent}${node.name}/ (${countFiles(node.children)} files)\n`;
+        continue;
+      }
       result += `${indent}${node.name}/\n`;
-      result += renderTree(node.children, indent + "  ");
+      result += renderTree(node.children, indent + "  ", depthLeft - 1);
     } else {
       result += `${indent}${node.name}\n`;
     }
@@ -37,6 +100,59 @@ function renderTree(nodes: FSNode[], indent = ""): string {
   return result;
 }
 
+/** Depth of the deepest directory nesting in the tree. */
+function treeDepth(nodes: FSNode[]): number {
+  let depth = 0;
+  for (const node of nodes) {
+    if (node.isDirectory) depth = Math.max(depth, 1 + treeDepth(node.children));
+  }
+  return depth;
+}
+
+/**
+ * Render the tree within `maxTokens`, collapsing one level at a time
+ * and finally cutting lines off the end.
+ */
+function fitTree(nodes: FSNode[], maxTokens: number): { text: string; note: string | null } {
+  const full = renderTree(nodes).trimEnd();
+  if (estimateTokens(full) <= maxTokens) return { text: full, note: null };
+
+  for (let depth = treeDepth(nodes) - 1; depth >= 0; depth--) {
+    const text = renderTree(nodes, "", depth).trimEnd();
+    if (estimateTokens(text) <= maxTokens) {
+      return { text, note: `File tree: folders below depth ${depth + 1} collapsed` };
+    }
+  }
+
+  const lines = renderTree(nodes, "", 0).trimEnd().split("\n");
+  const kept: string[] = [];
+  let used = estimateTokens("… (more entries omitted)");
+  for (const line of lines) {
+    used += estimateTokens(line) + 1;
+    if (used > maxTokens) break;
+    kept.push(line);
+  }
+  return {
+    text: [...kept, "… (more entries omitted)"].join("\n"),
+    note: `File tree: showing ${kept.length} of ${lines.length} top-level entries`,
+  };
+}
+
+/**
+ * Split `budget` across sections of the given costs so small sections get
+ * all they need and large ones share the rest evenly.
+ */
+function shareBudget(costs: number[], budget: number): number[] {
+  const shares = new Array<number>(costs.length).fill(0);
+  const order = costs.map((_, i) => i).sort((a, b) => costs[a] - costs[b]);
+  let left = budget;
+  order.forEach((i, k) => {
+    shares[i] = Math.min(costs[i], Math.floor(left / (order.length - k)));
+    left -= shares[i];
+  });
+  return shares;
+}
+
 /** Count total files (non-directory) in tree. */
 function countFiles(nodes: FSNode[]): number {
   let count = 0;
@@ -60,21 +176,24 @@ function countFiles(nodes: FSNode[]): number {
  * @param activePath    - Currently open file path (or null)
  * @param activeContent - Content of the currently open file
  * @param encryptionKey - Optional AES-GCM key for OPFS decryption
+ * @param options       - Token budget and cursor position (see GatherContextOptions)
  */
 export async function gatherContext(
   userHash: string,
   projectId: string,
   activePath: string | null,
   activeContent: string,
-  encryptionKey?: CryptoKey
+  encryptionKey?: CryptoKey,
+  options: GatherContextOptions = {}
 ): Promise<AIContext> {
-  // 1. Get the file tree
-  const tree = await listTree(userHash, projectId);
-  const treeStr = renderTree(tree);
+  // 1. Get the file tree, minus ignored files
+  const fullTree = await listTree(userHash, projectId);
+  const rules = await loadIgnoreRules(userHash, projectId, fullTree, encryptionKey);
+  const tree = filterTree(fullTree, rules);
   const fileCount = countFiles(tree);
 
   // 2. Build the context prompt
-  const parts: string[] = [
+  const directives: string[] = [
     // ── Hard directives FIRST so the model sees them before any context ──
     "You are SouthStack Agent, a coding assistant in a local-first browser IDE.",
     "",
@@ -87,39 +206,197 @@ export async function gatherContext(
     "<complete file contents>",
     "```",
     "",
-    "Rules:",
-    "1. ALWAYS use a FILE block for code that belongs in a file — NEVER use a bare code block.",
-    "2. Output the COMPLETE file — never abbreviate with comments like \"// rest of code\".",
-    "3. You may include multiple FILE blocks in one response.",
-    "4. Outside FILE blocks, briefly explain what you changed and why.",
-    "5. If the user only asks a question and no file needs to change, answer normally without FILE blocks.",
+    "For small edits to a large existing file, use a PATCH block instead:",
     "",
-    "## Project file tree",
-    "```",
-    treeStr.trimEnd(),
+    "PATCH: path/to/file.ext",
+    "```language",
+    "<<<<<<< SEARCH",
+    "<exact lines currently in the file>",
+    "=======",
+    "<lines to put in their place>",
+    ">>>>>>> REPLACE",
     "```",
     "",
+    "To delete, move or create folders, put one marker per line:",
+    "",
+    "DELETE: path/to/old-file.ext",
+    "RENAME: path/to/old.ext -> path/to/new.ext",
+    "MKDIR: path/to/folder",
+    "",
+    "Rules:",
+    "1. ALWAYS use a FILE or PATCH block for code that belongs in a file — NEVER use a bare code block.",
+    "2. In a FILE block output the COMPLETE file — never abbreviate with comments like \"// rest of code\".",
+    "3. In a PATCH block each SEARCH section must copy whole existing lines exactly and include enough of them to match only one place; use several SEARCH/REPLACE pairs for several edits.",
+    "4. You may include multiple FILE and PATCH blocks in one response.",
+    "5. Outside FILE / PATCH blocks, briefly explain what you changed and why.",
+    "6. If the user only asks a question and no file needs to change, answer normally without FILE or PATCH blocks.",
+    "",
+  ];
+
+  // 3. Load the import graph — it doubles as a cache of source contents
+  const overrides = new Map<string, string>();
+  if (activePath) overrides.set(activePath, activeContent);
+  const { graph, sources, files } = await loadImportGraph(
+    userHash,
+    projectId,
+    tree,
+    rules,
+    overrides,
+    encryptionKey
+  );
+  const notes: string[] = [];
+
+  // 4. Resolve @-mentioned files and folders (the open file is shown anyway)
+  const mentionedPaths: string[] = [];
+  for (const mention of parseMentions(options.prompt ?? "", files)) {
+    if (mention.kind === "file") {
+      mentionedPaths.push(mention.path);
+    } else if (mention.kind === "folder") {
+      const inFolder = files.filter((f) => f.startsWith(`${mention.path}/`)).sort();
+      if (inFolder.length > MAX_FOLDER_FILES) {
+        notes.push(`@${mention.path}/: first ${MAX_FOLDER_FILES} of ${inFolder.length} files`);
+      }
+      mentionedPaths.push(...inFolder.slice(0, MAX_FOLDER_FILES));
+    }
+  }
+  const mentioned = [...new Set(mentionedPaths)].filter((p) => p !== activePath);
+
+  // 5. Rank related files by the import graph and the prompt's wording
+  const related = rankRelatedFiles(graph, files, activePath, options.prompt ?? "").filter(
+    (r) => !mentioned.includes(r.path)
+  );
+
+  const contents = new Map<string, string>();
+  const unread: string[] = [];
+  for (const path of [...mentioned, ...related.map((r) => r.path)]) {
+    const source = sources.get(path);
+    if (source !== undefined) contents.set(path, source);
+    else unread.push(path);
+  }
+  for (const [path, content] of await readMultipleFiles(userHash, projectId, unread, encryptionKey)) {
+    contents.set(path, content);
+  }
+
+  // Mentioned sections in prompt order: attachments first, then files
+  const mentionSections = [
+    ...(options.attachments ?? []).map((a) => ({
+      header: `### ${a.title}`,
+      content: a.content,
+      // Logs: keep the most recent lines
+      tail: true,
+    })),
+    ...mentioned.flatMap((path) => {
+      const content = contents.get(path);
+      return content === undefined ? [] : [{ header: `### \`${path}\``, content, tail: false }];
+    }),
   ];
 
-  if (activePath && activeContent) {
-    parts.push(
-      `## Currently open file: \`${activePath}\``,
-      "```",
+  // 6. Spend what is left of the budget: the tree may take up to a quarter
+  //    (more if the files are small), then mentions, the open file and
+  //    related files in rank order.
+  const showActive = !!activePath && !!activeContent && !isEnvFile(activePath);
+  if (activePath && isEnvFile(activePath)) notes.push(`${activePath}: withheld (environment file)`);
+  const fileHeader = showActive ? `## Currently open file: \`${activePath}\`` : "";
+  const wrapperCost = estimateTokens("## Project file tree\n```\n```\n\n```\n```\n") + estimateTokens(fileHeader);
+  const rest = (options.maxTokens ?? Infinity) - estimateTokens(directives.join("\n")) - wrapperCost;
+  const fileCost = showActive ? estimateTokens(activeContent) : 0;
+  const sectionCost = (header: string, content: string) =>
+    estimateTokens(header) + estimateTokens(content) + 4;
+  const mentionCosts = mentionSections.map((m) => sectionCost(m.header, m.content));
+  const mentionCost = mentionCosts.reduce((n, c) => n + c, 0);
+  const relatedCost = related.reduce((n, r) => {
+    const content = contents.get(r.path);
+    return content === undefined ? n : n + sectionCost(r.path, content) + 8;
+  }, 0);
+
+  const treeFit = fitTree(
+    tree,
+    Math.max(Math.floor(rest / 4), rest - fileCost - relatedCost - mentionCost)
+  );
+  if (treeFit.note) notes.push(treeFit.note);
+
+  const parts = [...directives, "## Project file tree", "```", treeFit.text, "```", ""];
+  let remaining = rest - estimateTokens(treeFit.text);
+
+  if (mentionSections.length > 0) {
+    const others = fileCost + relatedCost;
+    const mentionBudget =
+      others > 0 ? Math.max(Math.floor(remaining * MENTION_SHARE), remaining - others) : remaining;
+    const shares = shareBudget(mentionCosts, mentionBudget - estimateTokens("## Referenced by the user"));
+    let dropped = 0;
+    parts.push("## Referenced by the user");
+    remaining -= estimateTokens("## Referenced by the user");
+    mentionSections.forEach((section, i) => {
+      const budget = shares[i] - estimateTokens(section.header) - 4;
+      if (budget < Math.min(MIN_SECTION_TOKENS, estimateTokens(section.content))) {
+        dropped++;
+        return;
+      }
+      const label = section.header.replace(/^### /, "").replace(/`/g, "");
+      const lineCount = section.content.split("\n").length;
+      const fit = elideAroundCursor(section.content, section.tail ? lineCount : null, budget, label);
+      if (fit.note) notes.push(fit.note);
+      parts.push(section.header, "```", fit.text, "```", "");
+      remaining -= estimateTokens(section.header) + estimateTokens(fit.text) + 4;
+    });
+    if (dropped > 0) notes.push(`Mentions: ${dropped} left out (no room)`);
+  }
+
+  if (showActive && activePath) {
+    const fileBudget =
+      relatedCost > 0
+        ? Math.max(Math.floor(remaining * (1 - RELATED_SHARE)), remaining - relatedCost)
+        : remaining;
+    const fileFit = elideAroundCursor(
       activeContent,
-      "```",
-      ""
+      options.cursorLine ?? null,
+      fileBudget,
+      activePath
     );
+    if (fileFit.note) notes.push(fileFit.note);
+    parts.push(fileHeader, "```", fileFit.text, "```", "");
+    remaining -= estimateTokens(fileFit.text);
+  }
+
+  const included: string[] = [];
+  let skipped = 0;
+  for (const { path, reason } of related) {
+    const content = contents.get(path);
+    if (content === undefined) continue;
+    const header = `### \`${path}\` (${reason})`;
+    const budget = remaining - estimateTokens(header) - 4;
+    if (budget < Math.min(MIN_SECTION_TOKENS, estimateTokens(content))) {
+      skipped++;
+      continue;
+    }
+    const fit = elideAroundCursor(content, null, budget, path);
+    if (fit.note) notes.push(fit.note);
+    if (included.length === 0) {
+      parts.push("## Related files");
+      remaining -= estimateTokens("## Related files");
+    }
+    parts.push(header, "```", fit.text, "```", "");
+    remaining -= estimateTokens(header) + estimateTokens(fit.text) + 4;
+    included.push(path);
+  }
+  if (skipped > 0) {
+    notes.push(`Related files: ${skipped} left out (no room)`);
   }
 
+  const systemContext = parts.join("\n");
   return {
-    systemContext: parts.join("\n"),
+    systemContext,
     fileCount,
+    tokens: estimateTokens(systemContext),
+    notes,
+    relatedFiles: included,
   };
 }
 
 /**
  * Read and return the content of multiple files for extended context.
- * Useful when the AI needs to see more than just the active file.
+ * Used for mentioned and related files that are not part of the import
+ * graph (styles, JSON, docs).
  */
 export async function readMultipleFiles(
   userHash: string,
@@ -54,6 +54,8 @@ export interface AIEngineState {
   hasGPU: boolean | null;
   /** True if the browser's GPU has enough VRAM for Qwen3-Coder-Next (≥4 GB). */
   hasHighVRAM: boolean | null;
+  /** Context window of the loaded model in tokens (null until known). */
+  contextWindow: number | null;
 }
 
 export interface UseAIEngineReturn extends AIEngineState {
@@ -103,6 +105,7 @@ export function AIProvider({ children }: AIProviderProps) {
     error: null,
     hasGPU: null,
     hasHighVRAM: null,
+    contextWindow: null,
   });
 
   // ── Detect WebGPU + estimate VRAM on mount ──
@@ -173,6 +176,8 @@ export function AIProvider({ children }: AIProviderProps) {
             loadText: "Model ready",
             loadPhase: "standard",
             isFallback: data.fallback === true,
+            contextWindow:
+              typeof data.contextWindow === "number" ? data.contextWindow : null,
             error: null,
           }));
           break;
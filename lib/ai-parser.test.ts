@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPatch,
+  PatchApplyError,
+  simulateActions,
+  simulationSources,
+  type FileAction,
+  type PatchFileAction,
+} from "./ai-parser";
+
+function patch(path: string, ...hunks: Array<[string, string]>): PatchFileAction {
+  return { kind: "patch", path, hunks: hunks.map(([search, replace]) => ({ search, replace })) };
+}
+
+describe("applyPatch", () => {
+  it("replaces an exact whole-line match", () => {
+    const file = "a\nb\nc";
+    expect(applyPatch(file, patch("f", ["b", "B"]))).toBe("a\nB\nc");
+  });
+
+  it("ignores blank lines around the SEARCH text", () => {
+    const file = "a\nb\nc";
+    expect(applyPatch(file, patch("f", ["\nb\n\n", "B"]))).toBe("a\nB\nc");
+  });
+
+  it("falls back to a whitespace-insensitive match and re-indents the replacement", () => {
+    const file = "function f() {\n    return  1;\n}";
+    const result = applyPatch(file, patch("f", ["  return 1;", "  return 2;\n  // done"]));
+    expect(result).toBe("function f() {\n    return 2;\n    // done\n}");
+  });
+
+  it("does not match part of a line", () => {
+    expect(() => applyPatch("const value = 1;", patch("f", ["value", "x"]))).toThrow(
+      PatchApplyError
+    );
+  });
+
+  it("rejects an anchor that matches more than once", () => {
+    expect(() => applyPatch("x\ny\nx", patch("f", ["x", "z"]))).toThrow(/matches 2 places/);
+  });
+
+  it("rejects an ambiguous whitespace-insensitive anchor", () => {
+    expect(() => applyPatch("  x\n    x", patch("f", ["x ", "z"]))).toThrow(/matches 2 places/);
+  });
+
+  it("accepts an empty anchor only for an empty file", () => {
+    expect(applyPatch("", patch("f", ["", "new"]))).toBe("new");
+    expect(() => applyPatch("old", patch("f", ["", "new"]))).toThrow(/is empty/);
+  });
+
+  it("applies each hunk to the result of the previous one", () => {
+    expect(applyPatch("a\nb", patch("f", ["a", "b0"], ["b0\nb", "c"]))).toBe("c");
+  });
+
+  it("reports which hunk failed", () => {
+    try {
+      applyPatch("a", patch("f", ["a", "b"], ["missing", "x"]));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PatchApplyError);
+      expect((err as PatchApplyError).hunkIndex).toBe(1);
+    }
+  });
+});
+
+describe("simulateActions", () => {
+  const files: Record<string, string> = { "src/a.ts": "one\ntwo", "src/lib/b.ts": "bee" };
+  const original = (path: string) => files[path] ?? "";
+
+  it("patches a file created earlier in the same response", () => {
+    const actions: FileAction[] = [
+      { kind: "write", path: "new.ts", content: "x\ny" },
+      patch("new.ts", ["y", "z"]),
+    ];
+    expect(simulateActions(actions, original)[1]).toEqual({ before: "x\ny", after: "x\nz" });
+  });
+
+  it("applies a second PATCH on top of the first", () => {
+    const actions: FileAction[] = [patch("src/a.ts", ["one", "uno"]), patch("src/a.ts", ["uno", "1"])];
+    expect(simulateActions(actions, original)).toEqual([
+      { before: "one\ntwo", after: "uno\ntwo" },
+      { before: "uno\ntwo", after: "1\ntwo" },
+    ]);
+  });
+
+  it("follows file and directory renames", () => {
+    const actions: FileAction[] = [
+      { kind: "rename", path: "src/a.ts", newPath: "src/c.ts" },
+      patch("src/c.ts", ["two", "2"]),
+      { kind: "rename", path: "src/lib", newPath: "lib" },
+      patch("lib/b.ts", ["bee", "b"]),
+    ];
+    const steps = simulateActions(actions, original);
+    expect(steps[1]).toEqual({ before: "one\ntwo", after: "one\n2" });
+    expect(steps[3]).toEqual({ before: "bee", after: "b" });
+    expect(simulationSources(actions)).toEqual(["src/a.ts", "src/lib/b.ts"]);
+  });
+
+  it("treats a renamed-away or deleted path as empty", () => {
+    const actions: FileAction[] = [
+      { kind: "rename", path: "src/a.ts", newPath: "src/c.ts" },
+      patch("src/a.ts", ["one", "1"]),
+      { kind: "delete", path: "src/lib" },
+      { kind: "write", path: "src/lib/b.ts", content: "new" },
+    ];
+    const steps = simulateActions(actions, original);
+    expect(steps[1]).toMatchObject({ error: expect.stringMatching(/not found/) });
+    expect(steps[3]).toEqual({ before: "", after: "new" });
+  });
+
+  it("lets actions after a failed PATCH see the content without it", () => {
+    const actions: FileAction[] = [patch("src/a.ts", ["missing", "x"]), patch("src/a.ts", ["one", "1"])];
+    const steps = simulateActions(actions, original);
+    expect(steps[0]).toHaveProperty("error");
+    expect(steps[1]).toEqual({ before: "one\ntwo", after: "1\ntwo" });
+  });
+
+  it("returns null for structural actions", () => {
+    expect(simulateActions([{ kind: "mkdir", path: "d" }], original)).toEqual([null]);
+  });
+});
@@ -2,10 +2,12 @@
  * ai-parser.ts — Parse AI-generated responses for file operations.
  *
  * The AI agent uses a `FILE: <path>` marker followed by a fenced code
- * block to indicate file writes. This parser extracts those into a list
- * of { path, content } objects the caller can apply to the file system.
+ * block to indicate full file writes, and a `PATCH: <path>` marker
+ * followed by one or more SEARCH/REPLACE hunks to indicate targeted
+ * edits. This parser extracts both into a list of FileAction objects
+ * the caller can apply to the file system.
  *
- * Supported format:
+ * Supported formats:
  *
  *   FILE: src/App.jsx
  *   ```jsx
@@ -13,22 +15,88 @@
  *   export default function App() { return <h1>Hello</h1>; }
  *   ```
  *
- * Multiple FILE blocks can appear in a single response.
- * Any text outside FILE blocks is treated as plain chat and returned
- * as the `explanation` field.
+ *   PATCH: src/App.jsx
+ *   ```jsx
+ *   <<<<<<< SEARCH
+ *   return <h1>Hello</h1>;
+ *   =======
+ *   return <h1>Hello, world</h1>;
+ *   >>>>>>> REPLACE
+ *   ```
+ *
+ * Structural changes use single-line markers:
+ *
+ *   DELETE: src/legacy.js
+ *   RENAME: src/App.jsx -> src/App.tsx
+ *   MKDIR: src/components
+ *
+ * Multiple FILE / PATCH blocks and markers can appear in a single
+ * response. Any text outside them is treated as plain chat and
+ * returned as the `explanation` field.
  */
 
 // ─── Types ──────────────────────────────────────────────────
 
-export interface FileAction {
+/** Full rewrite: replace the file's content (creating it if needed). */
+export interface WriteFileAction {
+  kind: "write";
   /** Project-relative path, e.g. "src/App.jsx" */
   path: string;
   /** Full file content to write */
   content: string;
 }
 
+/** One SEARCH/REPLACE pair inside a PATCH block. */
+export interface PatchHunk {
+  /** Text that must already exist in the file (the anchor). */
+  search: string;
+  /** Text that replaces the anchor. */
+  replace: string;
+}
+
+/** Targeted edit: apply each hunk in order to the file's current content. */
+export interface PatchFileAction {
+  kind: "patch";
+  /** Project-relative path, e.g. "src/App.jsx" */
+  path: string;
+  /** Ordered SEARCH/REPLACE hunks */
+  hunks: PatchHunk[];
+}
+
+/** Remove a file or directory (recursive). */
+export interface DeleteFileAction {
+  kind: "delete";
+  /** Project-relative path to remove */
+  path: string;
+}
+
+/** Move a file or directory to a new path. */
+export interface RenameFileAction {
+  kind: "rename";
+  /** Current project-relative path */
+  path: string;
+  /** Destination project-relative path */
+  newPath: string;
+}
+
+/** Create an (empty) directory, including any missing parents. */
+export interface MkdirFileAction {
+  kind: "mkdir";
+  /** Project-relative directory path */
+  path: string;
+}
+
+export type FileAction =
+  | WriteFileAction
+  | PatchFileAction
+  | DeleteFileAction
+  | RenameFileAction
+  | MkdirFileAction;
+
+export type FileActionKind = FileAction["kind"];
+
 export interface ParsedResponse {
-  /** Plain-text explanation (everything outside FILE blocks) */
+  /** Plain-text explanation (everything outside FILE / PATCH blocks) */
   explanation: string;
   /** Ordered list of file write actions extracted from the response */
   actions: FileAction[];
@@ -36,28 +104,122 @@ export interface ParsedResponse {
 
 // ─── Parser ─────────────────────────────────────────────────
 
+/** Header line of a PATCH block (same tolerances as the FILE header). */
+const PATCH_HEADER_RE = /\*{0,2}`?PATCH:?`?\*{0,2}[:\s]\s*`?(.+?)`?\s*\n/g;
+
+/** Start of the next header or marker — bounds a PATCH block's body. */
+const NEXT_HEADER_RE = /^[ \t]*\*{0,2}`?(?:FILE|PATCH|DELETE|RENAME|MKDIR):/m;
+
+/**
+ * Single-line structural markers. The colon is mandatory so prose such
+ * as "Delete the old file" is never mistaken for an action. RENAME
+ * accepts `->`, `=>` or `→` between the two paths.
+ */
+const MARKER_RE =
+  /^[ \t]*\*{0,2}`?(DELETE|RENAME|MKDIR):`?\*{0,2}[ \t]*`?([^`\n]+?)`?(?:[ \t]*(?:->|=>|→)[ \t]*`?([^`\n]+?)`?)?[ \t]*$/gm;
+
+const SEARCH_MARKER_RE = /^\s*<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER_RE = /^\s*={5,}\s*$/;
+const REPLACE_MARKER_RE = /^\s*>{5,}\s*REPLACE\s*$/;
+const FENCE_LINE_RE = /^\s*```[a-zA-Z]*\s*$/;
+
+/**
+ * Build the action for a DELETE / RENAME / MKDIR marker, or null when
+ * the marker is malformed (RENAME without a destination, or an arrow
+ * on a DELETE / MKDIR line).
+ */
+function markerAction(
+  marker: string,
+  rawPath: string,
+  rawTarget: string | undefined
+): FileAction | null {
+  const path = rawPath.trim();
+  if (marker === "RENAME") {
+    return rawTarget ? { kind: "rename", path, newPath: rawTarget.trim() } : null;
+  }
+  if (rawTarget) return null;
+  return { kind: marker === "DELETE" ? "delete" : "mkdir", path };
+}
+
+/**
+ * Split a PATCH block body into SEARCH/REPLACE hunks.
+ *
+ * Works line-by-line so markers may carry stray indentation, and
+ * returns the offset just past the last REPLACE marker (plus an
+ * optional closing fence) so the caller knows where the block ends.
+ * Incomplete hunks (no REPLACE marker yet) are ignored.
+ */
+function parsePatchBody(body: string): { hunks: PatchHunk[]; end: number } {
+  const hunks: PatchHunk[] = [];
+  let state: "outside" | "search" | "replace" = "outside";
+  let search: string[] = [];
+  let replace: string[] = [];
+  let offset = 0;
+  let end = 0;
+
+  for (const line of body.split("\n")) {
+    const lineEnd = Math.min(offset + line.length + 1, body.length);
+
+    if (state === "outside") {
+      if (SEARCH_MARKER_RE.test(line)) {
+        state = "search";
+        search = [];
+        replace = [];
+      } else if (hunks.length > 0 && end === offset && FENCE_LINE_RE.test(line)) {
+        // Closing fence right after the last hunk belongs to the block
+        end = lineEnd;
+      }
+    } else if (state === "search") {
+      if (DIVIDER_MARKER_RE.test(line)) state = "replace";
+      else search.push(line);
+    } else if (REPLACE_MARKER_RE.test(line)) {
+      hunks.push({ search: search.join("\n"), replace: replace.join("\n") });
+      state = "outside";
+      end = lineEnd;
+    } else {
+      replace.push(line);
+    }
+
+    offset += line.length + 1;
+  }
+
+  return { hunks, end };
+}
+
 /**
  * Parse an AI response string and extract file actions.
  *
  * Primary regex matches the canonical format:
  *   FILE: <path>\n```<optional-lang>\n<content>\n```
  *
+ * PATCH blocks are located by their header line; the body runs until
+ * the next FILE / PATCH header and must contain at least one complete
+ * `<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE` hunk. The hunks may
+ * optionally be wrapped in a code fence.
+ *
+ * DELETE / RENAME / MKDIR markers are matched one line at a time.
+ *
  * It also tolerates common deviations from small LLMs:
  *   - Extra blank lines between FILE: and the fence
  *   - Markdown bold around FILE (**FILE:** or `FILE:`)
  *   - Path wrapped in backticks (`src/index.js`)
  *
- * If no FILE blocks are found but the response contains a fenced code
- * block AND a fallbackPath is provided, the largest code block is
- * treated as a file action targeting that path. This ensures the
- * Accept/Reject flow still works even when the model ignores the
+ * If no actions at all are found but the response contains a
+ * fenced code block AND a fallbackPath is provided, the largest code
+ * block is treated as a file action targeting that path. This ensures
+ * the Accept/Reject flow still works even when the model ignores the
  * FILE: format instruction.
  */
 export function parseAIResponse(
   raw: string,
   fallbackPath?: string | null,
 ): ParsedResponse {
-  const actions: FileAction[] = [];
+  // Actions are collected with their source offset so FILE and PATCH
+  // blocks come back in the order the model wrote them.
+  const found: Array<{ index: number; action: FileAction }> = [];
+  // Spans already claimed by FILE / PATCH blocks — markers inside them
+  // are file content, not actions.
+  const claimed: Array<[number, number]> = [];
 
   // Primary: tolerant FILE block regex
   // Allows optional markdown bold/backtick around "FILE", optional backticks
@@ -73,15 +235,59 @@ export function parseAIResponse(
     const content = match[2];
 
     // Remove trailing newline from content if present
-    actions.push({
-      path,
-      content: content.endsWith("\n") ? content.slice(0, -1) : content,
+    found.push({
+      index: match.index,
+      action: {
+        kind: "write",
+        path,
+        content: content.endsWith("\n") ? content.slice(0, -1) : content,
+      },
     });
 
     // Strip the matched block from explanation
     explanation = explanation.replace(match[0], "");
+    claimed.push([match.index, match.index + match[0].length]);
+  }
+
+  // PATCH blocks: header regex, then a line-based hunk scan of the body
+  PATCH_HEADER_RE.lastIndex = 0;
+  while ((match = PATCH_HEADER_RE.exec(raw)) !== null) {
+    const bodyStart = match.index + match[0].length;
+    const rest = raw.slice(bodyStart);
+    const next = NEXT_HEADER_RE.exec(rest);
+    const body = next ? rest.slice(0, next.index) : rest;
+    const { hunks, end } = parsePatchBody(body);
+
+    // "PATCH" mentioned in prose without any hunks is just text
+    if (hunks.length === 0) continue;
+
+    found.push({
+      index: match.index,
+      action: { kind: "patch", path: match[1].trim(), hunks },
+    });
+    explanation = explanation.replace(match[0] + body.slice(0, end), "");
+    claimed.push([match.index, bodyStart + end]);
+    PATCH_HEADER_RE.lastIndex = bodyStart + end;
+  }
+
+  // Structural markers: DELETE / RENAME / MKDIR
+  MARKER_RE.lastIndex = 0;
+  while ((match = MARKER_RE.exec(raw)) !== null) {
+    const at = match.index;
+    if (claimed.some(([from, to]) => at >= from && at < to)) continue;
+
+    const [full, marker, rawPath, rawTarget] = match;
+    const action = markerAction(marker, rawPath, rawTarget);
+    if (!action) continue;
+
+    found.push({ index: match.index, action });
+    explanation = explanation.replace(full, "");
   }
 
+  const actions = found
+    .sort((a, b) => a.index - b.index)
+    .map((f) => f.action);
+
   // ── Fallback: bare code block → file action for the active file ──────
   // If the model didn't use FILE: at all but output a fenced code block,
   // treat the largest one as a file write to fallbackPath.
@@ -96,6 +302,7 @@ export function parseAIResponse(
     }
     if (best && best.content.trim().length > 0) {
       actions.push({
+        kind: "write",
         path: fallbackPath,
         content: best.content.endsWith("\n")
           ? best.content.slice(0, -1)
@@ -113,55 +320,496 @@ export function parseAIResponse(
   return { explanation, actions };
 }
 
+// ─── Streaming Parser ───────────────────────────────────────
+
+/** Events emitted by StreamingActionParser as tokens arrive. */
+export type StreamEvent =
+  /** Plain explanation text (one line at a time, newline included). */
+  | { type: "text"; text: string }
+  /** A FILE / PATCH block has begun, or a marker line was seen. */
+  | { type: "file-started"; path: string; kind: FileActionKind }
+  /** A line of a block's body (file content, or raw hunk text for PATCH). */
+  | { type: "chunk"; path: string; kind: FileActionKind; text: string }
+  /** A block closed (or a marker line ended) — the action is final. */
+  | { type: "file-completed"; action: FileAction };
+
+// Line-anchored variants of the block headers used by parseAIResponse
+const FILE_HEADER_LINE_RE = /^\s*\*{0,2}`?FILE:?`?\*{0,2}[:\s]\s*`?(.+?)`?\s*$/;
+const PATCH_HEADER_LINE_RE = /^\s*\*{0,2}`?PATCH:?`?\*{0,2}[:\s]\s*`?(.+?)`?\s*$/;
+const MARKER_LINE_RE = new RegExp(MARKER_RE.source);
+const CLOSING_FENCE_RE = /^\s*```\s*$/;
+
+/** Blank lines tolerated between a FILE header and its opening fence. */
+const MAX_HEADER_GAP = 3;
+
+type StreamState =
+  | { mode: "text" }
+  /** FILE header seen, waiting for the opening fence. */
+  | { mode: "file-header"; path: string; held: string[] }
+  | { mode: "file-body"; path: string; lines: string[] }
+  | {
+      mode: "patch";
+      path: string;
+      /** Raw lines kept in case the header turns out to be prose. */
+      held: string[];
+      started: boolean;
+      hunks: PatchHunk[];
+      section: "outside" | "search" | "replace";
+      search: string[];
+      replace: string[];
+    };
+
 /**
- * Generate a simple unified diff between two strings.
- * Used for the Accept/Reject UI.
+ * Incremental, line-oriented counterpart of parseAIResponse.
+ *
+ * Feed raw tokens with `push()`; every complete line advances a small
+ * state machine and returns the events it produced, so the UI can show
+ * per-file progress while the model is still generating. Call `end()`
+ * when the stream stops (normally or because it was cancelled) — blocks
+ * that were fully received are kept, half-written ones are dropped.
+ *
+ * The grammar matches parseAIResponse, except that a FILE block must
+ * close with a fence on its own line and there is no bare-code-block
+ * fallback (that needs the whole response).
  */
-export function simpleDiff(
-  oldContent: string,
-  newContent: string,
-  filename: string
+export class StreamingActionParser {
+  private buffer = "";
+  private state: StreamState = { mode: "text" };
+  private completed: FileAction[] = [];
+  private text = "";
+  private ended = false;
+
+  /** Feed the next token(s). Returns the events produced by complete lines. */
+  push(token: string): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    if (this.ended) return events;
+    this.buffer += token;
+
+    let nl: number;
+    while ((nl = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, nl);
+      this.buffer = this.buffer.slice(nl + 1);
+      this.processLine(line, events);
+    }
+    return events;
+  }
+
+  /**
+   * Flush the trailing partial line and close the stream. Safe to call
+   * more than once; later calls return no events.
+   */
+  end(): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    if (this.ended) return events;
+
+    if (this.buffer !== "") {
+      this.processLine(this.buffer, events);
+      this.buffer = "";
+    }
+
+    const state = this.state;
+    if (state.mode === "file-header") {
+      this.emitText(state.held, events);
+    } else if (
+      state.mode === "patch" &&
+      state.section === "outside" &&
+      state.hunks.length > 0
+    ) {
+      this.complete({ kind: "patch", path: state.path, hunks: state.hunks }, events);
+    } else if (state.mode === "patch" && state.hunks.length === 0) {
+      this.emitText(state.held, events);
+    }
+    // An unterminated FILE body or a half-written hunk is dropped
+
+    this.state = { mode: "text" };
+    this.ended = true;
+    return events;
+  }
+
+  /** Actions whose blocks have been fully received so far. */
+  get actions(): FileAction[] {
+    return [...this.completed];
+  }
+
+  /** Snapshot of everything parsed so far, in parseAIResponse's shape. */
+  result(): ParsedResponse {
+    return {
+      explanation: this.text.replace(/\n{3,}/g, "\n\n").trim(),
+      actions: this.actions,
+    };
+  }
+
+  // ── Internal ──────────────────────────────────────────────
+
+  private processLine(line: string, events: StreamEvent[]): void {
+    const state = this.state;
+
+    switch (state.mode) {
+      case "text": {
+        let m: RegExpExecArray | null;
+        if ((m = MARKER_LINE_RE.exec(line))) {
+          const action = markerAction(m[1], m[2], m[3]);
+          if (action) {
+            events.push({ type: "file-started", path: action.path, kind: action.kind });
+            this.complete(action, events);
+            return;
+          }
+        }
+        if ((m = FILE_HEADER_LINE_RE.exec(line))) {
+          this.state = { mode: "file-header", path: m[1].trim(), held: [line] };
+          return;
+        }
+        if ((m = PATCH_HEADER_LINE_RE.exec(line))) {
+          this.state = {
+            mode: "patch",
+            path: m[1].trim(),
+            held: [line],
+            started: false,
+            hunks: [],
+            section: "outside",
+            search: [],
+            replace: [],
+          };
+          return;
+        }
+        this.emitText([line], events);
+        return;
+      }
+
+      case "file-header": {
+        if (FENCE_LINE_RE.test(line)) {
+          this.state = { mode: "file-body", path: state.path, lines: [] };
+          events.push({ type: "file-started", path: state.path, kind: "write" });
+        } else if (line.trim() === "" && state.held.length <= MAX_HEADER_GAP) {
+          state.held.push(line);
+        } else {
+          // Not a FILE block after all — the header was prose
+          this.emitText(state.held, events);
+          this.state = { mode: "text" };
+          this.processLine(line, events);
+        }
+        return;
+      }
+
+      case "file-body": {
+        if (CLOSING_FENCE_RE.test(line)) {
+          this.complete(
+            { kind: "write", path: state.path, content: state.lines.join("\n") },
+            events
+          );
+        } else {
+          state.lines.push(line);
+          events.push({ type: "chunk", path: state.path, kind: "write", text: line + "\n" });
+        }
+        return;
+      }
+
+      case "patch": {
+        if (state.section === "search") {
+          if (DIVIDER_MARKER_RE.test(line)) state.section = "replace";
+          else state.search.push(line);
+          events.push({ type: "chunk", path: state.path, kind: "patch", text: line + "\n" });
+          return;
+        }
+        if (state.section === "replace") {
+          if (REPLACE_MARKER_RE.test(line)) {
+            state.hunks.push({
+              search: state.search.join("\n"),
+              replace: state.replace.join("\n"),
+            });
+            state.section = "outside";
+          } else {
+            state.replace.push(line);
+          }
+          events.push({ type: "chunk", path: state.path, kind: "patch", text: line + "\n" });
+          return;
+        }
+
+        // Between hunks
+        if (SEARCH_MARKER_RE.test(line)) {
+          if (!state.started) {
+            state.started = true;
+            events.push({ type: "file-started", path: state.path, kind: "patch" });
+          }
+          state.section = "search";
+          state.search = [];
+          state.replace = [];
+          events.push({ type: "chunk", path: state.path, kind: "patch", text: line + "\n" });
+        } else if (FENCE_LINE_RE.test(line) || line.trim() === "") {
+          state.held.push(line);
+        } else {
+          // Anything else ends the block (or shows it was prose)
+          if (state.hunks.length > 0) {
+            this.complete({ kind: "patch", path: state.path, hunks: state.hunks }, events);
+          } else {
+            this.emitText(state.held, events);
+            this.state = { mode: "text" };
+          }
+          this.processLine(line, events);
+        }
+        return;
+      }
+    }
+  }
+
+  private complete(action: FileAction, events: StreamEvent[]): void {
+    this.completed.push(action);
+    this.state = { mode: "text" };
+    events.push({ type: "file-completed", action });
+  }
+
+  private emitText(lines: string[], events: StreamEvent[]): void {
+    for (const line of lines) {
+      const text = line + "\n";
+      this.text += text;
+      events.push({ type: "text", text });
+    }
+  }
+}
+
+// ─── Patch Application ──────────────────────────────────────
+
+/** Thrown when a PATCH hunk cannot be applied to the current content. */
+export class PatchApplyError extends Error {
+  /** File the patch targets. */
+  path: string;
+  /** Zero-based index of the hunk that failed. */
+  hunkIndex: number;
+
+  constructor(path: string, hunkIndex: number, message: string) {
+    super(message);
+    this.name = "PatchApplyError";
+    this.path = path;
+    this.hunkIndex = hunkIndex;
+  }
+}
+
+/** Whitespace-insensitive form of a line used for fuzzy anchor matching. */
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+function leadingWhitespace(line: string): string {
+  return /^\s*/.exec(line)?.[0] ?? "";
+}
+
+/** Start indices where `wanted` matches a run of `lines` under `same`. */
+function findLineMatches(
+  lines: string[],
+  wanted: string[],
+  same: (line: string, want: string) => boolean
+): number[] {
+  const matches: number[] = [];
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (wanted.every((want, j) => same(lines[i + j], want))) matches.push(i);
+  }
+  return matches;
+}
+
+/**
+ * Apply a single hunk. The SEARCH text is matched against whole lines:
+ * exactly first, then ignoring indentation and runs of whitespace. On a
+ * fuzzy match the replacement is re-indented by the difference between
+ * the file's indentation and the SEARCH text's. An anchor that matches
+ * in more than one place is an error rather than a guess.
+ */
+function applyHunk(
+  content: string,
+  hunk: PatchHunk,
+  path: string,
+  hunkIndex: number
 ): string {
-  const oldLines = oldContent.split("\n");
-  const newLines = newContent.split("\n");
-
-  const lines: string[] = [
-    `--- a/${filename}`,
-    `+++ b/${filename}`,
-  ];
-
-  // Simple line-by-line diff (not optimized, but good enough for UI)
-  const maxLen = Math.max(oldLines.length, newLines.length);
-  let chunkStart = -1;
-  let chunkOld: string[] = [];
-  let chunkNew: string[] = [];
-
-  function flushChunk() {
-    if (chunkOld.length === 0 && chunkNew.length === 0) return;
-    lines.push(
-      `@@ -${chunkStart + 1},${chunkOld.length} +${chunkStart + 1},${chunkNew.length} @@`
+  const label = `SEARCH block ${hunkIndex + 1}`;
+
+  // Empty anchor: only meaningful for a new / empty file
+  if (hunk.search.trim() === "") {
+    if (content.trim() === "") return hunk.replace;
+    throw new PatchApplyError(
+      path,
+      hunkIndex,
+      `${label} in ${path} is empty but the file already has content.`
     );
-    for (const l of chunkOld) lines.push(`- ${l}`);
-    for (const l of chunkNew) lines.push(`+ ${l}`);
-    chunkOld = [];
-    chunkNew = [];
-    chunkStart = -1;
   }
 
-  for (let i = 0; i < maxLen; i++) {
-    const ol = i < oldLines.length ? oldLines[i] : undefined;
-    const nl = i < newLines.length ? newLines[i] : undefined;
+  // Ignore leading/trailing blank lines of the anchor
+  const searchLines = hunk.search.split("\n");
+  while (searchLines.length > 0 && searchLines[0].trim() === "") searchLines.shift();
+  while (searchLines.length > 0 && searchLines[searchLines.length - 1].trim() === "")
+    searchLines.pop();
 
-    if (ol === nl) {
-      flushChunk();
-      lines.push(`  ${ol ?? ""}`);
-    } else {
-      if (chunkStart === -1) chunkStart = i;
-      if (ol !== undefined) chunkOld.push(ol);
-      if (nl !== undefined) chunkNew.push(nl);
+  const lines = content.split("\n");
+  const replaceLines = hunk.replace === "" ? [] : hunk.replace.split("\n");
+  const splice = (at: number, replaced: string[]) =>
+    [...lines.slice(0, at), ...replaced, ...lines.slice(at + searchLines.length)].join("\n");
+  const ambiguous = (count: number) =>
+    new PatchApplyError(
+      path,
+      hunkIndex,
+      `${label} matches ${count} places in ${path} — it needs more context to be unambiguous.`
+    );
+
+  // 1. Exact line match
+  const exact = findLineMatches(lines, searchLines, (line, want) => line === want);
+  if (exact.length > 1) throw ambiguous(exact.length);
+  if (exact.length === 1) return splice(exact[0], replaceLines);
+
+  // 2. Whitespace-normalised line match
+  const wanted = searchLines.map(normalizeLine);
+  const fuzzy = findLineMatches(lines, wanted, (line, want) => normalizeLine(line) === want);
+  if (fuzzy.length > 1) throw ambiguous(fuzzy.length);
+  if (fuzzy.length === 1) {
+    const fileIndent = leadingWhitespace(lines[fuzzy[0]]);
+    const searchIndent = leadingWhitespace(searchLines[0]);
+    return splice(
+      fuzzy[0],
+      replaceLines.map((l) =>
+        l.startsWith(searchIndent) ? fileIndent + l.slice(searchIndent.length) : l
+      )
+    );
+  }
+
+  throw new PatchApplyError(
+    path,
+    hunkIndex,
+    `${label} was not found in ${path}.`
+  );
+}
+
+/**
+ * Apply every hunk of a PATCH action, in order, to `original`.
+ * Each hunk sees the output of the previous one.
+ *
+ * @throws PatchApplyError if any SEARCH anchor cannot be located
+ */
+export function applyPatch(original: string, action: PatchFileAction): string {
+  return action.hunks.reduce(
+    (content, hunk, i) => applyHunk(content, hunk, action.path, i),
+    original
+  );
+}
+
+/**
+ * Content a path would have after `action`, given its `current`
+ * content. Non-content actions (rename, mkdir) return `current`.
+ * Throws PatchApplyError when a PATCH no longer matches.
+ */
+export function proposedContent(action: FileAction, current: string): string {
+  switch (action.kind) {
+    case "write":
+      return action.content;
+    case "patch":
+      return applyPatch(current, action);
+    case "delete":
+      return "";
+    default:
+      return current;
+  }
+}
+
+// ─── Dry Run ────────────────────────────────────────────────
+
+/**
+ * One action of a `simulateActions` run: the content a write/patch
+ * target has before and after it, the error of a PATCH that doesn't
+ * apply, or null for delete / rename / mkdir.
+ */
+export type SimulatedAction =
+  | { before: string; after: string }
+  | { error: string }
+  | null;
+
+/** Whether `path` is `dir` itself or lies inside it. */
+function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(`${dir}/`);
+}
+
+/**
+ * Follow `path` back through `actions[0..upto)`: the index of the
+ * action that last wrote it (as judged by `wrote`), or the path it had
+ * before any of them ran. Null if it was deleted or moved away, i.e.
+ * it starts out empty.
+ */
+function tracePath(
+  actions: FileAction[],
+  upto: number,
+  path: string,
+  wrote: (index: number) => boolean
+): { written: number } | { original: string } | null {
+  let p = path;
+  for (let i = upto - 1; i >= 0; i--) {
+    const action = actions[i];
+    if ((action.kind === "write" || action.kind === "patch") && action.path === p) {
+      if (wrote(i)) return { written: i };
+    } else if (action.kind === "delete" && isWithin(p, action.path)) {
+      return null;
+    } else if (action.kind === "rename") {
+      if (isWithin(p, action.newPath)) p = action.path + p.slice(action.newPath.length);
+      else if (isWithin(p, action.path)) return null;
     }
   }
-  flushChunk();
+  return { original: p };
+}
+
+/**
+ * Paths whose current content a `simulateActions` run of `actions`
+ * needs — the write/patch targets, followed back through renames.
+ */
+export function simulationSources(actions: FileAction[]): string[] {
+  const sources = new Set<string>();
+  actions.forEach((action, i) => {
+    if (action.kind !== "write" && action.kind !== "patch") return;
+    const traced = tracePath(actions, i, action.path, () => false);
+    if (traced && "original" in traced) sources.add(traced.original);
+  });
+  return [...sources];
+}
 
-  return lines.join("\n");
+/**
+ * Dry-run `actions` in order against `original` (the current content of
+ * a path, "" if it doesn't exist), so each one sees what the earlier
+ * ones did: a PATCH after a RENAME patches the moved file, and a second
+ * PATCH of a file applies on top of the first. A PATCH that fails
+ * changes nothing for the actions after it.
+ */
+export function simulateActions(
+  actions: FileAction[],
+  original: (path: string) => string
+): SimulatedAction[] {
+  const steps: SimulatedAction[] = [];
+  actions.forEach((action, i) => {
+    if (action.kind !== "write" && action.kind !== "patch") {
+      steps.push(null);
+      return;
+    }
+    const before = contentFrom(actions, steps, i, action.path, original);
+    try {
+      steps.push({ before, after: proposedContent(action, before) });
+    } catch (err) {
+      steps.push({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  return steps;
+}
+
+/** Content `path` has after all of `actions`, given `original` as in `simulateActions`. */
+export function contentAfterActions(
+  actions: FileAction[],
+  path: string,
+  original: (path: string) => string
+): string {
+  return contentFrom(actions, simulateActions(actions, original), actions.length, path, original);
+}
+
+function contentFrom(
+  actions: FileAction[],
+  steps: SimulatedAction[],
+  upto: number,
+  path: string,
+  original: (path: string) => string
+): string {
+  const traced = tracePath(actions, upto, path, (i) => steps[i] !== null && "after" in steps[i]);
+  if (!traced) return "";
+  if ("original" in traced) return original(traced.original);
+  const step = steps[traced.written];
+  return step && "after" in step ? step.after : "";
 }
@@ -0,0 +1,150 @@
+/**
+ * Chat threads — persisted AI conversations, per project.
+ *
+ * Each project can hold several named threads. A thread is stored as one
+ * JSON file, encrypted with the same AES-GCM key as project files, in the
+ * project's metadata directory:
+ *
+ *   OPFS root / <userHash> / .chats / <projectId> / <threadId>.json
+ *
+ * Only settled messages are meant to be saved — the caller strips the
+ * transient streaming flag before handing a thread over.
+ */
+
+import type { FileAction } from "./ai-parser";
+import {
+  deleteMetaJson,
+  deleteProjectMeta,
+  listMetaJson,
+  readMetaJson,
+  writeMetaJson,
+} from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface ChatThreadMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Parsed file actions from the assistant's response */
+  actions?: FileAction[];
+  /** Which actions have been accepted/rejected, or failed to apply (by index into `actions`) */
+  actionStatus?: Record<number, "accepted" | "rejected" | "failed">;
+  /** Why an action could not be applied — a PATCH anchor or a failed write (by index into `actions`) */
+  actionErrors?: Record<number, string>;
+  /** How the prompt behind an assistant reply was fitted to the model's window */
+  context?: ContextReport;
+}
+
+export interface ContextReport {
+  /** Approximate tokens sent */
+  tokens: number;
+  /** Model context window */
+  window: number;
+  /** What was trimmed, e.g. "Summarised 6 older messages" */
+  notes: string[];
+  /** Related files sent alongside the active file */
+  files?: string[];
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  /** Epoch millis */
+  createdAt: number;
+  /** Epoch millis of the last save — drives list order */
+  updatedAt: number;
+  messages: ChatThreadMessage[];
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .chats */
+const CHAT_NAMESPACE = "chats";
+
+/** Title given to threads until the first prompt names them. */
+export const DEFAULT_THREAD_TITLE = "New chat";
+
+/** Auto-generated titles are cut to this many characters. */
+const MAX_TITLE_LENGTH = 48;
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** Create an empty, unsaved thread. */
+export function createThread(title: string = DEFAULT_THREAD_TITLE): ChatThread {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}-${crypto.randomUUID().slice(0, 8)}`,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+}
+
+/** Derive a thread title from its first prompt (first line, truncated). */
+export function titleFromPrompt(prompt: string): string {
+  const line = prompt.trim().split("\n")[0] ?? "";
+  if (!line) return DEFAULT_THREAD_TITLE;
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * List a project's threads, most recently updated first. Threads that
+ * fail to decrypt or parse are skipped.
+ */
+export async function listThreads(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<ChatThread[]> {
+  const threads: ChatThread[] = [];
+  for (const name of await listMetaJson(userHash, CHAT_NAMESPACE, projectId)) {
+    try {
+      const thread = await readMetaJson<ChatThread>(
+        userHash,
+        CHAT_NAMESPACE,
+        projectId,
+        name,
+        encryptionKey
+      );
+      if (thread) threads.push(thread);
+    } catch (err) {
+      console.warn(`[chat-threads] Skipping unreadable thread "${name}":`, err);
+    }
+  }
+
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Create or overwrite a thread. */
+export function saveThread(
+  userHash: string,
+  projectId: string,
+  thread: ChatThread,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  return writeMetaJson(userHash, CHAT_NAMESPACE, projectId, `${thread.id}.json`, thread, encryptionKey);
+}
+
+/** Delete one thread. A missing thread is not an error. */
+export function deleteThread(
+  userHash: string,
+  projectId: string,
+  threadId: string
+): Promise<void> {
+  return deleteMetaJson(userHash, CHAT_NAMESPACE, projectId, `${threadId}.json`);
+}
+
+/**
+ * Delete every thread for a project.
+ * Called alongside deleteProjectOPFS when a project is deleted.
+ */
+export function deleteProjectThreads(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, CHAT_NAMESPACE, projectId);
+}
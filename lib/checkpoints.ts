@@ -0,0 +1,156 @@
+/**
+ * Checkpoints — undo history for accepted AI changes.
+ *
+ * Every accepted review records one checkpoint: the before/after content
+ * of each file it touched. Checkpoints are stored encrypted in OPFS next
+ * to (not inside) the project, so they never show up in the file tree or
+ * get mounted into the WebContainer:
+ *
+ *   OPFS root / <userHash> / .checkpoints / <projectId> / <id>.json
+ *
+ * This module only persists and reasons about checkpoints; writing the
+ * restored files back to OPFS + the container is the editor page's job.
+ */
+
+import {
+  deleteMetaJson,
+  deleteProjectMeta,
+  listMetaJson,
+  readMetaJson,
+  writeMetaJson,
+} from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface CheckpointFile {
+  /** Path from the project root, e.g. "src/App.jsx" */
+  path: string;
+  /** Content before the change; null if the file did not exist */
+  before: string | null;
+  /** Content after the change; null if the change removed the file */
+  after: string | null;
+}
+
+export interface Checkpoint {
+  id: string;
+  /** Epoch millis when the change was applied */
+  createdAt: number;
+  /** Short description — the prompt that produced the change */
+  label: string;
+  files: CheckpointFile[];
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .checkpoints */
+const CHECKPOINT_NAMESPACE = "checkpoints";
+
+/** Oldest checkpoints beyond this count are pruned on save. */
+const MAX_CHECKPOINTS = 50;
+
+// ─── Storage ────────────────────────────────────────────────
+
+/** Build a new checkpoint with a fresh id, dropping files that did not change. */
+export function createCheckpoint(label: string, files: CheckpointFile[]): Checkpoint {
+  return {
+    id: `${Date.now().toString(36)}-${crypto.randomUUID().slice(0, 8)}`,
+    createdAt: Date.now(),
+    label,
+    files: files.filter((f) => f.before !== f.after),
+  };
+}
+
+/**
+ * List a project's checkpoints, oldest first. Entries that fail to
+ * decrypt or parse are skipped rather than breaking the whole timeline.
+ */
+export async function listCheckpoints(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<Checkpoint[]> {
+  const checkpoints: Checkpoint[] = [];
+  for (const name of await listMetaJson(userHash, CHECKPOINT_NAMESPACE, projectId)) {
+    try {
+      const checkpoint = await readMetaJson<Checkpoint>(
+        userHash,
+        CHECKPOINT_NAMESPACE,
+        projectId,
+        name,
+        encryptionKey
+      );
+      if (checkpoint) checkpoints.push(checkpoint);
+    } catch (err) {
+      console.warn(`[checkpoints] Skipping unreadable checkpoint "${name}":`, err);
+    }
+  }
+
+  return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Persist a checkpoint, then prune the oldest ones beyond MAX_CHECKPOINTS.
+ * Returns the ids that were pruned.
+ */
+export async function saveCheckpoint(
+  userHash: string,
+  projectId: string,
+  checkpoint: Checkpoint,
+  encryptionKey?: CryptoKey
+): Promise<string[]> {
+  await writeMetaJson(
+    userHash,
+    CHECKPOINT_NAMESPACE,
+    projectId,
+    `${checkpoint.id}.json`,
+    checkpoint,
+    encryptionKey
+  );
+
+  // Ids sort by creation time (base-36 timestamp prefix)
+  const ids = (await listMetaJson(userHash, CHECKPOINT_NAMESPACE, projectId))
+    .map((name) => name.slice(0, -".json".length))
+    .sort();
+  const pruned = ids.slice(0, Math.max(0, ids.length - MAX_CHECKPOINTS));
+  await deleteCheckpoints(userHash, projectId, pruned);
+  return pruned;
+}
+
+/** Remove checkpoints by id. Missing entries are ignored. */
+export async function deleteCheckpoints(
+  userHash: string,
+  projectId: string,
+  ids: string[]
+): Promise<void> {
+  for (const id of ids) {
+    await deleteMetaJson(userHash, CHECKPOINT_NAMESPACE, projectId, `${id}.json`);
+  }
+}
+
+/**
+ * Delete all checkpoint history for a project.
+ * Called alongside deleteProjectOPFS when a project is deleted.
+ */
+export function deleteProjectCheckpoints(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, CHECKPOINT_NAMESPACE, projectId);
+}
+
+// ─── Revert ─────────────────────────────────────────────────
+
+/**
+ * Work out what each file should become to undo `undone`, which must be
+ * ordered newest first. A path touched by several checkpoints ends up at
+ * the `before` of the oldest one. null means the file should be deleted.
+ */
+export function revertTargets(undone: Checkpoint[]): Map<string, string | null> {
+  const targets = new Map<string, string | null>();
+  for (const checkpoint of undone) {
+    for (const file of checkpoint.files) {
+      targets.set(file.path, file.before);
+    }
+  }
+  return targets;
+}
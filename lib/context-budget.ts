@@ -0,0 +1,243 @@
+/**
+ * context-budget.ts — Fit the prompt into the loaded model's context window.
+ *
+ * Small local models have 4k-ish windows, and WebLLM fails or silently
+ * truncates when the prompt overflows. Everything that goes into a request
+ * is therefore measured (approximately — ~3.5 characters per token, which
+ * errs on the side of code being token-dense) and trimmed to a budget:
+ *
+ *   window = response reserve + system prompt + history + new prompt
+ *
+ * The system prompt share is spent by `gatherContext` (file tree + active
+ * file, elided around the cursor); history gets whatever is left and is
+ * compacted, then summarised, oldest first. Every trim produces a
+ * human-readable note so the chat UI can say what the model did not see.
+ */
+
+import type { ChatMessage } from "./ai-engine";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface ContextBudget {
+  /** Model context window in tokens */
+  contextWindow: number;
+  /** Tokens held back for the model's reply */
+  reserve: number;
+  /** Upper bound for the system prompt (directives + project context) */
+  system: number;
+  /** Tokens available for system + history + prompt combined */
+  input: number;
+}
+
+export interface FittedHistory {
+  messages: ChatMessage[];
+  /** Digest of dropped turns, to append to the system prompt (or "") */
+  summary: string;
+  /** What was compacted or dropped, for the UI */
+  notes: string[];
+}
+
+// ─── Tunables ───────────────────────────────────────────────
+
+/** Used when the worker could not report the model's window. */
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+/** Characters per token for the estimate. */
+const CHARS_PER_TOKEN = 3.5;
+
+/** Chat-template tokens added around each message. */
+const MESSAGE_OVERHEAD = 4;
+
+/** Share of the window reserved for the reply, capped at RESERVE_MAX. */
+const RESERVE_RATIO = 0.25;
+const RESERVE_MAX = 1024;
+
+/** Share of the post-prompt input budget the system prompt may use. */
+const SYSTEM_SHARE = 0.6;
+
+/** Fenced blocks longer than this are collapsed in older replies. */
+const COLLAPSE_BLOCK_LINES = 8;
+
+/** Older turns are compacted before anything is dropped; the newest N are kept verbatim. */
+const VERBATIM_TAIL = 2;
+
+/** Share of the history budget a summary of dropped turns may use. */
+const SUMMARY_SHARE = 0.15;
+
+// ─── Estimation ─────────────────────────────────────────────
+
+/** Approximate token count for a string. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Approximate token count for a list of chat messages. */
+export function estimateMessages(messages: ChatMessage[]): number {
+  return messages.reduce((n, m) => n + estimateTokens(m.content) + MESSAGE_OVERHEAD, 0);
+}
+
+/** Compact "1.2k"-style token count for the UI. */
+export function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/**
+ * Split the context window for one request. `promptTokens` is the new
+ * user message, which is always sent whole.
+ */
+export function planBudget(
+  contextWindow: number | null,
+  promptTokens: number
+): ContextBudget {
+  const window = contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const reserve = Math.min(RESERVE_MAX, Math.floor(window * RESERVE_RATIO));
+  const input = window - reserve;
+  const available = Math.max(0, input - promptTokens - MESSAGE_OVERHEAD);
+  return {
+    contextWindow: window,
+    reserve,
+    system: Math.floor(available * SYSTEM_SHARE),
+    input,
+  };
+}
+
+// ─── Files ──────────────────────────────────────────────────
+
+/**
+ * Keep as much of `content` as fits in `maxTokens`, growing a window
+ * outwards from `cursorLine` (1-based; the top of the file when null).
+ * Omitted ranges are replaced with a marker line. Returns the text and,
+ * when anything was cut, a note describing what was kept.
+ */
+export function elideAroundCursor(
+  content: string,
+  cursorLine: number | null,
+  maxTokens: number,
+  label: string
+): { text: string; note: string | null } {
+  if (estimateTokens(content) <= maxTokens) return { text: content, note: null };
+
+  const lines = content.split("\n");
+  const cost = (i: number) => estimateTokens(lines[i]) + 1;
+  // Leave room for the two "omitted" markers
+  let remaining = maxTokens - 2 * estimateTokens("… (lines 00000–00000 omitted) …");
+
+  const center = Math.min(Math.max((cursorLine ?? 1) - 1, 0), lines.length - 1);
+  let lo = center;
+  let hi = center;
+  remaining -= cost(center);
+  if (remaining < 0) {
+    return { text: "… (file too large to include) …", note: `${label}: omitted (too large)` };
+  }
+
+  // Grow alternately downwards and upwards until neither side fits
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (hi + 1 < lines.length && cost(hi + 1) <= remaining) {
+      remaining -= cost(++hi);
+      grew = true;
+    }
+    if (lo > 0 && cost(lo - 1) <= remaining) {
+      remaining -= cost(--lo);
+      grew = true;
+    }
+  }
+
+  const out: string[] = [];
+  if (lo > 0) out.push(`… (lines 1–${lo} omitted) …`);
+  out.push(...lines.slice(lo, hi + 1));
+  if (hi < lines.length - 1) out.push(`… (lines ${hi + 2}–${lines.length} omitted) …`);
+
+  return {
+    text: out.join("\n"),
+    note: `${label}: showing lines ${lo + 1}–${hi + 1} of ${lines.length}`,
+  };
+}
+
+// ─── History ────────────────────────────────────────────────
+
+/** Collapse long fenced code blocks to a one-line placeholder. */
+function collapseCodeBlocks(content: string): string {
+  return content.replace(/```[^\n]*\n([\s\S]*?)```/g, (block, body: string) => {
+    const n = body.split("\n").length - 1;
+    return n > COLLAPSE_BLOCK_LINES ? `\`\`\`\n… (${n} lines omitted) …\n\`\`\`` : block;
+  });
+}
+
+/** Bullet list of dropped user prompts, newest kept when space runs out. */
+function summarise(dropped: ChatMessage[], maxTokens: number): string {
+  const prompts = dropped
+    .filter((m) => m.role === "user")
+    .map((m) => {
+      const line = m.content.trim().split("\n")[0] ?? "";
+      return `- ${line.length > 100 ? `${line.slice(0, 99)}…` : line}`;
+    });
+  const header = `## Earlier in this conversation (${dropped.length} messages omitted)\nThe user asked:`;
+  let bullets = prompts;
+  let text = [header, ...bullets].join("\n");
+  while (bullets.length > 0 && estimateTokens(text) > maxTokens) {
+    bullets = bullets.slice(1);
+    text = [header, ...bullets].join("\n");
+  }
+  return estimateTokens(text) <= maxTokens ? text : "";
+}
+
+/**
+ * Fit prior turns into `maxTokens`. In order, until it fits:
+ *   1. collapse code blocks in all but the newest VERBATIM_TAIL messages;
+ *   2. drop the oldest messages (keeping the first remaining one a user
+ *      turn) and summarise their prompts for the system prompt;
+ *   3. truncate the single remaining message.
+ */
+export function fitHistory(history: ChatMessage[], maxTokens: number): FittedHistory {
+  if (estimateMessages(history) <= maxTokens) {
+    return { messages: history, summary: "", notes: [] };
+  }
+
+  const notes: string[] = [];
+  const tailStart = Math.max(0, history.length - VERBATIM_TAIL);
+  let messages = history.map((m, i) =>
+    i < tailStart ? { ...m, content: collapseCodeBlocks(m.content) } : m
+  );
+  const collapsed = messages.filter((m, i) => m.content !== history[i].content).length;
+  if (collapsed > 0) notes.push(`Collapsed code in ${collapsed} older message${collapsed !== 1 ? "s" : ""}`);
+  if (estimateMessages(messages) <= maxTokens) {
+    return { messages, summary: "", notes };
+  }
+
+  // Drop oldest turns, leaving room for a summary of them
+  const summaryBudget = Math.floor(maxTokens * SUMMARY_SHARE);
+  const dropped: ChatMessage[] = [];
+  while (
+    messages.length > 1 &&
+    (estimateMessages(messages) > maxTokens - summaryBudget || messages[0].role !== "user")
+  ) {
+    dropped.push(messages[0]);
+    messages = messages.slice(1);
+  }
+  if (messages.length === 1 && messages[0].role !== "user") {
+    // A lone assistant turn without its prompt only confuses the model
+    dropped.push(messages[0]);
+    messages = [];
+  }
+
+  const summary = dropped.length > 0 ? summarise(dropped, summaryBudget) : "";
+  if (dropped.length > 0) {
+    notes.push(
+      `${summary ? "Summarised" : "Dropped"} ${dropped.length} older message${dropped.length !== 1 ? "s" : ""}`
+    );
+  }
+
+  // A single oversized turn: keep its head
+  if (messages.length === 1 && estimateMessages(messages) > maxTokens - summaryBudget) {
+    const keepChars = Math.max(
+      0,
+      Math.floor((maxTokens - summaryBudget - MESSAGE_OVERHEAD) * CHARS_PER_TOKEN) - 20
+    );
+    messages = [{ ...messages[0], content: `${messages[0].content.slice(0, keepChars)}\n… (truncated)` }];
+    notes.push("Truncated the previous message");
+  }
+
+  return { messages, summary, notes };
+}
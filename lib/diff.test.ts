@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { MERGE_MARKER_RE, mergeThreeWay } from "./diff";
+
+describe("mergeThreeWay", () => {
+  const base = "a\nb\nc\nd";
+
+  it("takes edits to different regions from both sides", () => {
+    expect(mergeThreeWay(base, "A\nb\nc\nd", "a\nb\nc\nD")).toEqual({ text: "A\nb\nc\nD", conflicts: 0 });
+  });
+
+  it("keeps the same change made on both sides once", () => {
+    expect(mergeThreeWay(base, "a\nB\nc\nd", "a\nB\nc\nd")).toEqual({ text: "a\nB\nc\nd", conflicts: 0 });
+  });
+
+  it("applies insertions and deletions", () => {
+    expect(mergeThreeWay(base, "a\nb\nc\nnew\nd", "a\nc\nd").text).toBe("a\nc\nnew\nd");
+  });
+
+  it("marks regions the two sides changed differently", () => {
+    const result = mergeThreeWay(base, "a\nmine\nc\nd", "a\ntheirs\nc\nd", { mine: "editor", theirs: "container" });
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe("a\n<<<<<<< editor\nmine\n=======\ntheirs\n>>>>>>> container\nc\nd");
+    expect(MERGE_MARKER_RE.test(result.text)).toBe(true);
+  });
+
+  it("merges from an empty base", () => {
+    expect(mergeThreeWay("", "x", "")).toEqual({ text: "x", conflicts: 0 });
+  });
+});
@@ -0,0 +1,640 @@
+/**
+ * Line diff — structured hunks for the review UI.
+ *
+ * Lines are interned to integers and compared with Myers' O(ND)
+ * algorithm. When a region needs more than `MYERS_MAX_EDITS` edits
+ * (large, noisy rewrites) the search is abandoned and the region is
+ * split on patience anchors — lines that occur exactly once on each
+ * side, kept in longest-increasing order — and each gap is diffed
+ * again. A region with no anchors at all degrades to delete + insert.
+ *
+ * The edit script is grouped into unified-diff hunks with context
+ * lines and 1-based old/new line numbers. Paired deleted/added lines
+ * also carry word-level segments so the UI can highlight exactly what
+ * changed inside a line.
+ *
+ * `mergeThreeWay` combines two edits of a common ancestor (diff3), for
+ * the editor/container conflict prompt.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type DiffOpType = "equal" | "del" | "add";
+
+/** One step of an edit script. Indices are 0-based into the input arrays. */
+export interface DiffOp {
+  type: DiffOpType;
+  /** Index into the old sequence (equal / del), -1 for add */
+  oldIndex: number;
+  /** Index into the new sequence (equal / add), -1 for del */
+  newIndex: number;
+}
+
+/** A run of text within a line, flagged when it differs from its pair. */
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffLine {
+  type: "ctx" | "add" | "del";
+  text: string;
+  /** 1-based line number in the old file (null for additions) */
+  oldLine: number | null;
+  /** 1-based line number in the new file (null for deletions) */
+  newLine: number | null;
+  /** Word-level breakdown, present only on paired del/add lines */
+  segments?: DiffSegment[];
+}
+
+export interface DiffHunk {
+  /** 1-based start line in the old file (0 when the hunk covers no old lines) */
+  oldStart: number;
+  oldLines: number;
+  /** 1-based start line in the new file (0 when the hunk covers no new lines) */
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// ─── Tunables ───────────────────────────────────────────────────────────────
+
+/** Edit distance after which Myers gives up and patience anchoring takes over. */
+const MYERS_MAX_EDITS = 1000;
+
+/** Default number of unchanged lines shown around each change. */
+const DEFAULT_CONTEXT = 3;
+
+/** Lines longer than this are not split into word segments. */
+const MAX_SEGMENT_LINE = 500;
+
+/** Minimum share of unchanged characters for word highlights to be useful. */
+const MIN_SEGMENT_SIMILARITY = 0.4;
+
+// ─── Sequence diff ──────────────────────────────────────────────────────────
+
+/**
+ * Myers forward search over a[aLo..aHi) × b[bLo..bHi). Returns the
+ * edit script for the region, or null if it needs more than `maxEdits`
+ * edits.
+ */
+function myers(
+  a: number[],
+  aLo: number,
+  aHi: number,
+  b: number[],
+  bLo: number,
+  bHi: number,
+  maxEdits: number
+): DiffOp[] | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, offset, n, m, aLo, bLo);
+      }
+    }
+  }
+  return null;
+}
+
+/** Walk the saved V arrays backwards to recover the edit script. */
+function backtrack(
+  trace: Int32Array[],
+  depth: number,
+  offset: number,
+  n: number,
+  m: number,
+  aLo: number,
+  bLo: number
+): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", oldIndex: aLo + x, newIndex: bLo + y });
+    }
+    if (x === prevX) {
+      y--;
+      ops.push({ type: "add", oldIndex: -1, newIndex: bLo + y });
+    } else {
+      x--;
+      ops.push({ type: "del", oldIndex: aLo + x, newIndex: -1 });
+    }
+  }
+  // d = 0: the remaining prefix is a diagonal snake
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    ops.push({ type: "equal", oldIndex: aLo + x, newIndex: bLo + y });
+  }
+  return ops.reverse();
+}
+
+/**
+ * Patience anchors: pairs (i, j) where a[i] and b[j] are unique in
+ * their respective ranges, reduced to the longest increasing run in j.
+ */
+function patienceAnchors(
+  a: number[],
+  aLo: number,
+  aHi: number,
+  b: number[],
+  bLo: number,
+  bHi: number
+): Array<[number, number]> {
+  const counts = new Map<number, { a: number; b: number; ai: number; bi: number }>();
+  for (let i = aLo; i < aHi; i++) {
+    const c = counts.get(a[i]) ?? { a: 0, b: 0, ai: -1, bi: -1 };
+    c.a++;
+    c.ai = i;
+    counts.set(a[i], c);
+  }
+  for (let j = bLo; j < bHi; j++) {
+    const c = counts.get(b[j]);
+    if (!c) continue;
+    c.b++;
+    c.bi = j;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (const c of counts.values()) {
+    if (c.a === 1 && c.b === 1) pairs.push([c.ai, c.bi]);
+  }
+  pairs.sort((p, q) => p[0] - q[0]);
+
+  // Longest increasing subsequence on the b-index (patience sorting)
+  const tails: number[] = [];
+  const prev = new Array<number>(pairs.length).fill(-1);
+  for (let i = 0; i < pairs.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][1] < pairs[i][1]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const result: Array<[number, number]> = [];
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = prev[i]) {
+    result.push(pairs[i]);
+  }
+  return result.reverse();
+}
+
+function diffRange(
+  a: number[],
+  aLo: number,
+  aHi: number,
+  b: number[],
+  bLo: number,
+  bHi: number,
+  out: DiffOp[]
+): void {
+  // Common prefix
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    out.push({ type: "equal", oldIndex: aLo++, newIndex: bLo++ });
+  }
+  // Common suffix (emitted after the middle)
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++;
+  }
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi || bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) out.push({ type: "del", oldIndex: i, newIndex: -1 });
+    for (let j = bLo; j < bHi; j++) out.push({ type: "add", oldIndex: -1, newIndex: j });
+  } else {
+    const ops = myers(a, aLo, aHi, b, bLo, bHi, MYERS_MAX_EDITS);
+    if (ops) {
+      for (const op of ops) out.push(op);
+    } else {
+      const anchors = patienceAnchors(a, aLo, aHi, b, bLo, bHi);
+      if (anchors.length === 0) {
+        for (let i = aLo; i < aHi; i++) out.push({ type: "del", oldIndex: i, newIndex: -1 });
+        for (let j = bLo; j < bHi; j++) out.push({ type: "add", oldIndex: -1, newIndex: j });
+      } else {
+        let ai = aLo;
+        let bi = bLo;
+        for (const [i, j] of anchors) {
+          diffRange(a, ai, i, b, bi, j, out);
+          out.push({ type: "equal", oldIndex: i, newIndex: j });
+          ai = i + 1;
+          bi = j + 1;
+        }
+        diffRange(a, ai, aHi, b, bi, bHi, out);
+      }
+    }
+  }
+
+  for (let s = 0; s < suffix; s++) {
+    out.push({ type: "equal", oldIndex: aHi + s, newIndex: bHi + s });
+  }
+}
+
+/**
+ * Compute a minimal edit script between two sequences of strings.
+ * Deletions are ordered before additions within each changed run.
+ */
+export function diffSequences(oldSeq: string[], newSeq: string[]): DiffOp[] {
+  const ids = new Map<string, number>();
+  const intern = (s: string) => {
+    let id = ids.get(s);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(s, id);
+    }
+    return id;
+  };
+  const a = oldSeq.map(intern);
+  const b = newSeq.map(intern);
+
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+
+  // Normalise each changed run to "all deletions, then all additions"
+  const normalised: DiffOp[] = [];
+  let dels: DiffOp[] = [];
+  let adds: DiffOp[] = [];
+  const flush = () => {
+    normalised.push(...dels, ...adds);
+    dels = [];
+    adds = [];
+  };
+  for (const op of ops) {
+    if (op.type === "del") dels.push(op);
+    else if (op.type === "add") adds.push(op);
+    else {
+      flush();
+      normalised.push(op);
+    }
+  }
+  flush();
+  return normalised;
+}
+
+// ─── Word highlights ────────────────────────────────────────────────────────
+
+const WORD_RE = /\w+|\s+|[^\w\s]/g;
+
+function tokenize(line: string): string[] {
+  return line.match(WORD_RE) ?? [];
+}
+
+/** Merge adjacent segments with the same `changed` flag. */
+function pushSegment(segments: DiffSegment[], text: string, changed: boolean): void {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) last.text += text;
+  else segments.push({ text, changed });
+}
+
+/**
+ * Split a deleted/added line pair into word segments. Returns null
+ * when the lines are too long or too different for highlights to help.
+ */
+function wordSegments(
+  oldText: string,
+  newText: string
+): { old: DiffSegment[]; new: DiffSegment[] } | null {
+  if (oldText.length > MAX_SEGMENT_LINE || newText.length > MAX_SEGMENT_LINE) return null;
+
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+  const ops = diffSequences(oldTokens, newTokens);
+
+  const oldSegs: DiffSegment[] = [];
+  const newSegs: DiffSegment[] = [];
+  let unchanged = 0;
+  for (const op of ops) {
+    if (op.type === "equal") {
+      const tok = oldTokens[op.oldIndex];
+      if (tok.trim()) unchanged += tok.length;
+      pushSegment(oldSegs, tok, false);
+      pushSegment(newSegs, tok, false);
+    } else if (op.type === "del") {
+      pushSegment(oldSegs, oldTokens[op.oldIndex], true);
+    } else {
+      pushSegment(newSegs, newTokens[op.newIndex], true);
+    }
+  }
+
+  const longest = Math.max(oldText.trim().length, newText.trim().length);
+  if (longest === 0 || unchanged / longest < MIN_SEGMENT_SIMILARITY) return null;
+  return { old: oldSegs, new: newSegs };
+}
+
+/** Pair up del/add runs inside a hunk and attach word segments. */
+function attachSegments(lines: DiffLine[]): void {
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== "del") {
+      i++;
+      continue;
+    }
+    const delStart = i;
+    while (i < lines.length && lines[i].type === "del") i++;
+    const addStart = i;
+    while (i < lines.length && lines[i].type === "add") i++;
+
+    const pairs = Math.min(addStart - delStart, i - addStart);
+    for (let p = 0; p < pairs; p++) {
+      const del = lines[delStart + p];
+      const add = lines[addStart + p];
+      const segs = wordSegments(del.text, add.text);
+      if (segs) {
+        del.segments = segs.old;
+        add.segments = segs.new;
+      }
+    }
+  }
+}
+
+// ─── Hunks ──────────────────────────────────────────────────────────────────
+
+/**
+ * Diff two texts line by line and group the result into hunks with
+ * `context` unchanged lines on either side of each change. Hunks whose
+ * context would overlap are merged. Identical inputs yield no hunks.
+ */
+export function diffLines(
+  oldText: string,
+  newText: string,
+  context = DEFAULT_CONTEXT
+): DiffHunk[] {
+  const oldLines = oldText === "" ? [] : oldText.split("\n");
+  const newLines = newText === "" ? [] : newText.split("\n");
+  const ops = diffSequences(oldLines, newLines);
+
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    // Skip to the next change
+    while (i < ops.length && ops[i].type === "equal") i++;
+    if (i >= ops.length) break;
+
+    const start = Math.max(0, i - context);
+    // Find where this hunk ends: a run of > 2·context equal ops closes it
+    let end = i;
+    let j = i;
+    while (j < ops.length) {
+      if (ops[j].type !== "equal") {
+        end = j + 1;
+        j++;
+        continue;
+      }
+      let run = 0;
+      while (j + run < ops.length && ops[j + run].type === "equal") run++;
+      if (j + run >= ops.length || run > context * 2) break;
+      j += run;
+    }
+    const stop = Math.min(ops.length, end + context);
+
+    const lines: DiffLine[] = [];
+    for (let k = start; k < stop; k++) {
+      const op = ops[k];
+      if (op.type === "equal") {
+        lines.push({
+          type: "ctx",
+          text: oldLines[op.oldIndex],
+          oldLine: op.oldIndex + 1,
+          newLine: op.newIndex + 1,
+        });
+      } else if (op.type === "del") {
+        lines.push({ type: "del", text: oldLines[op.oldIndex], oldLine: op.oldIndex + 1, newLine: null });
+      } else {
+        lines.push({ type: "add", text: newLines[op.newIndex], oldLine: null, newLine: op.newIndex + 1 });
+      }
+    }
+    attachSegments(lines);
+    hunks.push(makeHunk(lines, ops, start));
+    i = stop;
+  }
+  return hunks;
+}
+
+/** Compute the hunk header ranges for a slice of the edit script. */
+function makeHunk(lines: DiffLine[], ops: DiffOp[], start: number): DiffHunk {
+  let oldLines = 0;
+  let newLines = 0;
+  let oldFirst: number | null = null;
+  let newFirst: number | null = null;
+  for (const l of lines) {
+    if (l.oldLine !== null) {
+      oldLines++;
+      oldFirst ??= l.oldLine;
+    }
+    if (l.newLine !== null) {
+      newLines++;
+      newFirst ??= l.newLine;
+    }
+  }
+
+  // An empty side starts *after* the preceding line (unified-diff convention)
+  const before = (side: "oldIndex" | "newIndex") => {
+    for (let k = start - 1; k >= 0; k--) {
+      if (ops[k][side] !== -1) return ops[k][side] + 1;
+    }
+    return 0;
+  };
+
+  return {
+    oldStart: oldFirst ?? before("oldIndex"),
+    oldLines,
+    newStart: newFirst ?? before("newIndex"),
+    newLines,
+    lines,
+  };
+}
+
+/** `@@ -a,b +c,d @@` header for a hunk. */
+export function hunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/** Render hunks as a unified diff (e.g. for copying or for the AI prompt). */
+export function formatUnifiedDiff(hunks: DiffHunk[], filename: string): string {
+  const out: string[] = [`--- a/${filename}`, `+++ b/${filename}`];
+  for (const hunk of hunks) {
+    out.push(hunkHeader(hunk));
+    for (const line of hunk.lines) {
+      const prefix = line.type === "add" ? "+" : line.type === "del" ? "-" : " ";
+      out.push(prefix + line.text);
+    }
+  }
+  return out.join("\n");
+}
+
+// ─── Hunk resolution ────────────────────────────────────────────────────────
+
+/** How the user resolved one hunk in the review gate. */
+export interface HunkResolution {
+  status: "accepted" | "rejected";
+  /** Inline-edited replacement for the hunk's new side (context + additions) */
+  edited?: string;
+}
+
+/** Old side of a hunk (context + deletions) as text. */
+export function hunkOldText(hunk: DiffHunk): string {
+  return hunk.lines
+    .filter((l) => l.type !== "add")
+    .map((l) => l.text)
+    .join("\n");
+}
+
+/** New side of a hunk (context + additions) as text. */
+export function hunkNewText(hunk: DiffHunk): string {
+  return hunk.lines
+    .filter((l) => l.type !== "del")
+    .map((l) => l.text)
+    .join("\n");
+}
+
+/**
+ * Rebuild a file from `oldText`, taking for each hunk its new side
+ * (accepted), its old side (rejected) or the user's edited text.
+ * Hunks without a resolution count as accepted, so an empty
+ * `resolutions` array reproduces the proposed content. `hunks` must
+ * come from `diffLines(oldText, …)`.
+ */
+export function applyHunkResolutions(
+  oldText: string,
+  hunks: DiffHunk[],
+  resolutions: ReadonlyArray<HunkResolution | undefined>
+): string {
+  const oldLines = oldText === "" ? [] : oldText.split("\n");
+  const out: string[] = [];
+  let cursor = 0;
+
+  hunks.forEach((hunk, i) => {
+    // A hunk with no old lines inserts *after* oldStart
+    const start = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    out.push(...oldLines.slice(cursor, start));
+
+    const resolution = resolutions[i];
+    if (resolution?.edited !== undefined) {
+      if (resolution.edited !== "") out.push(...resolution.edited.split("\n"));
+    } else {
+      const drop = resolution?.status === "rejected" ? "add" : "del";
+      for (const line of hunk.lines) {
+        if (line.type !== drop) out.push(line.text);
+      }
+    }
+    cursor = start + hunk.oldLines;
+  });
+
+  out.push(...oldLines.slice(cursor));
+  return out.join("\n");
+}
+
+// ─── Three-way merge ────────────────────────────────────────────────────────
+
+/** Result of `mergeThreeWay`. */
+export interface MergeResult {
+  text: string;
+  /** Regions both sides changed differently, left between conflict markers */
+  conflicts: number;
+}
+
+/** Matches a conflict marker line left in a file by `mergeThreeWay`. */
+export const MERGE_MARKER_RE = /^(<{7}|={7}|>{7})( |$)/m;
+
+/** For each old line, the index of its unchanged copy in the new sequence (-1 if edited). */
+function matchLines(ops: DiffOp[], length: number): number[] {
+  const match = new Array<number>(length).fill(-1);
+  for (const op of ops) {
+    if (op.type === "equal") match[op.oldIndex] = op.newIndex;
+  }
+  return match;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two descendants of `base` line by line (diff3). Lines neither
+ * side touched anchor the merge; each region between anchors takes the
+ * side that changed it, or either side when both made the same change.
+ * Regions the two sides changed differently are written out between
+ * `<<<<<<< mine` / `=======` / `>>>>>>> theirs` markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  mine: string,
+  theirs: string,
+  labels: { mine: string; theirs: string } = { mine: "mine", theirs: "theirs" }
+): MergeResult {
+  const split = (text: string) => (text === "" ? [] : text.split("\n"));
+  const baseLines = split(base);
+  const mineLines = split(mine);
+  const theirLines = split(theirs);
+  const toMine = matchLines(diffSequences(baseLines, mineLines), baseLines.length);
+  const toTheirs = matchLines(diffSequences(baseLines, theirLines), baseLines.length);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  for (let k = 0; k <= baseLines.length; k++) {
+    const end = k === baseLines.length;
+    if (!end && (toMine[k] === -1 || toTheirs[k] === -1)) continue;
+
+    // Resolve the region between the previous anchor and this one
+    const mineEnd = end ? mineLines.length : toMine[k];
+    const theirEnd = end ? theirLines.length : toTheirs[k];
+    const baseRegion = baseLines.slice(b, k);
+    const mineRegion = mineLines.slice(m, mineEnd);
+    const theirRegion = theirLines.slice(t, theirEnd);
+    if (sameLines(mineRegion, baseRegion)) {
+      out.push(...theirRegion);
+    } else if (sameLines(theirRegion, baseRegion) || sameLines(mineRegion, theirRegion)) {
+      out.push(...mineRegion);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.mine}`, ...mineRegion, "=======", ...theirRegion, `>>>>>>> ${labels.theirs}`);
+    }
+
+    if (!end) {
+      out.push(baseLines[k]);
+      b = k + 1;
+      m = mineEnd + 1;
+      t = theirEnd + 1;
+    }
+  }
+  return { text: out.join("\n"), conflicts };
+}
@@ -0,0 +1,168 @@
+/**
+ * Environment variables — per-project variables for container processes.
+ *
+ * Variables are stored in one JSON file, encrypted with the same AES-GCM
+ * key as project files:
+ *
+ *   OPFS root / <userHash> / .env-vars / <projectId> / env.json
+ *
+ * They are injected into every process the IDE spawns (scripts, npm
+ * install, terminal shells — see `setContainerEnv` in useWebContainer)
+ * and can optionally be written to a `.env` file inside the container
+ * for tools that only read files (Vite, dotenv). That file lives in the
+ * container only; it never reaches OPFS, the editor or the AI context.
+ *
+ * Variables marked secret are masked in the Env panel and redacted from
+ * terminal text handed to the AI.
+ */
+
+import { deleteProjectMeta, readMetaJson, renameMetaFile, writeMetaJson } from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface EnvVar {
+  name: string;
+  value: string;
+  /** Masked in the UI and redacted from AI context */
+  secret: boolean;
+}
+
+export interface ProjectEnv {
+  vars: EnvVar[];
+  /** Also write the variables to `/.env` in the container */
+  writeDotEnv: boolean;
+}
+
+export interface LoadedProjectEnv {
+  env: ProjectEnv;
+  /** Why the stored variables couldn't be used, when they couldn't */
+  error: string | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .env-vars */
+const ENV_NAMESPACE = "env-vars";
+
+const ENV_FILE = "env.json";
+
+/** First line of a generated `.env` — marks the file as ours to replace or remove. */
+export const DOTENV_HEADER = "# Generated by SouthStack from the project's Env panel — edits here are overwritten.";
+
+/** Valid variable names (POSIX-style). */
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Secrets shorter than this are not redacted — too likely to match ordinary text. */
+const MIN_REDACT_LENGTH = 4;
+
+// ─── Helpers ────────────────────────────────────────────────
+
+export function emptyProjectEnv(): ProjectEnv {
+  return { vars: [], writeDotEnv: false };
+}
+
+/** `.env`, `.env.local`, `.env.production`… — never shown to the AI. */
+export function isEnvFile(path: string): boolean {
+  const name = path.split("/").pop() ?? path;
+  return name === ".env" || name.startsWith(".env.");
+}
+
+/**
+ * Problems that would stop the variables from being saved: invalid or
+ * duplicate names. Returns one message per problem.
+ */
+export function validateEnvVars(vars: EnvVar[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const { name } of vars) {
+    if (!ENV_NAME.test(name)) {
+      problems.push(name ? `"${name}" is not a valid variable name` : "A variable has no name");
+    } else if (seen.has(name)) {
+      problems.push(`${name} is defined twice`);
+    }
+    seen.add(name);
+  }
+  return problems;
+}
+
+/** The variables as a spawn `env` record. */
+export function toEnvRecord(env: ProjectEnv): Record<string, string> {
+  return Object.fromEntries(env.vars.map((v) => [v.name, v.value]));
+}
+
+/** `.env` file content: the marker header, then `NAME="value"` lines. */
+export function formatDotEnv(vars: EnvVar[]): string {
+  const lines = vars.map(({ name, value }) =>
+    /^[\w@%+=:,./-]*$/.test(value)
+      ? `${name}=${value}`
+      : `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return [DOTENV_HEADER, ...lines, ""].join("\n");
+}
+
+/** Replace every secret value in `text` with a mask. */
+export function redactSecrets(text: string, env: ProjectEnv): string {
+  let out = text;
+  for (const v of env.vars) {
+    if (v.secret && v.value.length >= MIN_REDACT_LENGTH) {
+      out = out.split(v.value).join(`<${v.name} redacted>`);
+    }
+  }
+  return out;
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * Load a project's variables; none if nothing is stored. Stored
+ * variables that can't be read are moved aside — so the next save
+ * doesn't overwrite them — and reported in `error`.
+ */
+export async function loadProjectEnv(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<LoadedProjectEnv> {
+  try {
+    const stored = await readMetaJson<Partial<ProjectEnv>>(
+      userHash,
+      ENV_NAMESPACE,
+      projectId,
+      ENV_FILE,
+      encryptionKey
+    );
+    return { env: { ...emptyProjectEnv(), ...stored }, error: null };
+  } catch (err) {
+    console.error("[env-vars] Unreadable environment:", err);
+    const keptAs = `env-${Date.now()}.unreadable`;
+    let kept = `They were kept as .${ENV_NAMESPACE}/${projectId}/${keptAs}.`;
+    try {
+      await renameMetaFile(userHash, ENV_NAMESPACE, projectId, ENV_FILE, keptAs);
+    } catch (moveErr) {
+      console.error("[env-vars] Failed to set the unreadable environment aside:", moveErr);
+      kept = "Saving now will replace them.";
+    }
+    return {
+      env: emptyProjectEnv(),
+      error: `The saved variables couldn't be read (${(err as Error).message}). ${kept}`,
+    };
+  }
+}
+
+/** Overwrite a project's variables. */
+export function saveProjectEnv(
+  userHash: string,
+  projectId: string,
+  env: ProjectEnv,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  return writeMetaJson(userHash, ENV_NAMESPACE, projectId, ENV_FILE, env, encryptionKey);
+}
+
+/** Delete a project's variables (the project itself is being deleted). */
+export function deleteProjectEnv(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, ENV_NAMESPACE, projectId);
+}
@@ -0,0 +1,121 @@
+/**
+ * File versions — conflict detection between editor buffers and the container.
+ *
+ * A file open in the editor exists in two places that change independently:
+ * the editor buffer (saved to OPFS and mirrored into the container on save)
+ * and the container's copy, which any process — a code generator, a
+ * formatter, `npm pkg set` — may rewrite. For every open file this tracker
+ * remembers the last state both sides agreed on (the merge base) and a
+ * content hash of it per side. Comparing the current editor buffer and the
+ * current container file against those hashes tells which side moved:
+ *
+ *   neither    → in sync
+ *   editor     → unsaved edits, safe to save
+ *   container  → the buffer is stale, reload it
+ *   both       → conflict, unless both arrived at the same content
+ *
+ * Conflicts are resolved by the user in ConflictModal against a three-way
+ * diff (`mergeThreeWay` in diff.ts).
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** Which side moved away from the last synced state. */
+export type SyncStatus = "in-sync" | "editor-ahead" | "container-ahead" | "conflict";
+
+/** A file both the editor and the container changed since they last agreed. */
+export interface FileConflict {
+  path: string;
+  /** Content at the last sync — the common ancestor */
+  base: string;
+  /** The editor buffer */
+  mine: string;
+  /** The container's copy */
+  theirs: string;
+}
+
+interface FileVersion {
+  /** Content at the last sync, kept for the three-way diff */
+  base: string;
+  /** SHA-256 of what the editor last loaded or saved */
+  editorHash: Promise<string>;
+  /** SHA-256 of what the container held at the last sync */
+  containerHash: Promise<string>;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** SHA-256 hex of a file's content. */
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ─── Tracker ────────────────────────────────────────────────
+
+export class FileVersions {
+  private versions = new Map<string, FileVersion>();
+
+  /** True if `path` is being tracked (it is open in the editor). */
+  has(path: string): boolean {
+    return this.versions.has(path);
+  }
+
+  /** Record that the editor and the container both hold `content`. */
+  synced(path: string, content: string): void {
+    const hash = hashContent(content);
+    this.versions.set(path, { base: content, editorHash: hash, containerHash: hash });
+  }
+
+  /** The last synced content of `path`, if tracked. */
+  base(path: string): string | undefined {
+    return this.versions.get(path)?.base;
+  }
+
+  /**
+   * Compare the editor buffer (`mine`) and the container's copy
+   * (`theirs`) with the last synced state. Null for untracked paths.
+   */
+  async status(path: string, mine: string, theirs: string): Promise<SyncStatus | null> {
+    const version = this.versions.get(path);
+    if (!version) return null;
+    const [editorHash, containerHash, mineHash, theirsHash] = await Promise.all([
+      version.editorHash,
+      version.containerHash,
+      hashContent(mine),
+      hashContent(theirs),
+    ]);
+    const editorMoved = mineHash !== editorHash;
+    const containerMoved = theirsHash !== containerHash;
+    if (editorMoved && containerMoved) {
+      // Both sides making the same change is not a conflict
+      return mineHash === theirsHash ? "in-sync" : "conflict";
+    }
+    if (editorMoved) return "editor-ahead";
+    if (containerMoved) return "container-ahead";
+    return "in-sync";
+  }
+
+  /** Follow a rename of a file or of a directory containing tracked files. */
+  rename(oldPath: string, newPath: string): void {
+    for (const [path, version] of [...this.versions]) {
+      if (path !== oldPath && !path.startsWith(`${oldPath}/`)) continue;
+      this.versions.delete(path);
+      this.versions.set(newPath + path.slice(oldPath.length), version);
+    }
+  }
+
+  /** Stop tracking `path` and anything below it (tab closed, file or folder deleted). */
+  forget(path: string): void {
+    for (const tracked of [...this.versions.keys()]) {
+      if (tracked === path || tracked.startsWith(`${path}/`)) this.versions.delete(tracked);
+    }
+  }
+
+  /** Stop tracking everything (project switch). */
+  clear(): void {
+    this.versions.clear();
+  }
+}
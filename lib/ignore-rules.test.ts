@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { filterTree, IgnoreRules } from "./ignore-rules";
+import type { FSNode } from "./opfs";
+
+function rulesFrom(files: Record<string, string>): IgnoreRules {
+  const rules = new IgnoreRules();
+  for (const [path, content] of Object.entries(files)) rules.setFile(path, content);
+  return rules;
+}
+
+describe("IgnoreRules", () => {
+  it("ignores dependency and build folders by default", () => {
+    const rules = new IgnoreRules();
+    expect(rules.isIgnored("node_modules/react/index.js")).toBe(true);
+    expect(rules.isIgnored("packages/a/node_modules", true)).toBe(true);
+    expect(rules.isIgnored("dist/app.js")).toBe(true);
+    expect(rules.isIgnored("src/dist/app.js")).toBe(false);
+    expect(rules.isIgnored("src/App.tsx")).toBe(false);
+  });
+
+  it("lets a project re-include a default but not an always-ignored folder", () => {
+    const rules = rulesFrom({ ".gitignore": "!/dist/\n!node_modules" });
+    expect(rules.isIgnored("dist/app.js")).toBe(false);
+    expect(rules.isIgnored("node_modules/react/index.js")).toBe(true);
+  });
+
+  it("matches unanchored patterns at any depth and anchored ones from their file's directory", () => {
+    const rules = rulesFrom({ ".gitignore": "*.log\n/tmp", "src/.gitignore": "gen/out.ts" });
+    expect(rules.isIgnored("a/b/debug.log")).toBe(true);
+    expect(rules.isIgnored("tmp/x")).toBe(true);
+    expect(rules.isIgnored("src/tmp/x")).toBe(false);
+    expect(rules.isIgnored("src/gen/out.ts")).toBe(true);
+    expect(rules.isIgnored("gen/out.ts")).toBe(false);
+  });
+
+  it("applies dir-only patterns to directories", () => {
+    const rules = rulesFrom({ ".gitignore": "cache/" });
+    expect(rules.isIgnored("cache")).toBe(false);
+    expect(rules.isIgnored("cache", true)).toBe(true);
+    expect(rules.isIgnored("a/cache/file.txt")).toBe(true);
+  });
+
+  it("matches `**` across segments", () => {
+    const rules = rulesFrom({ ".gitignore": "docs/**/*.md\n**/fixtures" });
+    expect(rules.isIgnored("docs/a/b/readme.md")).toBe(true);
+    expect(rules.isIgnored("docs/readme.md")).toBe(true);
+    expect(rules.isIgnored("docs/a/readme.txt")).toBe(false);
+    expect(rules.isIgnored("test/unit/fixtures/x.json")).toBe(true);
+  });
+
+  it("re-includes with `!` unless a parent directory is ignored", () => {
+    const rules = rulesFrom({ ".gitignore": "*.env.*\n!example.env.local\nsecret/\n!secret/keep.txt" });
+    expect(rules.isIgnored("prod.env.local")).toBe(true);
+    expect(rules.isIgnored("example.env.local")).toBe(false);
+    expect(rules.isIgnored("secret/keep.txt")).toBe(true);
+  });
+
+  it("lets deeper files and .southstackignore override", () => {
+    const rules = rulesFrom({
+      ".gitignore": "*.txt",
+      "src/.gitignore": "!notes.txt",
+      ".southstackignore": "!readme.txt",
+    });
+    expect(rules.isIgnored("a.txt")).toBe(true);
+    expect(rules.isIgnored("src/notes.txt")).toBe(false);
+    expect(rules.isIgnored("notes.txt")).toBe(true);
+    expect(rules.isIgnored("readme.txt")).toBe(false);
+  });
+
+  it("skips comments and honours escapes", () => {
+    const rules = rulesFrom({ ".gitignore": "# comment\n\\#hash\n\\!bang" });
+    expect(rules.isIgnored("# comment")).toBe(false);
+    expect(rules.isIgnored("#hash")).toBe(true);
+    expect(rules.isIgnored("!bang")).toBe(true);
+  });
+});
+
+describe("filterTree", () => {
+  it("drops ignored files and directories at every level", () => {
+    const file = (path: string): FSNode => ({
+      name: path.slice(path.lastIndexOf("/") + 1),
+      path,
+      isDirectory: false,
+      children: [],
+    });
+    const tree: FSNode[] = [
+      { name: "src", path: "src", isDirectory: true, children: [file("src/a.ts"), file("src/a.log")] },
+      { name: "dist", path: "dist", isDirectory: true, children: [file("dist/a.js")] },
+    ];
+    const filtered = filterTree(tree, rulesFrom({ ".gitignore": "*.log" }));
+    expect(filtered.map((n) => n.path)).toEqual(["src"]);
+    expect(filtered[0].children.map((n) => n.path)).toEqual(["src/a.ts"]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Ignore rules — which project paths stay out of sync and AI context.
+ *
+ * Follows gitignore semantics:
+ *   - blank lines and `#` comments are skipped; `\#` / `\!` escape them
+ *   - `*`, `?` and `[…]` match within one path segment, `**` across them
+ *   - a pattern with a slash (other than a trailing one) is anchored to
+ *     the directory of its ignore file, otherwise it matches at any depth
+ *   - a trailing `/` only matches directories
+ *   - `!` re-includes a path an earlier pattern ignored — but nothing
+ *     inside an ignored directory can be re-included
+ *   - the last matching pattern wins, and patterns in deeper ignore
+ *     files override shallower ones
+ *
+ * Patterns come from every `.gitignore` in the project and from
+ * `.southstackignore` files, which use the same syntax, sit next to them
+ * and take precedence — for paths that belong in git but not in the IDE's
+ * sync or the AI's context (or the other way round). A few build and
+ * cache folders are ignored by default (overridable with `!`), and
+ * `node_modules`, `.git` and npm's cache always are.
+ *
+ * Used by the sync manager (container → OPFS), by `gatherContext` for
+ * the tree and files the AI sees, and by `listProjectFiles` for the
+ * import graph, @-mentions and terminal file links.
+ */
+
+import { readFile, type FSNode } from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface IgnorePattern {
+  /** `!pattern` — re-include instead of ignore */
+  negate: boolean;
+  /** `pattern/` — matches directories only */
+  dirOnly: boolean;
+  /** Matches a path relative to the ignore file's directory */
+  regex: RegExp;
+}
+
+interface IgnoreSource {
+  /** Directory the patterns are relative to ("" = project root) */
+  dir: string;
+  /** Path of the ignore file (orders sources in the same directory) */
+  path: string;
+  patterns: IgnorePattern[];
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Ignore files read from the project, in increasing precedence. */
+export const IGNORE_FILES = [".gitignore", ".southstackignore"];
+
+/** Ignored unless a project ignore file re-includes them. */
+const DEFAULT_PATTERNS = ["/.cache/", "/.next/", "/dist/", "/build/", "/.turbo/"];
+
+/** Never synced, whatever the project's ignore files say. */
+const ALWAYS_IGNORED = [
+  "node_modules",
+  ".git",
+  "/.npm-cache", // npm's cache (npm-cache.ts keeps its own copy)
+];
+
+// ─── Parsing ────────────────────────────────────────────────
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/** Translate a gitignore glob (leading slash already removed) into a regex body. */
+function globToRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "\\" && i + 1 < glob.length) {
+      out += escapeRegex(glob[++i]);
+    } else if (c === "*") {
+      const segmentStart = i === 0 || glob[i - 1] === "/";
+      const segmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+      if (glob[i + 1] === "*" && segmentStart && segmentEnd) {
+        if (i + 2 === glob.length) {
+          out += ".*"; // trailing `**` — everything inside
+          i += 1;
+        } else {
+          out += "(?:.*/)?"; // `**/` — zero or more directories
+          i += 2;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      // `]` right after `[` or `[!` is part of the set
+      const first = glob[i + 1] === "!" ? i + 2 : i + 1;
+      const close = glob.indexOf("]", first + 1);
+      if (close === -1) {
+        out += "\\[";
+        continue;
+      }
+      const set = glob.slice(i + 1, close).replace(/^!/, "^");
+      out += `[${set}]`;
+      i = close;
+    } else {
+      out += escapeRegex(c);
+    }
+  }
+  return out;
+}
+
+/** One line of an ignore file, or null for blanks and comments. */
+function parsePattern(line: string): IgnorePattern | null {
+  // Trailing spaces don't count unless escaped
+  let text = line.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "");
+  if (!text || text.startsWith("#")) return null;
+
+  let negate = false;
+  if (text.startsWith("!")) {
+    negate = true;
+    text = text.slice(1);
+  } else if (text.startsWith("\\!") || text.startsWith("\\#")) {
+    text = text.slice(1);
+  }
+  const dirOnly = text.endsWith("/");
+  if (dirOnly) text = text.slice(0, -1);
+  if (!text) return null;
+
+  const anchored = text.includes("/");
+  if (text.startsWith("/")) text = text.slice(1);
+  const body = globToRegex(text);
+  try {
+    return { negate, dirOnly, regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`) };
+  } catch {
+    return null; // Malformed pattern — skip the line
+  }
+}
+
+function parsePatterns(lines: string[]): IgnorePattern[] {
+  return lines.map(parsePattern).filter((p): p is IgnorePattern => p !== null);
+}
+
+function parentDir(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function depth(dir: string): number {
+  return dir === "" ? 0 : dir.split("/").length;
+}
+
+/** True for `.gitignore` / `.southstackignore` at any depth. */
+export function isIgnoreFile(path: string): boolean {
+  return IGNORE_FILES.includes(path.slice(path.lastIndexOf("/") + 1));
+}
+
+// ─── Rules ──────────────────────────────────────────────────
+
+const alwaysIgnored = parsePatterns(ALWAYS_IGNORED);
+const defaults: IgnoreSource = { dir: "", path: "", patterns: parsePatterns(DEFAULT_PATTERNS) };
+
+export class IgnoreRules {
+  private files = new Map<string, IgnoreSource>();
+  /** Defaults + ignore files in precedence order (rebuilt lazily). */
+  private ordered: IgnoreSource[] | null = null;
+
+  /**
+   * Set the content of one ignore file (e.g. "src/.gitignore"), or
+   * remove it with null.
+   */
+  setFile(path: string, content: string | null): void {
+    if (content === null) this.files.delete(path);
+    else this.files.set(path, { dir: parentDir(path), path, patterns: parsePatterns(content.split("\n")) });
+    this.ordered = null;
+  }
+
+  /** Forget every ignore file (the defaults stay). */
+  clear(): void {
+    this.files.clear();
+    this.ordered = null;
+  }
+
+  /**
+   * Whether `path` (relative to the project root) is ignored, either
+   * itself or through an ignored parent directory. Pass `isDir` for
+   * directories so `dir/` patterns can match them.
+   */
+  isIgnored(path: string, isDir = false): boolean {
+    const segments = path.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matches(segments.slice(0, i).join("/"), true)) return true;
+    }
+    return this.matches(path, isDir);
+  }
+
+  /** Evaluate the patterns for `path` itself, ignoring its parents. */
+  private matches(path: string, isDir: boolean): boolean {
+    if (alwaysIgnored.some((p) => p.regex.test(path))) return true;
+
+    let ignored = false;
+    for (const { dir, patterns } of this.sources()) {
+      if (dir && !path.startsWith(`${dir}/`)) continue;
+      const relative = dir ? path.slice(dir.length + 1) : path;
+      for (const pattern of patterns) {
+        if ((!pattern.dirOnly || isDir) && pattern.regex.test(relative)) ignored = !pattern.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private sources(): IgnoreSource[] {
+    if (!this.ordered) {
+      const rank = (path: string) => IGNORE_FILES.indexOf(path.slice(path.lastIndexOf("/") + 1));
+      const files = [...this.files.values()].sort(
+        (a, b) => depth(a.dir) - depth(b.dir) || a.dir.localeCompare(b.dir) || rank(a.path) - rank(b.path)
+      );
+      this.ordered = [defaults, ...files];
+    }
+    return this.ordered;
+  }
+}
+
+// ─── Project Trees ──────────────────────────────────────────
+
+/** Read every ignore file in an OPFS project tree. */
+export async function loadIgnoreRules(
+  userHash: string,
+  projectId: string,
+  tree: FSNode[],
+  encryptionKey?: CryptoKey
+): Promise<IgnoreRules> {
+  const rules = new IgnoreRules();
+  const walk = async (nodes: FSNode[]) => {
+    // A directory's own ignore files apply before its subdirectories are visited
+    for (const node of nodes) {
+      if (node.isDirectory || !isIgnoreFile(node.path)) continue;
+      try {
+        rules.setFile(node.path, await readFile(userHash, projectId, node.path, encryptionKey));
+      } catch {
+        // Unreadable — its patterns don't apply
+      }
+    }
+    for (const node of nodes) {
+      if (node.isDirectory && !rules.isIgnored(node.path, true)) await walk(node.children);
+    }
+  };
+  await walk(tree);
+  return rules;
+}
+
+/** The tree without ignored files and directories. */
+export function filterTree(nodes: FSNode[], rules: IgnoreRules): FSNode[] {
+  return nodes
+    .filter((node) => !rules.isIgnored(node.path, node.isDirectory))
+    .map((node) => (node.isDirectory ? { ...node, children: filterTree(node.children, rules) } : node));
+}
@@ -0,0 +1,320 @@
+/**
+ * import-graph.ts — Find the project files most relevant to a request.
+ *
+ * The agent only sees the active file by default. To give it the code
+ * around that file, the project's ES `import` / `export … from` /
+ * dynamic `import()` / `require()` statements are parsed into a
+ * dependency graph, and candidates are ranked:
+ *
+ *   1. files named in the prompt by path
+ *   2. direct imports of the active file
+ *   3. files that import the active file
+ *   4. files whose names match words in the prompt
+ *
+ * Parsing is regex-based — good enough for relevance, not a resolver.
+ * Only relative specifiers and the common `@/` / `~/` aliases are
+ * followed; bare package imports are ignored.
+ */
+
+import { listTree, readFile, type FSNode } from "./opfs";
+import { isEnvFile } from "./env-vars";
+import { loadIgnoreRules, type IgnoreRules } from "./ignore-rules";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface ImportGraph {
+  /** path → project files it imports */
+  imports: Map<string, string[]>;
+  /** path → project files that import it */
+  importers: Map<string, string[]>;
+}
+
+export interface RelatedFile {
+  path: string;
+  /** Why it was picked, e.g. "imported by src/App.tsx" */
+  reason: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Extensions treated as source when building the graph (in resolution order). */
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte"];
+
+/** Extra files a specifier may resolve to, tried after the source extensions. */
+const RESOLVE_EXTENSIONS = [...SOURCE_EXTENSIONS, ".json", ".css"];
+
+/** Upper bound on files read per graph build. */
+const MAX_GRAPH_FILES = 400;
+
+/** Files larger than this are left out of the graph. */
+const MAX_FILE_CHARS = 200_000;
+
+/** Upper bound on related files returned. */
+const MAX_RELATED = 8;
+
+/** Slots kept for name matches so a busy import list cannot crowd them out. */
+const NAME_MATCH_SLOTS = 2;
+
+/** Prompt words too common to say anything about file names. */
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "make", "add",
+  "use", "can", "you", "please", "file", "files", "code", "fix", "change",
+  "update", "create", "new", "when", "what", "why", "how", "all", "not",
+  "should", "would", "could", "are", "its", "has", "have", "function",
+  "component", "index", "src", "app", "lib",
+]);
+
+const IMPORT_PATTERNS = [
+  // import x from "y" / export { x } from "y" / import "y"
+  /(?:^|[^\w.$])(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?["']([^"'\n]+)["']/g,
+  // import("y")
+  /(?:^|[^\w.$])import\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+  // require("y")
+  /(?:^|[^\w.$])require\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+];
+
+// ─── Parsing ────────────────────────────────────────────────
+
+/** Module specifiers referenced by a source file, in order of appearance. */
+export function parseImports(source: string): string[] {
+  // Comments would otherwise yield phantom imports
+  const code = source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/(^|[^:])\/\/.*$/gm, "$1");
+  const found: { index: number; spec: string }[] = [];
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const m of code.matchAll(pattern)) {
+      found.push({ index: m.index ?? 0, spec: m[1] });
+    }
+  }
+  found.sort((a, b) => a.index - b.index);
+  return [...new Set(found.map((f) => f.spec))];
+}
+
+/** Normalise "a/./b/../c" to "a/c". Returns null if it escapes the root. */
+function normalisePath(path: string): string | null {
+  const out: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      if (out.length === 0) return null;
+      out.pop();
+    } else {
+      out.push(part);
+    }
+  }
+  return out.join("/");
+}
+
+/**
+ * Resolve `specifier` imported from `fromPath` to a project file, trying
+ * the specifier as-is, with each extension, then as a directory index.
+ */
+export function resolveImport(
+  fromPath: string,
+  specifier: string,
+  files: Set<string>
+): string | null {
+  let bases: string[];
+  if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    const dir = fromPath.includes("/") ? fromPath.slice(0, fromPath.lastIndexOf("/")) : "";
+    bases = [`${dir}/${specifier}`];
+  } else if (specifier.startsWith("@/") || specifier.startsWith("~/")) {
+    // Vite / Next templates alias these to either src/ or the root
+    bases = [`src/${specifier.slice(2)}`, specifier.slice(2)];
+  } else if (specifier.startsWith("/")) {
+    bases = [specifier];
+  } else {
+    return null; // bare package import
+  }
+
+  for (const raw of bases) {
+    const base = normalisePath(raw);
+    if (base === null) continue;
+    const candidates = [
+      base,
+      ...RESOLVE_EXTENSIONS.map((ext) => base + ext),
+      ...RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    // TS sources import siblings as "./x.js"
+    const jsExt = base.match(/\.(m|c)?jsx?$/);
+    if (jsExt) {
+      const stem = base.slice(0, -jsExt[0].length);
+      candidates.push(`${stem}.ts`, `${stem}.tsx`);
+    }
+    const hit = candidates.find((c) => files.has(c));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+// ─── Graph ──────────────────────────────────────────────────
+
+function isSourceFile(path: string): boolean {
+  return SOURCE_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+/**
+ * All file paths in the tree, skipping what the project's ignore rules
+ * leave out and environment files (their content must never reach the AI).
+ */
+export function listProjectFiles(nodes: FSNode[], rules: IgnoreRules): string[] {
+  const paths: string[] = [];
+  const walk = (list: FSNode[]) => {
+    for (const node of list) {
+      if (rules.isIgnored(node.path, node.isDirectory)) continue;
+      if (node.isDirectory) walk(node.children);
+      else if (!isEnvFile(node.path)) paths.push(node.path);
+    }
+  };
+  walk(nodes);
+  return paths;
+}
+
+/** Read the project tree and its ignore files, and list its files. */
+export async function loadProjectFiles(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<string[]> {
+  const tree = await listTree(userHash, projectId);
+  return listProjectFiles(tree, await loadIgnoreRules(userHash, projectId, tree, encryptionKey));
+}
+
+/** Build the import graph from already-loaded sources. */
+export function buildImportGraph(sources: Map<string, string>, allFiles: string[]): ImportGraph {
+  const files = new Set(allFiles);
+  const imports = new Map<string, string[]>();
+  const importers = new Map<string, string[]>();
+
+  for (const [path, source] of sources) {
+    const targets: string[] = [];
+    for (const spec of parseImports(source)) {
+      const target = resolveImport(path, spec, files);
+      if (target && target !== path && !targets.includes(target)) targets.push(target);
+    }
+    imports.set(path, targets);
+    for (const target of targets) {
+      const list = importers.get(target) ?? [];
+      list.push(path);
+      importers.set(target, list);
+    }
+  }
+
+  return { imports, importers };
+}
+
+/**
+ * Read the project's source files from OPFS and build its import graph.
+ * `overrides` supplies content that is newer than OPFS (the unsaved
+ * editor buffer). Returns the sources too so callers need not re-read.
+ */
+export async function loadImportGraph(
+  userHash: string,
+  projectId: string,
+  tree: FSNode[],
+  rules: IgnoreRules,
+  overrides: Map<string, string> = new Map(),
+  encryptionKey?: CryptoKey
+): Promise<{ graph: ImportGraph; sources: Map<string, string>; files: string[] }> {
+  const files = listProjectFiles(tree, rules);
+  const sources = new Map<string, string>();
+
+  await Promise.all(
+    files
+      .filter(isSourceFile)
+      .slice(0, MAX_GRAPH_FILES)
+      .map(async (path) => {
+        try {
+          const content =
+            overrides.get(path) ?? (await readFile(userHash, projectId, path, encryptionKey));
+          if (content.length <= MAX_FILE_CHARS) sources.set(path, content);
+        } catch {
+          // Unreadable — leave it out of the graph
+        }
+      })
+  );
+
+  return { graph: buildImportGraph(sources, files), sources, files };
+}
+
+// ─── Ranking ────────────────────────────────────────────────
+
+/** Lower-case words of a file name, split on case, digits and punctuation. */
+function nameWords(path: string): string[] {
+  const base = path.slice(path.lastIndexOf("/") + 1).replace(/\.[^.]+$/, "");
+  return base
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** Distinct, meaningful words of the prompt. */
+function promptTerms(prompt: string): string[] {
+  const words = prompt
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
+  return [...new Set(words)];
+}
+
+/** Files whose names share words with the prompt, best match first. */
+function matchFileNames(files: string[], prompt: string): { path: string; matched: string[] }[] {
+  const terms = promptTerms(prompt);
+  if (terms.length === 0) return [];
+  const matches = (term: string, word: string) =>
+    word === term ||
+    (term.length >= 4 && word.length >= 3 && (word.startsWith(term) || term.startsWith(word)));
+
+  return files
+    .map((path) => {
+      const words = nameWords(path);
+      return { path, matched: terms.filter((t) => words.some((w) => matches(t, w))) };
+    })
+    .filter((m) => m.matched.length > 0)
+    .sort(
+      (a, b) =>
+        b.matched.length - a.matched.length ||
+        // Source files ahead of assets on ties, then shallower paths
+        Number(isSourceFile(b.path)) - Number(isSourceFile(a.path)) ||
+        a.path.length - b.path.length
+    );
+}
+
+/**
+ * Rank the files worth showing alongside the active file. The active
+ * file itself is never included.
+ */
+export function rankRelatedFiles(
+  graph: ImportGraph,
+  files: string[],
+  activePath: string | null,
+  prompt: string
+): RelatedFile[] {
+  const picked = new Map<string, string>();
+  const add = (path: string, reason: string, limit = MAX_RELATED) => {
+    if (path !== activePath && !picked.has(path) && picked.size < limit) picked.set(path, reason);
+  };
+
+  // 1. Paths spelled out in the prompt
+  for (const path of files) {
+    if (prompt.includes(path)) add(path, "named in the prompt");
+  }
+
+  // Name matches are scored up front so neighbours can leave room for them
+  const nameMatches = matchFileNames(files, prompt);
+
+  // 2–3. Direct neighbours of the active file
+  if (activePath) {
+    const limit = MAX_RELATED - Math.min(NAME_MATCH_SLOTS, nameMatches.length);
+    for (const path of graph.imports.get(activePath) ?? []) add(path, `imported by ${activePath}`, limit);
+    for (const path of graph.importers.get(activePath) ?? []) add(path, `imports ${activePath}`, limit);
+  }
+
+  // 4. Name matches
+  for (const { path, matched } of nameMatches) {
+    add(path, `name matches "${matched.join('", "')}"`);
+  }
+
+  return [...picked].map(([path, reason]) => ({ path, reason }));
+}
@@ -0,0 +1,158 @@
+/**
+ * mentions.ts — `@` references in chat prompts.
+ *
+ * A prompt can pull extra context in explicitly:
+ *
+ *   @src/App.jsx        one file
+ *   @src/components/    every file in a folder (trailing slash optional)
+ *   @terminal           recent terminal output
+ *   @preview-errors     errors reported by the running preview
+ *
+ * This module only parses prompts and drives the input's autocomplete;
+ * `gatherContext` reads the referenced files and the chat sidebar
+ * supplies terminal / preview text.
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type Mention =
+  | { kind: "file"; path: string }
+  | { kind: "folder"; path: string }
+  | { kind: "terminal" }
+  | { kind: "preview-errors" };
+
+/** An `@` token being typed, as found by `mentionQueryAt`. */
+export interface MentionQuery {
+  /** Index of the "@" in the input */
+  start: number;
+  /** Text typed after the "@" */
+  query: string;
+}
+
+export interface MentionSuggestion {
+  /** Text inserted after the "@" */
+  value: string;
+  kind: Mention["kind"];
+  /** Short hint shown next to special mentions */
+  hint?: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Mentions that name a source of text rather than a path. */
+const SPECIAL_MENTIONS: MentionSuggestion[] = [
+  { value: "terminal", kind: "terminal", hint: "recent terminal output" },
+  { value: "preview-errors", kind: "preview-errors", hint: "errors from the preview" },
+];
+
+/** An "@" at the start of the input or after whitespace, then a path-ish token. */
+const MENTION_PATTERN = /(^|\s)@([\w.\-/]+)/g;
+
+/** Punctuation that can end a sentence right after a mention. */
+const TRAILING_PUNCTUATION = /[.,;:!?)]+$/;
+
+const MAX_SUGGESTIONS = 8;
+
+// ─── Parsing ────────────────────────────────────────────────
+
+/** Folder paths implied by a list of file paths ("a/b/c.ts" → "a", "a/b"). */
+function foldersOf(files: string[]): string[] {
+  const folders = new Set<string>();
+  for (const file of files) {
+    const parts = file.split("/");
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join("/"));
+  }
+  return [...folders].sort();
+}
+
+function resolveToken(token: string, files: Set<string>, folders: Set<string>): Mention | null {
+  if (token === "terminal") return { kind: "terminal" };
+  if (token === "preview-errors") return { kind: "preview-errors" };
+  const path = token.replace(/^\.?\//, "").replace(/\/+$/, "");
+  if (files.has(path)) return { kind: "file", path };
+  if (folders.has(path)) return { kind: "folder", path };
+  return null;
+}
+
+/**
+ * Every distinct mention in `prompt` that names something real. Unknown
+ * `@` tokens (e-mail addresses, decorators, typos) are ignored.
+ */
+export function parseMentions(prompt: string, files: string[]): Mention[] {
+  const fileSet = new Set(files);
+  const folderSet = new Set(foldersOf(files));
+  const mentions: Mention[] = [];
+  const seen = new Set<string>();
+
+  for (const m of prompt.matchAll(MENTION_PATTERN)) {
+    const token = m[2];
+    const mention =
+      resolveToken(token, fileSet, folderSet) ??
+      resolveToken(token.replace(TRAILING_PUNCTUATION, ""), fileSet, folderSet);
+    if (!mention) continue;
+    const key = "path" in mention ? `${mention.kind}:${mention.path}` : mention.kind;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    mentions.push(mention);
+  }
+  return mentions;
+}
+
+// ─── Autocomplete ───────────────────────────────────────────
+
+/** The `@` token the caret is in, or null when it is not inside one. */
+export function mentionQueryAt(text: string, caret: number): MentionQuery | null {
+  const before = text.slice(0, caret);
+  const m = before.match(/(^|\s)@([\w.\-/]*)$/);
+  if (!m) return null;
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
+
+/**
+ * Suggestions for a partial mention: special mentions, folders (with a
+ * trailing "/") and files. Path prefixes rank first, then file-name
+ * prefixes, then substrings; shallower paths win ties.
+ */
+export function suggestMentions(query: string, files: string[]): MentionSuggestion[] {
+  const q = query.toLowerCase();
+  const candidates: MentionSuggestion[] = [
+    ...SPECIAL_MENTIONS,
+    ...foldersOf(files).map((path) => ({ value: `${path}/`, kind: "folder" as const })),
+    ...files.map((path) => ({ value: path, kind: "file" as const })),
+  ];
+
+  const rank = (s: MentionSuggestion): number => {
+    const value = s.value.toLowerCase();
+    if (!q) return s.kind === "terminal" || s.kind === "preview-errors" ? 0 : 1;
+    if (value.startsWith(q)) return 0;
+    const name = value.replace(/\/$/, "").split("/").pop() ?? "";
+    if (name.startsWith(q)) return 1;
+    if (value.includes(q)) return 2;
+    return -1;
+  };
+
+  return candidates
+    .map((s) => ({ s, r: rank(s), depth: s.value.replace(/\/$/, "").split("/").length }))
+    .filter((c) => c.r >= 0)
+    .sort((a, b) => a.r - b.r || a.depth - b.depth || a.s.value.localeCompare(b.s.value))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((c) => c.s);
+}
+
+/**
+ * Replace the partial mention ending at `caret` with `value`. Folders
+ * keep the token open so the user can keep drilling down; anything else
+ * is followed by a space.
+ */
+export function insertMention(
+  text: string,
+  query: MentionQuery,
+  caret: number,
+  value: string
+): { text: string; caret: number } {
+  const inserted = `@${value}${value.endsWith("/") ? "" : " "}`;
+  return {
+    text: text.slice(0, query.start) + inserted + text.slice(caret),
+    caret: query.start + inserted.length,
+  };
+}
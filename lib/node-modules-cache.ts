@@ -0,0 +1,105 @@
+/**
+ * node_modules cache — snapshots of a project's installed dependencies.
+ *
+ * `npm install` is the slowest part of opening a project. After a
+ * successful install the container's `node_modules` is exported as a
+ * binary snapshot (`instance.export(…, { format: "binary" })`) and
+ * stored, encrypted with the same AES-GCM key as project files, under a
+ * name derived from the lockfile:
+ *
+ *   OPFS root / <userHash> / .node-modules / <projectId> / <lockHash>.bin
+ *
+ * The next time the project is mounted with the same `package-lock.json`
+ * the snapshot is mounted straight into `/node_modules` and the install
+ * is skipped; any other lockfile is a miss and installs as before. Only
+ * the newest snapshot is kept per project.
+ */
+
+import {
+  deleteProjectMeta,
+  getProjectMetaDirectory,
+  readMetaBytes,
+  writeMetaBytes,
+} from "./opfs";
+import { decryptBytes, encryptBytes } from "./opfs-crypto";
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .node-modules */
+const CACHE_NAMESPACE = "node-modules";
+
+const SNAPSHOT_EXT = ".bin";
+
+/** Snapshots larger than this are not stored — they would eat the OPFS quota. */
+export const MAX_SNAPSHOT_BYTES = 256 * 1024 * 1024;
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** SHA-256 hex of the lockfile content — the cache key. */
+export async function hashLockfile(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * The stored snapshot for this lockfile hash, or null on a miss.
+ * A snapshot that fails to read or decrypt, or whose write never
+ * finished, counts as a miss.
+ */
+export async function loadNodeModulesSnapshot(
+  userHash: string,
+  projectId: string,
+  lockHash: string,
+  encryptionKey?: CryptoKey
+): Promise<Uint8Array | null> {
+  try {
+    const data = await readMetaBytes(userHash, CACHE_NAMESPACE, projectId, `${lockHash}${SNAPSHOT_EXT}`);
+    if (!data) return null;
+    return encryptionKey ? await decryptBytes(data, encryptionKey) : data;
+  } catch (err) {
+    console.warn("[node-modules-cache] Ignoring unreadable snapshot:", err);
+    return null;
+  }
+}
+
+/**
+ * Store a snapshot under its lockfile hash and drop any older ones.
+ * Returns false (storing nothing) when the snapshot is over
+ * MAX_SNAPSHOT_BYTES.
+ */
+export async function saveNodeModulesSnapshot(
+  userHash: string,
+  projectId: string,
+  lockHash: string,
+  snapshot: Uint8Array,
+  encryptionKey?: CryptoKey
+): Promise<boolean> {
+  if (snapshot.byteLength > MAX_SNAPSHOT_BYTES) return false;
+
+  const name = `${lockHash}${SNAPSHOT_EXT}`;
+  const data = encryptionKey ? await encryptBytes(snapshot, encryptionKey) : snapshot;
+  await writeMetaBytes(userHash, CACHE_NAMESPACE, projectId, name, data as Uint8Array<ArrayBuffer>);
+
+  // Snapshots for older lockfiles (or their unfinished writes) will never match again
+  const dir = await getProjectMetaDirectory(userHash, CACHE_NAMESPACE, projectId);
+  const stale: string[] = [];
+  for await (const [entryName] of dir as unknown as AsyncIterable<[string, FileSystemHandle]>) {
+    if (entryName !== name) stale.push(entryName);
+  }
+  for (const entryName of stale) {
+    await dir.removeEntry(entryName).catch(() => { /* already gone */ });
+  }
+  return true;
+}
+
+/** Drop every snapshot of a deleted project. */
+export function deleteProjectNodeModules(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, CACHE_NAMESPACE, projectId);
+}
@@ -0,0 +1,411 @@
+/**
+ * npm package cache — registry downloads kept in OPFS for offline installs.
+ *
+ * Installs in the container use an npm cache directory inside the
+ * project root (`npm_config_cache`, see `spawnWithEnv`). After every
+ * install the IDE copies that cache's data — npm's content-addressed
+ * tarballs and its index — into OPFS. Before the next install in any
+ * project it copies back the entries the project's `package-lock.json`
+ * references, one file at a time, and runs `npm install --prefer-offline`
+ * (`--offline` when the browser is offline). A dependency set that was
+ * installed once installs again without the network.
+ *
+ * The cache is shared by all of a user's projects and mirrors npm's own
+ * layout, every file encrypted with the user's AES-GCM key:
+ *
+ *   OPFS root / <userHash> / .npm-cache / _cacache / index-v5 / …     (request → integrity)
+ *   OPFS root / <userHash> / .npm-cache / _cacache / content-v2 / …   (tarballs, metadata)
+ *
+ * It is capped at MAX_STORE_BYTES; the files stored longest ago are
+ * evicted first. `summarizeNpmCache` reads the index back for the cache
+ * management view (size, cached packages); entries can be removed one by
+ * one, by age or all at once.
+ */
+
+import { getUserDirectoryHandle } from "./opfs";
+import { decryptBytes, encryptBytes } from "./opfs-crypto";
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** A file of npm's cache; `path` is relative to the cache directory. */
+export interface NpmCacheFile {
+  path: string;
+  data: Uint8Array;
+}
+
+/** A registry tarball in the cache. */
+export interface CachedPackage {
+  name: string;
+  version: string;
+  /** Tarball size in bytes */
+  size: number;
+  /** Epoch millis when npm cached it */
+  cachedAt: number;
+  /** Index file that points at the tarball */
+  indexPath: string;
+  /** The tarball itself (null if its content file is missing) */
+  contentPath: string | null;
+}
+
+export interface NpmCacheSummary {
+  packages: CachedPackage[];
+  /** Everything stored, registry metadata included */
+  totalBytes: number;
+  fileCount: number;
+}
+
+/** One line of an npm cache index file. */
+interface IndexEntry {
+  key: string;
+  integrity: string | null;
+  time: number;
+  size: number;
+}
+
+/** A package in a v1 lockfile's nested `dependencies`. */
+interface LockV1Dependency {
+  resolved?: string;
+  integrity?: string;
+  dependencies?: Record<string, LockV1Dependency>;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** The container's npm cache, relative to the project root. */
+export const NPM_CACHE_DIR = ".npm-cache";
+
+/** User-level OPFS directory holding the cache. */
+const STORE_DIR = ".npm-cache";
+
+/** npm's content-addressed store inside its cache directory. */
+const CACACHE_DIR = "_cacache";
+
+/** Tarballs and metadata, named after their integrity hash. */
+const CACHE_CONTENT_DIR = `${CACACHE_DIR}/content-v2`;
+
+/** The parts of npm's cache worth keeping — logs and temp files are not. */
+const DATA_DIRS = [`${CACACHE_DIR}/index-v5`, CACHE_CONTENT_DIR];
+
+/** Stored bytes (encrypted) beyond which the oldest files are evicted. */
+const MAX_STORE_BYTES = 512 * 1024 * 1024;
+
+/** AES-GCM adds a 12-byte IV and a 16-byte tag to every stored file. */
+const ENCRYPTION_OVERHEAD = 28;
+
+/** Index keys of downloaded files: `make-fetch-happen:request-cache:<url>`. */
+const REQUEST_KEY_PREFIX = "make-fetch-happen:request-cache:";
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** True for paths (relative to the cache) that belong in the store. */
+function isNpmCacheDataPath(path: string): boolean {
+  return DATA_DIRS.some((dir) => path.startsWith(`${dir}/`));
+}
+
+/** Content files are named after their hash, so they never change once written. */
+function isContentPath(path: string): boolean {
+  return path.startsWith(`${CACHE_CONTENT_DIR}/`);
+}
+
+/** `sha512-<base64>` → the content file npm stores it under. */
+function contentPathFor(integrity: string): string | null {
+  const match = integrity.trim().split(/\s+/)[0].match(/^(sha\d+)-(.+)$/);
+  if (!match) return null;
+  const hex = Array.from(atob(match[2]), (c) => c.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+  return `${CACHE_CONTENT_DIR}/${match[1]}/${hex.slice(0, 2)}/${hex.slice(2, 4)}/${hex.slice(4)}`;
+}
+
+/** The index file npm keeps the entry for `key` in (a SHA-256 bucket). */
+async function indexPathFor(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${CACACHE_DIR}/index-v5/${hex.slice(0, 2)}/${hex.slice(2, 4)}/${hex.slice(4)}`;
+}
+
+/** `resolved` + `integrity` of every package in a lockfile (v1 – v3). */
+function lockedTarballs(lockfile: string): Array<{ resolved: string; integrity: string }> {
+  let lock: {
+    packages?: Record<string, { resolved?: string; integrity?: string }>;
+    dependencies?: Record<string, LockV1Dependency>;
+  };
+  try {
+    lock = JSON.parse(lockfile);
+  } catch {
+    return [];
+  }
+  const found: Array<{ resolved?: string; integrity?: string }> = Object.values(lock.packages ?? {});
+  const walk = (deps: Record<string, LockV1Dependency> = {}) => {
+    for (const dep of Object.values(deps)) {
+      found.push(dep);
+      walk(dep.dependencies);
+    }
+  };
+  if (!lock.packages) walk(lock.dependencies);
+  return found.filter(
+    (p): p is { resolved: string; integrity: string } =>
+      typeof p.resolved === "string" && typeof p.integrity === "string"
+  );
+}
+
+
+/**
+ * Name and version of a registry tarball URL, e.g.
+ * `https://registry.npmjs.org/@scope/pkg/-/pkg-1.2.3.tgz` → `@scope/pkg`, `1.2.3`.
+ */
+function parseTarballUrl(url: string): { name: string; version: string } | null {
+  let path: string;
+  try {
+    path = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+  const match = path.match(/^\/(.+)\/-\/([^/]+)\.tgz$/);
+  if (!match) return null;
+  const name = match[1];
+  const base = name.split("/").pop() ?? name;
+  const version = match[2].startsWith(`${base}-`) ? match[2].slice(base.length + 1) : match[2];
+  return { name, version };
+}
+
+/** The latest live entry per key in an index file (npm appends; null integrity = deleted). */
+function parseIndexFile(text: string): IndexEntry[] {
+  const entries = new Map<string, IndexEntry>();
+  for (const line of text.split("\n")) {
+    const json = line.slice(line.indexOf("\t") + 1);
+    if (!json.trim()) continue;
+    try {
+      const entry = JSON.parse(json) as IndexEntry;
+      if (entry.integrity) entries.set(entry.key, entry);
+      else entries.delete(entry.key);
+    } catch {
+      // Torn line from an interrupted write — skip it
+    }
+  }
+  return [...entries.values()];
+}
+
+async function getStoreDirectory(userHash: string): Promise<FileSystemDirectoryHandle> {
+  const userDir = await getUserDirectoryHandle(userHash);
+  return userDir.getDirectoryHandle(STORE_DIR, { create: true });
+}
+
+/** Resolve `a/b/c` to c's parent directory handle and its name. */
+async function resolveParent(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create: boolean
+): Promise<{ dir: FileSystemDirectoryHandle; name: string }> {
+  const segments = path.split("/");
+  const name = segments.pop()!;
+  let dir = root;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create });
+  }
+  return { dir, name };
+}
+
+/** Every stored file: path → stored size in bytes and when it was written. */
+async function listStoredFiles(
+  dir: FileSystemDirectoryHandle,
+  prefix = "",
+  out = new Map<string, { size: number; modified: number }>()
+): Promise<Map<string, { size: number; modified: number }>> {
+  for await (const [name, handle] of dir as unknown as AsyncIterable<
+    [string, FileSystemHandle]
+  >) {
+    const path = prefix ? `${prefix}/${name}` : name;
+    if (handle.kind === "directory") {
+      await listStoredFiles(handle as FileSystemDirectoryHandle, path, out);
+    } else {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      out.set(path, { size: file.size, modified: file.lastModified });
+    }
+  }
+  return out;
+}
+
+async function readStoredFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  encryptionKey?: CryptoKey
+): Promise<Uint8Array> {
+  const { dir, name } = await resolveParent(root, path, false);
+  const file = await (await dir.getFileHandle(name)).getFile();
+  const data = new Uint8Array(await file.arrayBuffer());
+  return encryptionKey ? decryptBytes(data, encryptionKey) : data;
+}
+
+async function removeStoredFile(root: FileSystemDirectoryHandle, path: string): Promise<void> {
+  try {
+    const { dir, name } = await resolveParent(root, path, false);
+    await dir.removeEntry(name);
+  } catch {
+    // Already gone
+  }
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * The stored files a lockfile's packages need: the index entry and the
+ * tarball of every `resolved` URL, relative to the cache directory.
+ */
+export async function lockfileCachePaths(lockfile: string): Promise<string[]> {
+  const paths = new Set<string>();
+  for (const { resolved, integrity } of lockedTarballs(lockfile)) {
+    paths.add(await indexPathFor(`${REQUEST_KEY_PREFIX}${resolved}`));
+    const contentPath = contentPathFor(integrity);
+    if (contentPath) paths.add(contentPath);
+  }
+  return [...paths];
+}
+
+/**
+ * Copy stored cache files into the container, decrypting one at a time
+ * so memory stays bounded by the largest file. Paths not in the store
+ * are skipped, as are files that fail to read or decrypt (npm re-fetches
+ * them). Returns how many files were copied.
+ *
+ * @param paths     — files to restore, relative to the cache directory
+ * @param writeFile — writes one of them into the container's cache
+ */
+export async function restoreNpmCacheFiles(
+  userHash: string,
+  paths: string[],
+  writeFile: (file: NpmCacheFile) => Promise<void>,
+  encryptionKey?: CryptoKey
+): Promise<number> {
+  const root = await getStoreDirectory(userHash);
+  const stored = await listStoredFiles(root);
+  let restored = 0;
+  for (const path of paths) {
+    if (!stored.has(path)) continue;
+    let data: Uint8Array;
+    try {
+      data = await readStoredFile(root, path, encryptionKey);
+    } catch (err) {
+      console.warn(`[npm-cache] Skipping unreadable ${path}:`, err);
+      continue;
+    }
+    await writeFile({ path, data });
+    restored++;
+  }
+  return restored;
+}
+
+/**
+ * Copy the container's cache files into the store: content files the
+ * store doesn't have yet (they never change once written) and index
+ * files whose size changed (npm appends to them). Unchanged content is
+ * never read out of the container. Returns how many files were written.
+ *
+ * @param paths    — every file in the container's cache, relative to it
+ * @param readFile — reads one of those files from the container
+ */
+export async function storeNpmCache(
+  userHash: string,
+  paths: string[],
+  readFile: (path: string) => Promise<Uint8Array>,
+  encryptionKey?: CryptoKey
+): Promise<number> {
+  const root = await getStoreDirectory(userHash);
+  const stored = await listStoredFiles(root);
+  const overhead = encryptionKey ? ENCRYPTION_OVERHEAD : 0;
+  let written = 0;
+
+  for (const path of paths) {
+    if (!isNpmCacheDataPath(path) || (isContentPath(path) && stored.has(path))) continue;
+    const data = await readFile(path);
+    if (stored.get(path)?.size === data.byteLength + overhead) continue;
+
+    const { dir, name } = await resolveParent(root, path, true);
+    const payload = encryptionKey ? await encryptBytes(data, encryptionKey) : data;
+    const writable = await (await dir.getFileHandle(name, { create: true })).createWritable();
+    await writable.write(payload as Uint8Array<ArrayBuffer>);
+    await writable.close();
+    stored.set(path, { size: payload.byteLength, modified: Date.now() });
+    written++;
+  }
+
+  if (written > 0) await evictOldest(root, stored);
+  return written;
+}
+
+/** Remove the files stored longest ago until the store fits MAX_STORE_BYTES. */
+async function evictOldest(
+  root: FileSystemDirectoryHandle,
+  stored: Map<string, { size: number; modified: number }>
+): Promise<void> {
+  let total = 0;
+  for (const { size } of stored.values()) total += size;
+  if (total <= MAX_STORE_BYTES) return;
+
+  const oldestFirst = [...stored].sort((a, b) => a[1].modified - b[1].modified);
+  for (const [path, { size }] of oldestFirst) {
+    if (total <= MAX_STORE_BYTES) break;
+    await removeStoredFile(root, path);
+    total -= size;
+  }
+}
+
+/** Size and contents of the cache, for the management view. */
+export async function summarizeNpmCache(
+  userHash: string,
+  encryptionKey?: CryptoKey
+): Promise<NpmCacheSummary> {
+  const root = await getStoreDirectory(userHash);
+  const stored = await listStoredFiles(root);
+  const overhead = encryptionKey ? ENCRYPTION_OVERHEAD : 0;
+  const packages: CachedPackage[] = [];
+  let totalBytes = 0;
+
+  for (const [path, { size }] of stored) {
+    totalBytes += size - overhead;
+    if (isContentPath(path)) continue;
+
+    let text: string;
+    try {
+      text = new TextDecoder().decode(await readStoredFile(root, path, encryptionKey));
+    } catch {
+      continue;
+    }
+    for (const entry of parseIndexFile(text)) {
+      if (!entry.key.startsWith(REQUEST_KEY_PREFIX) || !entry.integrity) continue;
+      const pkg = parseTarballUrl(entry.key.slice(REQUEST_KEY_PREFIX.length));
+      if (!pkg) continue; // registry metadata, not a tarball
+      const contentPath = contentPathFor(entry.integrity);
+      packages.push({
+        ...pkg,
+        size: entry.size,
+        cachedAt: entry.time,
+        indexPath: path,
+        contentPath: contentPath && stored.has(contentPath) ? contentPath : null,
+      });
+    }
+  }
+
+  packages.sort((a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version));
+  return { packages, totalBytes, fileCount: stored.size };
+}
+
+/** Remove packages from the cache (their index entry and tarball). */
+export async function removeCachedPackages(
+  userHash: string,
+  packages: CachedPackage[]
+): Promise<void> {
+  const root = await getStoreDirectory(userHash);
+  for (const pkg of packages) {
+    await removeStoredFile(root, pkg.indexPath);
+    if (pkg.contentPath) await removeStoredFile(root, pkg.contentPath);
+  }
+}
+
+/** Delete the whole cache. */
+export async function clearNpmCache(userHash: string): Promise<void> {
+  const userDir = await getUserDirectoryHandle(userHash);
+  try {
+    await userDir.removeEntry(STORE_DIR, { recursive: true });
+  } catch {
+    // Nothing cached — that's fine
+  }
+}
@@ -8,6 +8,8 @@
  *   - importKeyHex()      → re-import hex as CryptoKey on session restore
  *   - encryptContent()    → AES-GCM encrypt (12-byte IV prepended, base64)
  *   - decryptContent()    → AES-GCM decrypt
+ *   - encryptBytes()      → AES-GCM encrypt binary data (IV prepended, raw bytes)
+ *   - decryptBytes()      → AES-GCM decrypt binary data
  *
  * The encryption key is derived from the user's password + a purpose salt.
  * It is NEVER persisted to localStorage or cookies — only held in React
@@ -167,3 +169,41 @@ export async function decryptContent(
 
   return new TextDecoder().decode(plaintext);
 }
+
+/**
+ * Encrypt binary data with AES-GCM.
+ * Returns raw bytes: 12-byte IV + ciphertext (no base64 — the data can
+ * be large).
+ */
+export async function encryptBytes(
+  data: Uint8Array,
+  key: CryptoKey
+): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    data as Uint8Array<ArrayBuffer>
+  );
+
+  const combined = new Uint8Array(iv.length + ciphertext.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(ciphertext), iv.length);
+  return combined;
+}
+
+/**
+ * Decrypt binary data produced by encryptBytes.
+ * Expects raw bytes: 12-byte IV + ciphertext.
+ */
+export async function decryptBytes(
+  combined: Uint8Array,
+  key: CryptoKey
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new Uint8Array(plaintext);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { OPFSWriteQueue, type WriteOp } from "./opfs-write-queue";
+
+/** A queue whose tasks log their op, and a way to hold it up until released. */
+function setup() {
+  const queue = new OPFSWriteQueue({ maxAttempts: 1 });
+  const log: string[] = [];
+  const failing = new Set<string>();
+  const add = (key: string, op: WriteOp) =>
+    queue
+      .enqueue({
+        key,
+        op,
+        execute: async () => {
+          const label = op.kind === "rename" ? `rename ${op.from} ${op.to}` : `${op.kind} ${op.path}`;
+          if (failing.has(label)) throw new Error(`${label} failed`);
+          log.push(label + (op.kind === "write" ? ` ${op.content}` : ""));
+        },
+      })
+      .catch(() => {});
+  let release = () => {};
+  const held = new Promise<void>((resolve) => (release = resolve));
+  const hold = () => queue.enqueue({ key: "hold", execute: () => held });
+  return { queue, log, failing, add, hold, release };
+}
+
+describe("OPFSWriteQueue", () => {
+  it("drops an older queued write to the same path", async () => {
+    const { queue, log, add, hold, release } = setup();
+    hold();
+    add("a", { kind: "write", path: "a", content: "1" });
+    add("a", { kind: "write", path: "a", content: "2" });
+    release();
+    await queue.flush();
+    expect(log).toEqual(["write a 2"]);
+  });
+
+  it("keeps an older write that a later rename carries", async () => {
+    const { queue, log, add, hold, release } = setup();
+    hold();
+    add("a", { kind: "write", path: "a", content: "1" });
+    add("a → b", { kind: "rename", from: "a", to: "b" });
+    add("a", { kind: "write", path: "a", content: "2" });
+    release();
+    await queue.flush();
+    expect(log).toEqual(["write a 1", "rename a b", "write a 2"]);
+  });
+
+  it("runs failed tasks again before a later delete", async () => {
+    const { queue, log, failing, add } = setup();
+    failing.add("write d/x");
+    await add("d/x", { kind: "write", path: "d/x", content: "1" });
+    expect(queue.status().failed).toBe(1);
+
+    failing.clear();
+    await add("d", { kind: "delete", path: "d" });
+    expect(log).toEqual(["write d/x 1", "delete d"]);
+    expect(queue.status().failed).toBe(0);
+  });
+});
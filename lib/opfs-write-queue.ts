@@ -3,39 +3,161 @@
  *
  * OPFS writes can be slow (encrypt → write to disk) and must not
  * block the UI or race against each other. This queue:
- *   1. Accepts write tasks and enqueues them.
+ *   1. Accepts write tasks and enqueues them; `enqueue()` returns a
+ *      promise that settles once the task has committed or given up.
  *   2. Drains tasks one-at-a-time in FIFO order.
  *   3. Coalesces writes to the same file path — if a newer write
- *      arrives while an older one is queued, the older one is dropped.
- *   4. Exposes a `flush()` method that resolves once the queue empties
- *      (useful before navigation or cleanup).
+ *      arrives while an older one is queued, the older one is dropped
+ *      (and its promise settles with the newer one). The newer one
+ *      joins the back of the queue, so it still runs after every task
+ *      queued before it (e.g. a delete of its parent directory). An
+ *      older task with a delete or rename queued after it is kept: the
+ *      rename would otherwise carry the content from before it.
+ *   4. Retries a failing task with exponential backoff (quota errors,
+ *      transient locks) before reporting it as failed. Failed tasks are
+ *      kept and can be retried with `retryFailed()`.
+ *   5. Records every task not yet committed in a journal (when one is
+ *      given, see write-journal.ts) before running it, so writes lost to
+ *      a crash or reload are replayed on the next load.
+ *   6. Exposes its status (pending / failed / last error) to
+ *      subscribers, and a `flush()` method that resolves once the queue
+ *      empties (useful before navigation or cleanup).
  */
 
+// ─── Types ──────────────────────────────────────────────────
+
+/** Serializable description of a task, for the journal. */
+export type WriteOp =
+  | { kind: "write"; path: string; content: string }
+  | { kind: "mkdir"; path: string }
+  | { kind: "delete"; path: string }
+  | { kind: "rename"; from: string; to: string };
+
 export interface WriteTask {
   /** Unique key for coalescing — usually the relative file path. */
   key: string;
   /** The async work to perform. */
   execute: () => Promise<void>;
+  /** What `execute` does, for the journal — tasks without one aren't journaled. */
+  op?: WriteOp;
+}
+
+export interface WriteQueueStatus {
+  /** Tasks not yet committed: queued, running or waiting to retry. */
+  pending: number;
+  /** Tasks that gave up after every attempt. */
+  failed: number;
+  /** The most recent failure, cleared once a drain ends with none failed. */
+  lastError: string | null;
+}
+
+/** Where the queue records tasks that haven't committed yet. */
+export interface WriteJournal {
+  /** Replace the journal with these operations (empty = nothing outstanding). */
+  save(ops: WriteOp[]): Promise<void>;
+}
+
+export interface WriteQueueOptions {
+  journal?: WriteJournal;
+  /** Attempts per task before it counts as failed (default: 5). */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled for each one after (default: 250). */
+  retryDelay?: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+interface Entry {
+  task: WriteTask;
+  /** Everyone waiting on this task, including tasks it replaced */
+  waiters: Waiter[];
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY = 250;
+
+/** Backoff never waits longer than this between attempts (ms). */
+const MAX_RETRY_DELAY = 8000;
+
+/** Whether tasks queued before `op` must run before it. */
+function isStructural(op: WriteOp | undefined): boolean {
+  return op?.kind === "delete" || op?.kind === "rename";
 }
 
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+}
+
+// ─── Queue ──────────────────────────────────────────────────
+
 export class OPFSWriteQueue {
-  private queue: WriteTask[] = [];
+  private queue: Entry[] = [];
+  private active: Entry | null = null;
+  private failedEntries: Entry[] = [];
   private running = false;
   private flushResolvers: Array<() => void> = [];
+  private journal: WriteJournal | null;
+  private maxAttempts: number;
+  private retryDelay: number;
+  /** Tasks were added since the journal was last saved. */
+  private journalDirty = false;
+  /** Number of operations in the journal as last saved. */
+  private journaled = 0;
+  private lastError: string | null = null;
+  private listeners = new Set<() => void>();
+  private snapshot: WriteQueueStatus = { pending: 0, failed: 0, lastError: null };
+
+  constructor(options: WriteQueueOptions = {}) {
+    this.journal = options.journal ?? null;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  }
 
   /**
    * Enqueue a write task. If a task with the same key is already
-   * queued (but not yet executing), it is replaced with the newer one.
+   * queued (but not yet executing) or has failed, it is dropped in
+   * favour of the newer one, which goes to the back. Resolves once the task has committed; rejects with
+   * its last error once every attempt has failed.
+   *
+   * A delete or rename first queues every failed task again, so none of
+   * them can be retried after it and bring back the path it moved.
    */
-  enqueue(task: WriteTask): void {
-    // Coalesce: drop any older queued entry with the same key
-    const idx = this.queue.findIndex((t) => t.key === task.key);
-    if (idx !== -1) {
-      this.queue[idx] = task;
-    } else {
-      this.queue.push(task);
-    }
+  enqueue(task: WriteTask): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+
+      // A newer write supersedes one that failed for the same key
+      this.failedEntries = this.failedEntries.filter((e) => e.task.key !== task.key);
+      if (isStructural(task.op)) {
+        this.queue.push(...this.failedEntries);
+        this.failedEntries = [];
+      }
+
+      // Coalesce: drop the last queued entry with the same key, keeping its waiters
+      let idx = this.queue.findLastIndex((e) => e.task.key === task.key);
+      if (this.queue.slice(idx + 1).some((e) => isStructural(e.task.op))) idx = -1;
+      const waiters = idx === -1 ? [waiter] : [...this.queue.splice(idx, 1)[0].waiters, waiter];
+      this.queue.push({ task, waiters });
+      this.journalDirty = true;
+      this.notify();
 
+      if (!this.running) {
+        this.drain();
+      }
+    });
+  }
+
+  /** Queue every failed task again, oldest first. */
+  retryFailed(): void {
+    if (this.failedEntries.length === 0) return;
+    this.queue.unshift(...this.failedEntries);
+    this.failedEntries = [];
+    this.notify();
     if (!this.running) {
       this.drain();
     }
@@ -43,7 +165,7 @@ export class OPFSWriteQueue {
 
   /**
    * Returns a promise that resolves when the queue is completely
-   * drained (all pending tasks finished).
+   * drained (all pending tasks finished or failed).
    */
   flush(): Promise<void> {
     if (this.queue.length === 0 && !this.running) {
@@ -59,22 +181,53 @@ export class OPFSWriteQueue {
     return this.queue.length;
   }
 
+  /** Current status. Stable between changes. */
+  status(): WriteQueueStatus {
+    return this.snapshot;
+  }
+
+  /** Be told whenever the status changes. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   // ── Internal ──────────────────────────────────────────────
 
   private async drain(): Promise<void> {
     if (this.running) return;
     this.running = true;
 
-    while (this.queue.length > 0) {
-      const task = this.queue.shift()!;
-      try {
-        await task.execute();
-      } catch (err) {
-        console.error(`[OPFSWriteQueue] Task "${task.key}" failed:`, err);
+    do {
+      while (this.queue.length > 0) {
+        // New tasks reach the journal before any of them runs
+        if (this.journalDirty) await this.saveJournal();
+
+        const entry = this.queue.shift()!;
+        this.active = entry;
+        try {
+          await this.execute(entry.task);
+          for (const waiter of entry.waiters) waiter.resolve();
+        } catch (err) {
+          console.error(`[OPFSWriteQueue] Task "${entry.task.key}" failed:`, err);
+          this.lastError = errorMessage(err);
+          this.failedEntries.push(entry);
+          for (const waiter of entry.waiters) waiter.reject(err);
+          entry.waiters = [];
+        }
+        this.active = null;
+        this.notify();
       }
-    }
 
+      // Leave only the failed tasks in the journal
+      if (this.journalDirty || this.journaled > 0) await this.saveJournal();
+    } while (this.queue.length > 0); // Tasks may arrive while the journal saves
+
+    if (this.failedEntries.length === 0) this.lastError = null;
     this.running = false;
+    this.notify();
 
     // Notify any flush() waiters
     for (const resolve of this.flushResolvers) {
@@ -82,4 +235,45 @@ export class OPFSWriteQueue {
     }
     this.flushResolvers = [];
   }
+
+  /** Run a task, retrying with exponential backoff. */
+  private async execute(task: WriteTask): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await task.execute();
+        return;
+      } catch (err) {
+        if (attempt >= this.maxAttempts) throw err;
+        this.lastError = errorMessage(err);
+        this.notify();
+        const delay = Math.min(this.retryDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /** Persist the operations of every task that hasn't committed. */
+  private async saveJournal(): Promise<void> {
+    this.journalDirty = false;
+    if (!this.journal) return;
+    const ops = [...this.failedEntries, ...(this.active ? [this.active] : []), ...this.queue]
+      .map((e) => e.task.op)
+      .filter((op): op is WriteOp => op !== undefined);
+    try {
+      await this.journal.save(ops);
+      this.journaled = ops.length;
+    } catch (err) {
+      // The writes themselves matter more than their journal
+      console.warn("[OPFSWriteQueue] Failed to save the journal:", err);
+    }
+  }
+
+  private notify(): void {
+    this.snapshot = {
+      pending: this.queue.length + (this.active ? 1 : 0),
+      failed: this.failedEntries.length,
+      lastError: this.lastError,
+    };
+    for (const listener of this.listeners) listener();
+  }
 }
@@ -11,6 +11,10 @@
  * decrypted after reading, using an in-memory CryptoKey derived
  * from the user's password. The key never touches localStorage.
  *
+ * Files are never overwritten in place (see Atomic Writes), so a crash
+ * mid-write can't leave a truncated ciphertext behind; the repair pass
+ * finishes or rolls back interrupted writes before a project is mounted.
+ *
  * All operations are async.
  */
 
@@ -69,6 +73,197 @@ async function getProjectRoot(
   return userDir.getDirectoryHandle(projectId, { create: true });
 }
 
+/**
+ * Get a per-project metadata directory: OPFS / <userHash> / .<namespace> / <projectId>.
+ *
+ * Metadata (undo history, chat threads, …) lives next to the projects
+ * rather than inside them, so it never shows up in the file tree or
+ * gets mounted into the WebContainer. Creates directories as needed.
+ */
+export async function getProjectMetaDirectory(
+  userHash: string,
+  namespace: string,
+  projectId: string
+): Promise<FileSystemDirectoryHandle> {
+  const userDir = await getUserDirectoryHandle(userHash);
+  const nsDir = await userDir.getDirectoryHandle(`.${namespace}`, { create: true });
+  return nsDir.getDirectoryHandle(projectId, { create: true });
+}
+
+/**
+ * Read a JSON document from a project's metadata directory, decrypting
+ * it when a key is given. Returns null when it doesn't exist and throws
+ * when it fails to decrypt or parse. An interrupted write is recovered
+ * first, as `repairProjectFiles` does for project files.
+ */
+export async function readMetaJson<T>(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fileName: string,
+  encryptionKey?: CryptoKey
+): Promise<T | null> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  const raw = await withFileLock(userHash, `.${namespace}/${projectId}`, fileName, async () => {
+    const interrupted =
+      (await getFileOrNull(dir, fileName + PENDING_SUFFIX)) !== null ||
+      (await getFileOrNull(dir, fileName + BACKUP_SUFFIX)) !== null;
+    if (interrupted) {
+      await repairFile(dir, fileName, `.${namespace}/${projectId}/${fileName}`, encryptionKey);
+    }
+    return readRaw(dir, fileName);
+  });
+  if (raw === null) return null;
+  const json = encryptionKey ? await decryptContent(raw, encryptionKey) : raw;
+  return JSON.parse(json) as T;
+}
+
+/**
+ * Names of the JSON documents in a project's metadata directory,
+ * including any only left as a copy by an interrupted write —
+ * `readMetaJson` recovers those.
+ */
+export async function listMetaJson(
+  userHash: string,
+  namespace: string,
+  projectId: string
+): Promise<string[]> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  const names = new Set<string>();
+  for await (const [name, handle] of dir as unknown as AsyncIterable<
+    [string, FileSystemHandle]
+  >) {
+    const base = writeArtefactBase(name) ?? name;
+    if (handle.kind === "file" && base.endsWith(".json")) names.add(base);
+  }
+  return [...names];
+}
+
+/**
+ * Replace a JSON document in a project's metadata directory, encrypting
+ * it when a key is given. Written like a project file (see Atomic Writes).
+ */
+export async function writeMetaJson(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fileName: string,
+  value: unknown,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  const json = JSON.stringify(value);
+  const data = encryptionKey ? await encryptContent(json, encryptionKey) : json;
+  await withFileLock(userHash, `.${namespace}/${projectId}`, fileName, () =>
+    replaceFile(dir, fileName, data, encryptionKey)
+  );
+}
+
+/**
+ * Binary content of a metadata file written by `writeMetaBytes`, or
+ * null if it doesn't exist or its last write never finished.
+ */
+export async function readMetaBytes(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fileName: string
+): Promise<Uint8Array | null> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  return withFileLock(userHash, `.${namespace}/${projectId}`, fileName, async () => {
+    if ((await getFileOrNull(dir, fileName + PENDING_SUFFIX)) !== null) return null;
+    const handle = await getFileOrNull(dir, fileName);
+    return handle ? new Uint8Array(await (await handle.getFile()).arrayBuffer()) : null;
+  });
+}
+
+/**
+ * Store a binary metadata file. The data goes to a temporary copy that
+ * is only removed once the file is complete, so a write cut short reads
+ * as missing rather than partial. There's no previous version to fall
+ * back to — meant for data that can be rebuilt, like caches.
+ */
+export async function writeMetaBytes(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fileName: string,
+  data: Uint8Array<ArrayBuffer>
+): Promise<void> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  const pending = fileName + PENDING_SUFFIX;
+  await withFileLock(userHash, `.${namespace}/${projectId}`, fileName, async () => {
+    const handle: MovableFileHandle = await dir.getFileHandle(pending, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(data);
+    await writable.close();
+
+    if (handle.move) {
+      await removeIfExists(dir, fileName);
+      await handle.move(fileName);
+      return;
+    }
+    const target = await (await dir.getFileHandle(fileName, { create: true })).createWritable();
+    await target.write(await handle.getFile());
+    await target.close();
+    await removeIfExists(dir, pending);
+  });
+}
+
+/** Rename a metadata file, replacing whatever is already under the new name. */
+export async function renameMetaFile(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fromName: string,
+  toName: string
+): Promise<void> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  await withFileLock(userHash, `.${namespace}/${projectId}`, fromName, async () => {
+    const handle: MovableFileHandle = await dir.getFileHandle(fromName);
+    await removeIfExists(dir, toName);
+    if (handle.move) {
+      await handle.move(toName);
+      return;
+    }
+    await writeRaw(dir, toName, await (await handle.getFile()).text());
+    await dir.removeEntry(fromName);
+  });
+}
+
+/** Remove a JSON document from a project's metadata directory, if it's there. */
+export async function deleteMetaJson(
+  userHash: string,
+  namespace: string,
+  projectId: string,
+  fileName: string
+): Promise<void> {
+  const dir = await getProjectMetaDirectory(userHash, namespace, projectId);
+  await withFileLock(userHash, `.${namespace}/${projectId}`, fileName, async () => {
+    await removeIfExists(dir, fileName);
+    await removeIfExists(dir, fileName + PENDING_SUFFIX);
+    await removeIfExists(dir, fileName + BACKUP_SUFFIX);
+  });
+}
+
+/**
+ * Delete a project's metadata directory for one namespace.
+ * A missing directory is not an error.
+ */
+export async function deleteProjectMeta(
+  userHash: string,
+  namespace: string,
+  projectId: string
+): Promise<void> {
+  const userDir = await getUserDirectoryHandle(userHash);
+  try {
+    const nsDir = await userDir.getDirectoryHandle(`.${namespace}`);
+    await nsDir.removeEntry(projectId, { recursive: true });
+  } catch {
+    // Nothing stored for this project — that's fine
+  }
+}
+
 /**
  * Resolve a path like "src/utils/helpers.ts" into its parent
  * directory handle + the final segment name.
@@ -102,6 +297,173 @@ async function ensureParentDirs(
   return current;
 }
 
+// ─── Atomic Writes ──────────────────────────────────────────
+
+/**
+ * A file is replaced in steps, through two hidden siblings:
+ *
+ *   <name>.southstack-new  — the new version, written and checked first
+ *   <name>.southstack-old  — the previous version, kept until the new
+ *                            one has replaced the file
+ *
+ * The swaps are renames (`FileSystemFileHandle.move`) where the browser
+ * has them, copies otherwise. Whenever a write is interrupted at least
+ * one intact copy is left, and `repairProjectFiles` restores it on the
+ * next load. "Intact" means it decrypts — AES-GCM rejects truncated
+ * ciphertext. Writes to one path are serialized, as they share siblings.
+ *
+ * A directory rename is a copy followed by a delete; a marker next to
+ * the source (<name>.southstack-move) records it until it's done, so
+ * repair can finish an interrupted one.
+ */
+const PENDING_SUFFIX = ".southstack-new";
+const BACKUP_SUFFIX = ".southstack-old";
+const MOVE_SUFFIX = ".southstack-move";
+
+function isWriteArtefact(name: string): boolean {
+  return name.endsWith(PENDING_SUFFIX) || name.endsWith(BACKUP_SUFFIX) || name.endsWith(MOVE_SUFFIX);
+}
+
+/** The file a write's pending or backup copy belongs to, or null. */
+function writeArtefactBase(name: string): string | null {
+  if (name.endsWith(PENDING_SUFFIX)) return name.slice(0, -PENDING_SUFFIX.length);
+  if (name.endsWith(BACKUP_SUFFIX)) return name.slice(0, -BACKUP_SUFFIX.length);
+  return null;
+}
+
+/** `move()` isn't in TypeScript's DOM types yet, nor in every browser. */
+type MovableFileHandle = FileSystemFileHandle & {
+  move?: (newName: string) => Promise<void>;
+};
+
+/** Writes in progress per file (user / project / path). */
+const fileLocks = new Map<string, Promise<void>>();
+
+/** Run `task` once every earlier task for the same file has settled. */
+async function withFileLock<T>(
+  userHash: string,
+  projectId: string,
+  filePath: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const key = [userHash, projectId, ...filePath.split("/").filter(Boolean)].join("/");
+  const run = (fileLocks.get(key) ?? Promise.resolve()).then(task);
+  const settled = run.then(
+    () => undefined,
+    () => undefined
+  );
+  fileLocks.set(key, settled);
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(key) === settled) fileLocks.delete(key);
+  }
+}
+
+/** A file's handle, or null if it doesn't exist. */
+async function getFileOrNull(
+  dir: FileSystemDirectoryHandle,
+  name: string
+): Promise<MovableFileHandle | null> {
+  try {
+    return await dir.getFileHandle(name);
+  } catch (err) {
+    if ((err as DOMException)?.name === "NotFoundError") return null;
+    throw err;
+  }
+}
+
+/** Raw (still-encrypted) content of a file, or null if it doesn't exist. */
+async function readRaw(
+  dir: FileSystemDirectoryHandle,
+  name: string
+): Promise<string | null> {
+  const handle = await getFileOrNull(dir, name);
+  return handle ? (await handle.getFile()).text() : null;
+}
+
+async function writeRaw(
+  dir: FileSystemDirectoryHandle,
+  name: string,
+  data: string
+): Promise<void> {
+  const fileHandle = await dir.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+async function removeIfExists(
+  dir: FileSystemDirectoryHandle,
+  name: string
+): Promise<void> {
+  await dir.removeEntry(name).catch(() => {
+    // Not there — nothing to remove
+  });
+}
+
+/** Whether raw content is complete. Without a key there's nothing to check. */
+async function isIntact(raw: string, encryptionKey?: CryptoKey): Promise<boolean> {
+  if (!encryptionKey) return true;
+  try {
+    await decryptContent(raw, encryptionKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace (or create) a file with raw `data` without ever leaving it
+ * half-written. Throws if a step fails; whatever is left behind is
+ * recovered by the repair pass. Call it under `withFileLock`.
+ */
+async function replaceFile(
+  dir: FileSystemDirectoryHandle,
+  name: string,
+  data: string,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  const pending = name + PENDING_SUFFIX;
+  const backup = name + BACKUP_SUFFIX;
+
+  // 1. Write the new version next to the file and check it
+  await writeRaw(dir, pending, data);
+  if ((await readRaw(dir, pending)) !== data || !(await isIntact(data, encryptionKey))) {
+    await removeIfExists(dir, pending);
+    throw new Error(`Writing "${name}" failed — the new version didn't read back intact.`);
+  }
+
+  // 2. Keep the current version as the backup — unless it is damaged and
+  //    an earlier failed write left a better one
+  const current = await getFileOrNull(dir, name);
+  const keepCurrent =
+    current !== null &&
+    ((await getFileOrNull(dir, backup)) === null ||
+      (await isIntact(await (await current.getFile()).text(), encryptionKey)));
+  if (current && keepCurrent) {
+    await removeIfExists(dir, backup);
+    if (current.move) await current.move(backup);
+    else await writeRaw(dir, backup, await (await current.getFile()).text());
+  }
+
+  // 3. Swap the new version in
+  const next: MovableFileHandle = await dir.getFileHandle(pending);
+  if (next.move) {
+    await removeIfExists(dir, name); // Still there if it wasn't worth keeping
+    await next.move(name);
+  } else {
+    await writeRaw(dir, name, data);
+    if ((await readRaw(dir, name)) !== data) {
+      throw new Error(`Writing "${name}" failed — the previous version is kept for repair.`);
+    }
+    await removeIfExists(dir, pending);
+  }
+
+  // 4. Only now drop the previous version
+  await removeIfExists(dir, backup);
+}
+
 // ─── Read Operations ────────────────────────────────────────
 
 /**
@@ -117,10 +479,19 @@ async function readDir(
   basePath: string
 ): Promise<FSNode[]> {
   const entries: FSNode[] = [];
+  const files = new Set<string>();
+  // Files only present as a copy — mid-swap in a write (see Atomic Writes)
+  const swapping = new Set<string>();
 
   for await (const [name, handle] of dirHandle as unknown as AsyncIterable<
     [string, FileSystemHandle]
   >) {
+    // Copies kept by an unfinished write aren't project files
+    if (handle.kind === "file" && isWriteArtefact(name)) {
+      const base = writeArtefactBase(name);
+      if (base) swapping.add(base);
+      continue;
+    }
     const path = basePath ? `${basePath}/${name}` : name;
 
     if (handle.kind === "directory") {
@@ -130,9 +501,14 @@ async function readDir(
       );
       entries.push({ name, path, isDirectory: true, children });
     } else {
+      files.add(name);
       entries.push({ name, path, isDirectory: false, children: [] });
     }
   }
+  for (const name of swapping) {
+    if (files.has(name)) continue;
+    entries.push({ name, path: basePath ? `${basePath}/${name}` : name, isDirectory: false, children: [] });
+  }
 
   // Sort: directories first, then alphabetical
   entries.sort((a, b) => {
@@ -155,9 +531,11 @@ export async function readFile(
 ): Promise<string> {
   const root = await getProjectRoot(userHash, projectId);
   const { parent, name } = await resolvePath(root, filePath);
-  const fileHandle = await parent.getFileHandle(name);
-  const file = await fileHandle.getFile();
-  const raw = await file.text();
+  // Waits out a write in progress, which briefly moves the file aside
+  const raw = await withFileLock(userHash, projectId, filePath, async () => {
+    const fileHandle = await parent.getFileHandle(name);
+    return (await fileHandle.getFile()).text();
+  });
 
   if (encryptionKey) {
     return decryptContent(raw, encryptionKey);
@@ -183,11 +561,10 @@ export async function writeFile(
   const parentDir = await ensureParentDirs(root, filePath);
   const segments = filePath.split("/").filter(Boolean);
   const fileName = segments[segments.length - 1];
-  const fileHandle = await parentDir.getFileHandle(fileName, { create: true });
-  const writable = await fileHandle.createWritable();
   const data = encryptionKey ? await encryptContent(content, encryptionKey) : content;
-  await writable.write(data);
-  await writable.close();
+  await withFileLock(userHash, projectId, filePath, () =>
+    replaceFile(parentDir, fileName, data, encryptionKey)
+  );
 }
 
 /**
@@ -206,24 +583,24 @@ export async function createFile(
   const segments = filePath.split("/").filter(Boolean);
   const fileName = segments[segments.length - 1];
 
-  // Check if it already exists
-  try {
-    await parentDir.getFileHandle(fileName);
-    throw new Error(`File "${filePath}" already exists.`);
-  } catch (err: unknown) {
-    const e = err as { name?: string; message?: string };
-    if (e.name !== "NotFoundError") {
-      throw err;
-    }
-  }
-
-  const fileHandle = await parentDir.getFileHandle(fileName, { create: true });
-  const writable = await fileHandle.createWritable();
   const data = encryptionKey
     ? await encryptContent(initialContent, encryptionKey)
     : initialContent;
-  await writable.write(data);
-  await writable.close();
+
+  await withFileLock(userHash, projectId, filePath, async () => {
+    // Check if it already exists
+    try {
+      await parentDir.getFileHandle(fileName);
+      throw new Error(`File "${filePath}" already exists.`);
+    } catch (err: unknown) {
+      const e = err as { name?: string; message?: string };
+      if (e.name !== "NotFoundError") {
+        throw err;
+      }
+    }
+
+    await replaceFile(parentDir, fileName, data, encryptionKey);
+  });
 }
 
 /**
@@ -261,7 +638,13 @@ export async function deleteEntry(
     parent = await parent.getDirectoryHandle(segment);
   }
 
-  await parent.removeEntry(name, { recursive: true });
+  await withFileLock(userHash, projectId, entryPath, async () => {
+    await parent.removeEntry(name, { recursive: true });
+    // Left over from a failed write or move, they would bring the entry back on repair
+    await removeIfExists(parent, name + PENDING_SUFFIX);
+    await removeIfExists(parent, name + BACKUP_SUFFIX);
+    await removeIfExists(parent, name + MOVE_SUFFIX);
+  });
 }
 
 /**
@@ -297,8 +680,9 @@ export async function listUserProjectIds(
     [string, FileSystemHandle]
   >) {
     // Only include directories (each is a project root)
-    // Files at the user level are ignored (boundary check)
-    if (handle.kind === "directory") {
+    // Files at the user level are ignored (boundary check), as are
+    // dot-directories such as ".checkpoints" (per-user metadata)
+    if (handle.kind === "directory" && !name.startsWith(".")) {
       ids.push(name);
     }
   }
@@ -306,10 +690,57 @@ export async function listUserProjectIds(
   return ids;
 }
 
+/**
+ * Recursively copy a directory's raw (still-encrypted) entries into
+ * another directory handle.
+ */
+async function copyDirRaw(
+  src: FileSystemDirectoryHandle,
+  dest: FileSystemDirectoryHandle
+): Promise<void> {
+  for await (const [name, handle] of src as unknown as AsyncIterable<
+    [string, FileSystemHandle]
+  >) {
+    if (handle.kind === "directory") {
+      const child = await dest.getDirectoryHandle(name, { create: true });
+      await copyDirRaw(handle as FileSystemDirectoryHandle, child);
+    } else {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      const target = await dest.getFileHandle(name, { create: true });
+      const writable = await target.createWritable();
+      await writable.write(await file.text());
+      await writable.close();
+    }
+  }
+}
+
+/**
+ * Copy directory `from` to `to` (both relative to `root`), then remove
+ * `from`. Safe to run again after an interruption — files already
+ * copied are simply copied again.
+ */
+async function moveDirectory(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string
+): Promise<void> {
+  const { parent, name } = await resolvePath(root, from);
+  const src = await parent.getDirectoryHandle(name);
+  let dest = root;
+  for (const segment of to.split("/").filter(Boolean)) {
+    dest = await dest.getDirectoryHandle(segment, { create: true });
+  }
+  await copyDirRaw(src, dest);
+  await parent.removeEntry(name, { recursive: true });
+}
+
 /**
  * Rename a file or directory by copying + deleting.
  * (OPFS doesn't support native rename.)
- * For file renames, the raw bytes are copied directly — no re-encryption needed.
+ * Raw bytes are copied directly — no re-encryption needed. A file is
+ * written like any other (see Atomic Writes); a directory is copied
+ * recursively before the original is removed, with a marker that lets
+ * repair finish the move if it is interrupted.
  */
 export async function renameEntry(
   userHash: string,
@@ -328,30 +759,150 @@ export async function renameEntry(
   }
 
   // Try as file first — copy raw bytes (already encrypted)
+  let rawContent: string | null = null;
   try {
     const fileHandle = await parent.getFileHandle(name);
     const file = await fileHandle.getFile();
-    const rawContent = await file.text();
+    rawContent = await file.text();
+  } catch {
+    // Not a file — try as directory
+  }
 
+  if (rawContent !== null) {
     // Write raw (already encrypted) content to new path
     const newRoot = await getProjectRoot(userHash, projectId);
     const newParentDir = await ensureParentDirs(newRoot, newPath);
     const newSegments = newPath.split("/").filter(Boolean);
     const newFileName = newSegments[newSegments.length - 1];
-    const newFileHandle = await newParentDir.getFileHandle(newFileName, { create: true });
-    const writable = await newFileHandle.createWritable();
-    await writable.write(rawContent);
-    await writable.close();
+    await withFileLock(userHash, projectId, newPath, () =>
+      replaceFile(newParentDir, newFileName, rawContent)
+    );
 
     await deleteEntry(userHash, projectId, oldPath);
     return;
-  } catch {
-    // Not a file — try as directory
   }
 
-  // For directory rename, we only support renaming leaf directories
-  await createDirectory(userHash, projectId, newPath);
-  await deleteEntry(userHash, projectId, oldPath);
+  // Directory rename — copy the whole subtree, then remove the original
+  await parent.getDirectoryHandle(name); // Throws if there is nothing to rename
+  await writeRaw(parent, name + MOVE_SUFFIX, newPath.split("/").filter(Boolean).join("/"));
+  await moveDirectory(root, oldPath, newPath);
+  await removeIfExists(parent, name + MOVE_SUFFIX);
+}
+
+// ─── Repair ─────────────────────────────────────────────────
+
+/**
+ * Recover every file in a project whose last write was interrupted
+ * (see Atomic Writes). Directory renames that were cut short are
+ * finished first. Then, of a file's new version, the file itself and
+ * its previous version, the first one that is intact becomes the file,
+ * and the copies are removed. Run before the project is mounted.
+ * Returns the paths that needed repair.
+ */
+export async function repairProjectFiles(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<string[]> {
+  const root = await getProjectRoot(userHash, projectId);
+  const repaired: string[] = [];
+
+  const moves: Array<{ marker: string; from: string; to: string }> = [];
+  await findMoves(root, "", moves);
+  for (const { marker, from, to } of moves) {
+    const { parent, name } = await resolvePath(root, marker);
+    const sourceName = name.slice(0, -MOVE_SUFFIX.length);
+    // If the source is gone, only the marker removal was interrupted
+    const sourceLeft = await parent
+      .getDirectoryHandle(sourceName)
+      .then(() => true, () => false);
+    if (sourceLeft) {
+      await moveDirectory(root, from, to);
+      repaired.push(from);
+    }
+    await removeIfExists(parent, name);
+  }
+
+  await repairDir(root, "", repaired, encryptionKey);
+  return repaired;
+}
+
+/** Collect the markers of interrupted directory renames. */
+async function findMoves(
+  dirHandle: FileSystemDirectoryHandle,
+  basePath: string,
+  moves: Array<{ marker: string; from: string; to: string }>
+): Promise<void> {
+  for await (const [name, handle] of dirHandle as unknown as AsyncIterable<
+    [string, FileSystemHandle]
+  >) {
+    const path = basePath ? `${basePath}/${name}` : name;
+    if (handle.kind === "directory") {
+      await findMoves(handle as FileSystemDirectoryHandle, path, moves);
+    } else if (name.endsWith(MOVE_SUFFIX)) {
+      const to = await readRaw(dirHandle, name);
+      if (to) moves.push({ marker: path, from: path.slice(0, -MOVE_SUFFIX.length), to });
+    }
+  }
+}
+
+async function repairDir(
+  dirHandle: FileSystemDirectoryHandle,
+  basePath: string,
+  repaired: string[],
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  // Files with copies left behind, and subdirectories to visit after
+  const interrupted = new Set<string>();
+  const subdirs: Array<[string, FileSystemDirectoryHandle]> = [];
+
+  for await (const [name, handle] of dirHandle as unknown as AsyncIterable<
+    [string, FileSystemHandle]
+  >) {
+    if (handle.kind === "directory") {
+      subdirs.push([name, handle as FileSystemDirectoryHandle]);
+    } else {
+      const base = writeArtefactBase(name);
+      if (base) interrupted.add(base);
+    }
+  }
+
+  for (const name of interrupted) {
+    const path = basePath ? `${basePath}/${name}` : name;
+    await repairFile(dirHandle, name, path, encryptionKey);
+    repaired.push(path);
+  }
+
+  for (const [name, handle] of subdirs) {
+    await repairDir(handle, basePath ? `${basePath}/${name}` : name, repaired, encryptionKey);
+  }
+}
+
+/** Recover one file from the copies an interrupted write left behind. */
+async function repairFile(
+  dirHandle: FileSystemDirectoryHandle,
+  name: string,
+  path: string,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  const current = await readRaw(dirHandle, name);
+  let recovered: string | null = null;
+  for (const candidate of [name + PENDING_SUFFIX, name, name + BACKUP_SUFFIX]) {
+    const raw = await readRaw(dirHandle, candidate);
+    if (raw !== null && (await isIntact(raw, encryptionKey))) {
+      recovered = raw;
+      break;
+    }
+  }
+
+  if (recovered === null) {
+    console.warn(`[opfs] No intact version of "${path}" to recover`);
+  } else if (recovered !== current) {
+    await writeRaw(dirHandle, name, recovered);
+  }
+  // The copies go last, so a crash during the repair just repeats it
+  await removeIfExists(dirHandle, name + PENDING_SUFFIX);
+  await removeIfExists(dirHandle, name + BACKUP_SUFFIX);
 }
 
 // ─── Language Detection ─────────────────────────────────────
@@ -398,7 +949,7 @@ export function detectLanguage(filePath: string): string {
   const name = filePath.split("/").pop() ?? "";
 
   // Handle dotfiles
-  if (name === ".gitignore" || name === ".env") return "plaintext";
+  if (name === ".gitignore" || name === ".southstackignore" || name === ".env") return "plaintext";
   if (name === "Dockerfile") return "dockerfile";
   if (name === "Makefile") return "makefile";
 
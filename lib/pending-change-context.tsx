@@ -4,16 +4,19 @@
  * PendingChangeContext — global review gate for AI-proposed file writes.
  *
  * Holds:
- *   pendingReview  — the finalized set of file actions awaiting user decision.
+ *   pendingReview  — the finalized set of file actions awaiting user decision,
+ *                    plus the per-action and per-hunk choices made so far.
  *                    Set in onDone; cleared on Accept or Reject.
- *   pendingPaths   — Set<string> of paths currently under review, kept in sync
- *                    with pendingReview so the file-tree Sidebar can highlight them.
+ *   pendingPaths   — Map of path → PendingPathKind for every path touched by
+ *                    pendingReview, so the file-tree Sidebar can highlight
+ *                    modified, deleted, renamed and newly-created entries.
  *
  * Storing state here (not in ChatSidebar) means the Review overlay persists
  * even if the sidebar is toggled closed and re-opened.
  */
 
 import type { FileAction } from "@/lib/ai-parser";
+import type { HunkResolution } from "@/lib/diff";
 import {
   createContext,
   useCallback,
@@ -24,11 +27,34 @@ import {
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
+/** How a path is affected by the pending review (drives Sidebar styling). */
+export type PendingPathKind =
+  | "modify"       // write / patch
+  | "delete"
+  | "rename-from"  // source of a rename
+  | "rename-to"    // destination of a rename
+  | "mkdir";
+
 export interface PendingReview {
   /** ID of the assistant message that produced these actions. */
   messageId: string;
+  /** The user prompt behind these actions (labels the undo checkpoint). */
+  prompt: string;
   /** All file actions waiting to be committed. */
   actions: FileAction[];
+  /** Index of each of `actions` in the assistant message's actions. */
+  messageIndexes: number[];
+  /**
+   * Content each write/patch action starts from (its diff base), keyed by
+   * index into `actions` — the file after the actions before it.
+   */
+  baseContent: Record<number, string>;
+  /** Content of the paths the actions start from, when the review opened. */
+  snapshots: Record<string, string>;
+  /** Indices into `actions` the user has unticked; they are skipped on accept. */
+  excluded: number[];
+  /** Hunk decisions per write/patch action, keyed by index into `actions`. */
+  hunkResolutions: Record<number, Array<HunkResolution | undefined>>;
 }
 
 interface PendingChangeContextValue {
@@ -37,16 +63,50 @@ interface PendingChangeContextValue {
   pendingReview: PendingReview | null;
   /** Set after the AI stream finishes and file actions are parsed. */
   setPendingReview: (review: PendingReview | null) => void;
+  /** Include or skip a whole action when the review is accepted. */
+  setActionExcluded: (actionIndex: number, excluded: boolean) => void;
+  /** Record (or with `undefined`, reset) the decision for one hunk. */
+  resolveHunk: (
+    actionIndex: number,
+    hunkIndex: number,
+    resolution: HunkResolution | undefined
+  ) => void;
 
   // ── Path highlights (for the file-tree Sidebar) ──────────────────────────
-  /** Set of paths currently under review. */
-  pendingPaths: Set<string>;
-  /** Register a batch of file paths as pending review. */
-  registerPendingPaths: (paths: string[]) => void;
+  /** Paths currently under review, with how each one is affected. */
+  pendingPaths: Map<string, PendingPathKind>;
+  /** Register the paths touched by a batch of actions as pending review. */
+  registerPendingPaths: (actions: FileAction[]) => void;
   /** Remove all pending paths (call after accept or discard). */
   clearPendingPaths: () => void;
 }
 
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Map every path a batch of actions touches to its PendingPathKind. */
+function pendingPathsFor(actions: FileAction[]): Map<string, PendingPathKind> {
+  const paths = new Map<string, PendingPathKind>();
+  for (const action of actions) {
+    switch (action.kind) {
+      case "write":
+      case "patch":
+        paths.set(action.path, "modify");
+        break;
+      case "delete":
+        paths.set(action.path, "delete");
+        break;
+      case "rename":
+        paths.set(action.path, "rename-from");
+        paths.set(action.newPath, "rename-to");
+        break;
+      case "mkdir":
+        paths.set(action.path, "mkdir");
+        break;
+    }
+  }
+  return paths;
+}
+
 // ─── Context ─────────────────────────────────────────────────────────────────
 
 const PendingChangeContext =
@@ -58,19 +118,45 @@ export function PendingChangeProvider({ children }: { children: ReactNode }) {
   const [pendingReview, setPendingReviewState] = useState<PendingReview | null>(
     null
   );
-  const [pendingPaths, setPendingPaths] = useState<Set<string>>(new Set());
+  const [pendingPaths, setPendingPaths] = useState<Map<string, PendingPathKind>>(
+    new Map()
+  );
 
   const setPendingReview = useCallback(
     (review: PendingReview | null) => setPendingReviewState(review),
     []
   );
 
-  const registerPendingPaths = useCallback((paths: string[]) => {
-    setPendingPaths(new Set(paths));
+  const setActionExcluded = useCallback(
+    (actionIndex: number, excluded: boolean) =>
+      setPendingReviewState((prev) => {
+        if (!prev) return prev;
+        const rest = prev.excluded.filter((i) => i !== actionIndex);
+        return { ...prev, excluded: excluded ? [...rest, actionIndex] : rest };
+      }),
+    []
+  );
+
+  const resolveHunk = useCallback(
+    (actionIndex: number, hunkIndex: number, resolution: HunkResolution | undefined) =>
+      setPendingReviewState((prev) => {
+        if (!prev) return prev;
+        const hunks = [...(prev.hunkResolutions[actionIndex] ?? [])];
+        hunks[hunkIndex] = resolution;
+        return {
+          ...prev,
+          hunkResolutions: { ...prev.hunkResolutions, [actionIndex]: hunks },
+        };
+      }),
+    []
+  );
+
+  const registerPendingPaths = useCallback((actions: FileAction[]) => {
+    setPendingPaths(pendingPathsFor(actions));
   }, []);
 
   const clearPendingPaths = useCallback(() => {
-    setPendingPaths(new Set());
+    setPendingPaths(new Map());
   }, []);
 
   return (
@@ -78,6 +164,8 @@ export function PendingChangeProvider({ children }: { children: ReactNode }) {
       value={{
         pendingReview,
         setPendingReview,
+        setActionExcluded,
+        resolveHunk,
         pendingPaths,
         registerPendingPaths,
         clearPendingPaths,
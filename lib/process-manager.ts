@@ -0,0 +1,244 @@
+/**
+ * Process Manager — registry of every WebContainer process the IDE spawns.
+ *
+ * The container only hands back a `WebContainerProcess` to whoever called
+ * `spawn()`, so without a registry the editor page only knew about its
+ * dev server. Every spawn helper (`spawnNpmScript`, the npm install in
+ * `rehydrateProject` / `initializeProject`, terminal shells) registers
+ * its process here with a name, start time and a restart recipe; the
+ * manager records the exit code and keeps the tail of its output for
+ * the Processes panel.
+ *
+ * A process's output stream can only be read once, so `track()` tees it:
+ * the manager reads one branch, the caller pipes the returned `output`
+ * wherever it used to pipe `process.output`.
+ *
+ * Like the WebContainer itself, there is one manager per page:
+ *
+ *   const { output } = processManager.track(proc, { name: "npm run dev", kind: "script", … });
+ *   output.pipeTo(…);
+ *   processManager.subscribe(() => …);   // list / status / output changed
+ */
+
+import type { WebContainerProcess } from "@webcontainer/api";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type ProcessKind = "shell" | "install" | "script";
+
+export type ProcessStatus = "running" | "exited" | "killed";
+
+export interface TrackOptions {
+  /** Display name, e.g. "npm run dev" or "Terminal 2" */
+  name: string;
+  kind: ProcessKind;
+  /** The command line as spawned, e.g. "npm run dev" */
+  command: string;
+  /**
+   * Start a replacement process (which registers itself). Processes
+   * without one can only be killed.
+   */
+  restart?: () => Promise<unknown>;
+}
+
+export interface ProcessInfo {
+  id: string;
+  name: string;
+  kind: ProcessKind;
+  command: string;
+  /** Epoch millis */
+  startedAt: number;
+  /** Epoch millis, once the process has exited */
+  exitedAt: number | null;
+  exitCode: number | null;
+  status: ProcessStatus;
+  /** The tail of the process output, escape sequences included */
+  output: string;
+  canRestart: boolean;
+}
+
+export interface TrackedProcess {
+  id: string;
+  process: WebContainerProcess;
+  /** Read this instead of `process.output`, which the manager has teed. */
+  output: ReadableStream<string>;
+}
+
+interface Entry {
+  info: ProcessInfo;
+  process: WebContainerProcess;
+  restart?: () => Promise<unknown>;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Output kept per process, in characters (oldest output is dropped). */
+const MAX_OUTPUT_CHARS = 100_000;
+
+/** Finished processes kept in the list before the oldest are dropped. */
+const MAX_FINISHED = 20;
+
+/** Output-only changes are batched into one notification per interval (ms). */
+const OUTPUT_NOTIFY_INTERVAL = 150;
+
+// ─── Manager ────────────────────────────────────────────────
+
+export class ProcessManager {
+  private entries = new Map<string, Entry>();
+  private listeners = new Set<() => void>();
+  private snapshot: ProcessInfo[] = [];
+  private nextId = 1;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Register a freshly spawned process. Returns the output stream the
+   * caller should consume from now on.
+   */
+  track(process: WebContainerProcess, options: TrackOptions): TrackedProcess {
+    const id = String(this.nextId++);
+    const [forCaller, forManager] = process.output.tee();
+
+    const entry: Entry = {
+      process,
+      restart: options.restart,
+      info: {
+        id,
+        name: options.name,
+        kind: options.kind,
+        command: options.command,
+        startedAt: Date.now(),
+        exitedAt: null,
+        exitCode: null,
+        status: "running",
+        output: "",
+        canRestart: !!options.restart,
+      },
+    };
+    this.entries.set(id, entry);
+    this.pruneFinished();
+    this.notify();
+
+    forManager
+      .pipeTo(
+        new WritableStream({
+          write: (chunk) => this.appendOutput(id, chunk),
+        })
+      )
+      .catch(() => { /* stream closed */ });
+
+    process.exit
+      .then((code) => this.markExited(id, code))
+      .catch(() => this.markExited(id, null));
+
+    return { id, process, output: forCaller };
+  }
+
+  /** Every known process, oldest first. Stable between changes. */
+  list(): ProcessInfo[] {
+    return this.snapshot;
+  }
+
+  /** Be told whenever the list, a status or an output buffer changes. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Kill a running process. Its entry stays, marked as killed. */
+  kill(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry || entry.info.status !== "running") return;
+    try {
+      entry.process.kill();
+    } catch {
+      // Already exited — that's fine.
+    }
+    this.update(id, { status: "killed", exitedAt: Date.now() });
+  }
+
+  /**
+   * Kill a process (if still running) and start its replacement. The
+   * old entry is dropped; the replacement registers a new one.
+   */
+  async restart(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry?.restart) return;
+    this.kill(id);
+    this.entries.delete(id);
+    this.notify();
+    await entry.restart();
+  }
+
+  /** Rename an entry (e.g. after its terminal tab is renamed). */
+  rename(id: string, name: string): void {
+    if (this.entries.has(id)) this.update(id, { name });
+  }
+
+  /** Kill every running process (e.g. when switching projects). */
+  killAll(): void {
+    for (const [id, entry] of this.entries) {
+      if (entry.info.status === "running") this.kill(id);
+    }
+  }
+
+  /** Drop every process that is no longer running. */
+  clearFinished(): void {
+    for (const [id, entry] of this.entries) {
+      if (entry.info.status !== "running") this.entries.delete(id);
+    }
+    this.notify();
+  }
+
+  // ── Internal ──────────────────────────────────────────────
+
+  private appendOutput(id: string, chunk: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    const output = entry.info.output + chunk;
+    entry.info = {
+      ...entry.info,
+      output: output.length > MAX_OUTPUT_CHARS ? output.slice(-MAX_OUTPUT_CHARS) : output,
+    };
+    // Output arrives in bursts — batch the notifications
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, OUTPUT_NOTIFY_INTERVAL);
+  }
+
+  private markExited(id: string, code: number | null): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.update(id, {
+      // A killed process keeps its status; the code is still worth showing
+      status: entry.info.status === "killed" ? "killed" : "exited",
+      exitCode: code,
+      exitedAt: entry.info.exitedAt ?? Date.now(),
+    });
+  }
+
+  private update(id: string, patch: Partial<ProcessInfo>): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.info = { ...entry.info, ...patch };
+    this.notify();
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.entries.values()].filter((e) => e.info.status !== "running");
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED))) {
+      this.entries.delete(entry.info.id);
+    }
+  }
+
+  private notify(): void {
+    this.snapshot = [...this.entries.values()].map((e) => e.info);
+    for (const listener of this.listeners) listener();
+  }
+}
+
+/** The page-wide manager — processes belong to the singleton WebContainer. */
+export const processManager = new ProcessManager();
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { FileAction } from "./ai-parser";
+import { applyHunkResolutions, diffLines, hunkNewText } from "./diff";
+import type { PendingReview } from "./pending-change-context";
+import { resolveReview } from "./review-resolution";
+
+function review(
+  actions: FileAction[],
+  baseContent: Record<number, string>,
+  snapshots: Record<string, string>,
+  overrides: Partial<PendingReview> = {}
+): PendingReview {
+  return {
+    messageId: "m",
+    prompt: "p",
+    actions,
+    messageIndexes: actions.map((_, i) => i),
+    baseContent,
+    snapshots,
+    excluded: [],
+    hunkResolutions: {},
+    ...overrides,
+  };
+}
+
+describe("applyHunkResolutions", () => {
+  const before = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj";
+  const after = "A\nb\nc\nd\ne\nf\ng\nh\ni\nJ";
+  const hunks = diffLines(before, after);
+
+  it("reproduces the proposed content when nothing is resolved", () => {
+    expect(hunks).toHaveLength(2);
+    expect(applyHunkResolutions(before, hunks, [])).toBe(after);
+  });
+
+  it("keeps the old side of rejected hunks", () => {
+    const result = applyHunkResolutions(before, hunks, [{ status: "rejected" }]);
+    expect(result).toBe("a\nb\nc\nd\ne\nf\ng\nh\ni\nJ");
+  });
+
+  it("uses the edited text of a hunk", () => {
+    const edited = hunks[1].lines.map((l) => (l.type === "add" ? "edited" : l.text));
+    const newSide = edited.filter((_, i) => hunks[1].lines[i].type !== "del").join("\n");
+    const result = applyHunkResolutions(before, hunks, [undefined, { status: "accepted", edited: newSide }]);
+    expect(result.split("\n").at(-1)).toBe("edited");
+    expect(result.split("\n")[0]).toBe("A");
+  });
+});
+
+describe("resolveReview", () => {
+  const original = "one\n1\n2\n3\n4\n5\n6\n7\nlast";
+
+  /** The new side of the only hunk between `base` and `proposed`, with `from` replaced. */
+  function editHunk(base: string, proposed: string, from: string, to: string): string {
+    const [hunk] = diffLines(base, proposed);
+    return hunkNewText(hunk).replace(from, to);
+  }
+
+  it("applies actions accepted whole unchanged", () => {
+    const actions: FileAction[] = [{ kind: "write", path: "f", content: "x" }, { kind: "delete", path: "g" }];
+    expect(resolveReview(review(actions, { 0: "" }, {}))).toEqual(actions);
+  });
+
+  it("drops unticked actions and fully rejected ones", () => {
+    const actions: FileAction[] = [
+      { kind: "write", path: "f", content: "x" },
+      { kind: "write", path: "g", content: "y" },
+    ];
+    const r = review(actions, { 0: "", 1: "old" }, { g: "old" }, {
+      excluded: [0],
+      hunkResolutions: { 1: [{ status: "rejected" }] },
+    });
+    expect(resolveReview(r)).toEqual([null, null]);
+  });
+
+  it("keeps a rejected hunk of an earlier action when a later one on the same file is narrowed", () => {
+    const afterFirst = "ONE\n1\n2\n3\n4\n5\n6\n7\nlast";
+    const afterSecond = "ONE\n1\n2\n3\n4\n5\n6\n7\nLAST";
+    const actions: FileAction[] = [
+      { kind: "write", path: "f", content: afterFirst },
+      { kind: "write", path: "f", content: afterSecond },
+    ];
+    const r = review(actions, { 0: original, 1: afterFirst }, { f: original }, {
+      hunkResolutions: {
+        0: [{ status: "rejected" }],
+        1: [{ status: "accepted", edited: editHunk(afterFirst, afterSecond, "LAST", "Last") }],
+      },
+    });
+    const [first, second] = resolveReview(r);
+    expect(first).toBeNull();
+    // The first action's rejected change must not come back with the second
+    expect(second).toEqual({ kind: "write", path: "f", content: "one\n1\n2\n3\n4\n5\n6\n7\nLast" });
+  });
+
+  it("bases a narrowed action on what an earlier accepted patch left", () => {
+    const base = "uno\n1\n2\n3\n4\n5\n6\n7\nlast";
+    const proposed = "uno\n1\n2\n3\n4\n5\n6\n7\nend";
+    const actions: FileAction[] = [
+      { kind: "patch", path: "f", hunks: [{ search: "one", replace: "uno" }] },
+      { kind: "write", path: "f", content: proposed },
+    ];
+    const r = review(actions, { 0: original, 1: base }, { f: original }, {
+      hunkResolutions: { 1: [{ status: "accepted", edited: editHunk(base, proposed, "end", "fin") }] },
+    });
+    expect(resolveReview(r)[1]).toEqual({
+      kind: "write",
+      path: "f",
+      content: "uno\n1\n2\n3\n4\n5\n6\n7\nfin",
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Review resolution — turn the choices made in the review gate into the
+ * file actions that are actually applied.
+ *
+ * Each action can be unticked, and each hunk of a write/patch accepted,
+ * rejected or edited (see `HunkResolution`). Hunks are computed against
+ * the action's diff base, which assumes the actions before it are
+ * accepted whole; when the user narrowed one of those, the later
+ * action's chosen hunks are merged into what the file really holds.
+ */
+
+import { contentAfterActions, proposedContent, type FileAction } from "./ai-parser";
+import { applyHunkResolutions, diffLines, mergeThreeWay } from "./diff";
+import type { PendingReview } from "./pending-change-context";
+
+/**
+ * What accepting review action `index` applies: null when the action was
+ * unticked or every hunk was rejected, the original action when every
+ * hunk was taken as-is, and otherwise a FILE write of the content
+ * composed from the chosen hunks. `current` is the file's content after
+ * the actions resolved before it.
+ */
+function resolveReviewAction(
+  review: PendingReview,
+  index: number,
+  current: string
+): FileAction | null {
+  const action = review.actions[index];
+  if (review.excluded.includes(index)) return null;
+  if (action.kind !== "write" && action.kind !== "patch") return action;
+
+  const resolutions = review.hunkResolutions[index] ?? [];
+  if (resolutions.every((r) => !r || (r.status === "accepted" && r.edited === undefined))) {
+    return action;
+  }
+
+  const base = review.baseContent[index] ?? "";
+  const hunks = diffLines(base, proposedContent(action, base));
+  if (hunks.every((_, i) => resolutions[i]?.status === "rejected" && resolutions[i]?.edited === undefined)) {
+    return null;
+  }
+  const chosen = applyHunkResolutions(base, hunks, resolutions);
+  return {
+    kind: "write",
+    path: action.path,
+    content:
+      current === base
+        ? chosen
+        : mergeThreeWay(base, current, chosen, { mine: "earlier change", theirs: "AI" }).text,
+  };
+}
+
+/**
+ * The action to apply for each of `review.actions`, in order — null
+ * where nothing is applied.
+ */
+export function resolveReview(review: PendingReview): Array<FileAction | null> {
+  const applied: FileAction[] = [];
+  return review.actions.map((action, i) => {
+    const current =
+      action.kind === "write" || action.kind === "patch"
+        ? contentAfterActions(applied, action.path, (path) => review.snapshots[path] ?? "")
+        : "";
+    const resolved = resolveReviewAction(review, i, current);
+    if (resolved) applied.push(resolved);
+    return resolved;
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Run configurations — saved ways to run package.json scripts, per project.
+ *
+ * A configuration names a script plus the extra arguments and
+ * environment variables to run it with, e.g. "test --watch" or "build
+ * with NODE_ENV=production". Arguments and environment are kept as the
+ * user typed them and parsed when the configuration runs, so an edit
+ * never has to round-trip through a structured form.
+ *
+ * All of a project's configurations live in one JSON file, encrypted
+ * with the same AES-GCM key as project files:
+ *
+ *   OPFS root / <userHash> / .run-configs / <projectId> / configs.json
+ */
+
+import { deleteProjectMeta, readMetaJson, writeMetaJson } from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface RunConfig {
+  id: string;
+  name: string;
+  /** package.json script name */
+  script: string;
+  /** Extra arguments as typed, e.g. `--watch --reporter "dot"` */
+  args: string;
+  /** Environment as typed — `KEY=value` per line or space-separated */
+  env: string;
+  /** Epoch millis */
+  createdAt: number;
+}
+
+/** A parsed, ready-to-spawn script invocation. */
+export interface ScriptRun {
+  script: string;
+  args: string[];
+  env: Record<string, string>;
+  /** Shown in the Processes panel instead of the command line */
+  label?: string;
+}
+
+/** Thrown when a configuration's arguments or environment can't be parsed. */
+export class RunConfigError extends Error {
+  /** Which field is malformed. */
+  field: "args" | "env";
+
+  constructor(field: "args" | "env", message: string) {
+    super(message);
+    this.name = "RunConfigError";
+    this.field = field;
+  }
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .run-configs */
+const RUN_CONFIG_NAMESPACE = "run-configs";
+
+const CONFIGS_FILE = "configs.json";
+
+/** `NAME=value` — the name must be a valid environment variable name. */
+const ENV_ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+
+// ─── Parsing ────────────────────────────────────────────────
+
+/**
+ * Split an argument string the way a shell would: whitespace separates
+ * arguments, single and double quotes group, backslash escapes the next
+ * character (outside single quotes).
+ */
+export function parseArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"' && i + 1 < input.length) current += input[++i];
+      else current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inArg = true;
+    } else if (ch === "\\" && i + 1 < input.length) {
+      current += input[++i];
+      inArg = true;
+    } else if (/\s/.test(ch)) {
+      if (inArg) args.push(current);
+      current = "";
+      inArg = false;
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+
+  if (quote) throw new RunConfigError("args", `Unclosed ${quote} quote`);
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Parse `KEY=value` assignments, one per line or separated by spaces
+ * (quote values that contain spaces). Blank lines and `#` comments are
+ * skipped.
+ */
+export function parseEnv(input: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of input.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    for (const token of parseArgs(trimmed)) {
+      const m = token.match(ENV_ASSIGNMENT);
+      if (!m) throw new RunConfigError("env", `Expected NAME=value, got "${token}"`);
+      env[m[1]] = m[2];
+    }
+  }
+  return env;
+}
+
+/** Turn a saved configuration into a script run. Throws RunConfigError. */
+export function toScriptRun(config: RunConfig): ScriptRun {
+  return {
+    script: config.script,
+    args: parseArgs(config.args),
+    env: parseEnv(config.env),
+    label: config.name,
+  };
+}
+
+/** The command line a run amounts to, e.g. `NODE_ENV=production npm run build -- --x`. */
+export function describeScriptRun(run: ScriptRun): string {
+  const quote = (s: string) => (/^[\w@%+=:,./-]+$/.test(s) ? s : `'${s.replace(/'/g, `'\\''`)}'`);
+  const env = Object.entries(run.env).map(([k, v]) => `${k}=${quote(v)}`);
+  const args = run.args.length > 0 ? ["--", ...run.args.map(quote)] : [];
+  return [...env, "npm", "run", run.script, ...args].join(" ");
+}
+
+/** Create an unsaved configuration. */
+export function createRunConfig(
+  fields: Pick<RunConfig, "name" | "script" | "args" | "env">
+): RunConfig {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}-${crypto.randomUUID().slice(0, 8)}`,
+    createdAt: now,
+    ...fields,
+  };
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * Load a project's run configurations, oldest first. Unreadable
+ * configurations are logged and treated as none.
+ */
+export async function loadRunConfigs(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<RunConfig[]> {
+  try {
+    return (
+      (await readMetaJson<RunConfig[]>(
+        userHash,
+        RUN_CONFIG_NAMESPACE,
+        projectId,
+        CONFIGS_FILE,
+        encryptionKey
+      )) ?? []
+    );
+  } catch (err) {
+    console.warn("[run-configs] Ignoring unreadable run configurations:", err);
+    return [];
+  }
+}
+
+/** Overwrite a project's run configurations. */
+export function saveRunConfigs(
+  userHash: string,
+  projectId: string,
+  configs: RunConfig[],
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  return writeMetaJson(userHash, RUN_CONFIG_NAMESPACE, projectId, CONFIGS_FILE, configs, encryptionKey);
+}
+
+/** Remove a project's run configurations when the project is deleted. */
+export function deleteProjectRunConfigs(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, RUN_CONFIG_NAMESPACE, projectId);
+}
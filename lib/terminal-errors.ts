@@ -0,0 +1,217 @@
+/**
+ * terminal-errors.ts — Spot errors in terminal output for "Fix with AI".
+ *
+ * Everything the IDE runs (jsh, npm install, npm scripts) writes into the
+ * same xterm surface, so detection works on the terminal's plain-text
+ * scrollback rather than on individual process streams. The most recent
+ * error signature wins:
+ *
+ *   - npm:     `npm ERR!` / `npm error` blocks
+ *   - compile: Vite / esbuild / TypeScript build errors
+ *   - runtime: `SomethingError: …` lines, usually followed by a stack
+ *
+ * Referenced project files are pulled out of the excerpt (stack frames,
+ * `file:line:col` locations) so the chat prompt can @-mention them; the
+ * same matching turns locations into clickable terminal links.
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type TerminalErrorKind = "npm" | "compile" | "runtime";
+
+export interface FileLocation {
+  /** Path from the project root */
+  path: string;
+  /** 1-based line, when the output gave one */
+  line: number | null;
+  column: number | null;
+}
+
+/** A project-file location found in one line of text. */
+export interface FileLink extends FileLocation {
+  /** 0-based index of the first character of the match */
+  start: number;
+  /** Index just past the last character */
+  end: number;
+}
+
+export interface TerminalError {
+  kind: TerminalErrorKind;
+  /** First error line, trimmed — shown on the button's tooltip */
+  summary: string;
+  /** The error block as printed */
+  excerpt: string;
+  /** Stable-ish identity so a dismissed error stays dismissed */
+  signature: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+const ANCHORS: { kind: TerminalErrorKind; pattern: RegExp }[] = [
+  { kind: "npm", pattern: /^npm (ERR!|error)\s/ },
+  {
+    kind: "compile",
+    pattern:
+      /\[vite\].*error|\[plugin:[\w:-]+\]|✘ \[ERROR\]|error TS\d+:|Failed to compile|Failed to resolve import|Transform failed/i,
+  },
+  { kind: "runtime", pattern: /^\s*(Uncaught\s+)?(\w+Error|Error)(\s*\[[\w_]+\])?:\s/ },
+];
+
+/** The jsh prompt — an error block never continues past it. */
+const SHELL_PROMPT = /❯/;
+
+/** Lines walked back from the last anchor line, and the excerpt's total cap. */
+const MAX_LINES_BEFORE = 20;
+const MAX_EXCERPT_LINES = 40;
+
+/** `path.ext`, optionally followed by `:line` and `:column`. */
+const LOCATION_PATTERN =
+  /((?:file:\/\/)?[\w@.~/-]*[\w-]+\.(?:[cm]?[jt]sx?|vue|svelte|css|scss|less|html|json))(?::(\d+))?(?::(\d+))?/g;
+
+// ─── Detection ──────────────────────────────────────────────
+
+function anchorKind(line: string): TerminalErrorKind | null {
+  return ANCHORS.find((a) => a.pattern.test(line))?.kind ?? null;
+}
+
+/** Indented or stack-frame lines belong to the error above them. */
+function isContinuation(line: string): boolean {
+  return /^\s+\S/.test(line) || /^\s*at\s/.test(line);
+}
+
+/**
+ * Find the most recent error block in `output` (plain text, oldest line
+ * first). Returns null when nothing looks like an error.
+ */
+export function detectTerminalError(output: string): TerminalError | null {
+  const lines = output.split("\n");
+
+  let last = -1;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (anchorKind(lines[i])) {
+      last = i;
+      break;
+    }
+  }
+  if (last === -1) return null;
+
+  // Walk back over the rest of the block (e.g. earlier `npm ERR!` lines)
+  let start = last;
+  while (
+    start > 0 &&
+    last - start < MAX_LINES_BEFORE &&
+    lines[start - 1].trim() !== "" &&
+    !SHELL_PROMPT.test(lines[start - 1]) &&
+    (anchorKind(lines[start - 1]) !== null || isContinuation(lines[start]))
+  ) {
+    start--;
+  }
+
+  // Walk forward over stack frames and code frames, allowing single blank lines
+  let end = last;
+  while (end + 1 < lines.length && end - start + 1 < MAX_EXCERPT_LINES) {
+    const next = lines[end + 1];
+    if (SHELL_PROMPT.test(next)) break;
+    if (next.trim() === "") {
+      const after = lines[end + 2];
+      if (after === undefined || !isContinuation(after)) break;
+    }
+    end++;
+  }
+
+  const block = lines.slice(start, end + 1);
+  const first = block.find((l) => anchorKind(l) !== null) ?? block[0];
+  const kind = anchorKind(first) ?? "runtime";
+  const summary = first.trim();
+
+  return {
+    kind,
+    summary,
+    excerpt: block.join("\n").trimEnd(),
+    signature: `${kind}:${summary}`,
+  };
+}
+
+// ─── Locations ──────────────────────────────────────────────
+
+/**
+ * Map a path as printed (relative, container-absolute, `file://`) to a
+ * project file: the longest project path it ends with. Paths under
+ * node_modules never match.
+ */
+function matchProjectPath(printed: string, files: string[]): string | null {
+  const raw = printed.replace(/^file:\/\//, "");
+  if (raw.includes("node_modules/")) return null;
+  const clean = raw.replace(/^\.?\/+/, "");
+
+  let best: string | null = null;
+  for (const file of files) {
+    if ((clean === file || clean.endsWith(`/${file}`)) && (!best || file.length > best.length)) {
+      best = file;
+    }
+  }
+  return best;
+}
+
+/** Every project-file location in `text`, with its character range. */
+export function findFileLinks(text: string, files: string[]): FileLink[] {
+  const links: FileLink[] = [];
+  for (const m of text.matchAll(LOCATION_PATTERN)) {
+    const path = matchProjectPath(m[1], files);
+    if (!path) continue;
+    const start = m.index ?? 0;
+    links.push({
+      path,
+      line: m[2] ? Number(m[2]) : null,
+      column: m[3] ? Number(m[3]) : null,
+      start,
+      end: start + m[0].length,
+    });
+  }
+  return links;
+}
+
+/**
+ * Project files referenced in `text`, in order of first appearance.
+ * The first location of each file wins, unless only a later one
+ * carries a line number.
+ */
+export function extractFileLocations(text: string, files: string[]): FileLocation[] {
+  const found = new Map<string, FileLocation>();
+  for (const { path, line, column } of findFileLinks(text, files)) {
+    const seen = found.get(path);
+    if (seen && (seen.line !== null || line === null)) continue;
+    found.set(path, { path, line, column });
+  }
+  return [...found.values()];
+}
+
+// ─── Prompt ─────────────────────────────────────────────────
+
+const KIND_LABEL: Record<TerminalErrorKind, string> = {
+  npm: "npm error",
+  compile: "build error",
+  runtime: "runtime error",
+};
+
+/**
+ * Chat prompt for an error: the excerpt plus `@`-mentions of the files
+ * it references, so their content is included in the context.
+ */
+export function buildFixPrompt(error: TerminalError, files: string[]): string {
+  const locations = extractFileLocations(error.excerpt, files);
+  const parts = [
+    `Fix this ${KIND_LABEL[error.kind]} from the terminal:`,
+    "",
+    "```",
+    error.excerpt,
+    "```",
+  ];
+  if (locations.length > 0) {
+    const refs = locations.map((loc) =>
+      loc.line !== null ? `@${loc.path} (line ${loc.line})` : `@${loc.path}`
+    );
+    parts.push("", `Referenced files: ${refs.join(", ")}`);
+  }
+  return parts.join("\n");
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { pushCommand, searchHistory } from "./terminal-history";
+
+describe("pushCommand", () => {
+  it("appends trimmed commands", () => {
+    expect(pushCommand(["ls"], "  npm test ")).toEqual(["ls", "npm test"]);
+  });
+
+  it("ignores blank commands and an immediate repeat", () => {
+    const commands = ["ls"];
+    expect(pushCommand(commands, "   ")).toBe(commands);
+    expect(pushCommand(commands, "ls ")).toBe(commands);
+    expect(pushCommand(["ls", "pwd"], "ls")).toEqual(["ls", "pwd", "ls"]);
+  });
+
+  it("drops the oldest commands beyond the limit", () => {
+    const full = Array.from({ length: 500 }, (_, i) => `echo ${i}`);
+    const next = pushCommand(full, "last");
+    expect(next).toHaveLength(500);
+    expect(next[0]).toBe("echo 1");
+    expect(next[499]).toBe("last");
+  });
+});
+
+describe("searchHistory", () => {
+  const commands = ["npm install", "ls", "npm test", "NPM run build", "npm test"];
+
+  it("returns distinct case-insensitive matches, most recent first", () => {
+    expect(searchHistory(commands, "npm")).toEqual(["npm test", "NPM run build", "npm install"]);
+  });
+
+  it("returns every distinct command for an empty query", () => {
+    expect(searchHistory(commands, "")).toEqual(["npm test", "NPM run build", "ls", "npm install"]);
+  });
+
+  it("caps the number of matches", () => {
+    const many = Array.from({ length: 80 }, (_, i) => `echo ${i}`);
+    const matches = searchHistory(many, "echo");
+    expect(matches).toHaveLength(50);
+    expect(matches[0]).toBe("echo 79");
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Terminal history — shell commands and scrollback, persisted per project.
+ *
+ * jsh keeps its history in memory only, so every reload of the editor
+ * used to start from a blank prompt. The terminal records each command
+ * it sees submitted and, on save, the tail of the focused session's
+ * output. Both live in one JSON file, encrypted with the same AES-GCM
+ * key as project files:
+ *
+ *   OPFS root / <userHash> / .terminal / <projectId> / history.json
+ *
+ * Commands are shared by every session of the project (like a shell's
+ * HISTFILE) and drive the terminal's Ctrl+R reverse search.
+ */
+
+import { deleteProjectMeta, readMetaJson, writeMetaJson } from "./opfs";
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface TerminalHistory {
+  /** Submitted commands, oldest first */
+  commands: string[];
+  /** Plain-text tail of the last focused session's output */
+  scrollback: string;
+  /** Epoch millis of the last save */
+  updatedAt: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .terminal */
+const TERMINAL_NAMESPACE = "terminal";
+
+const HISTORY_FILE = "history.json";
+
+/** Oldest commands are dropped beyond this many. */
+const MAX_COMMANDS = 500;
+
+/** Lines of output kept for restoring on the next load. */
+export const SCROLLBACK_LINES = 200;
+
+/** Reverse-search results are capped at this many matches. */
+const MAX_MATCHES = 50;
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** A history with nothing in it — used when nothing is stored yet. */
+export function emptyHistory(): TerminalHistory {
+  return { commands: [], scrollback: "", updatedAt: 0 };
+}
+
+/**
+ * Append a command. Blank commands are ignored and a repeat of the
+ * previous command is not stored twice.
+ */
+export function pushCommand(commands: string[], command: string): string[] {
+  const trimmed = command.trim();
+  if (!trimmed || commands[commands.length - 1] === trimmed) return commands;
+  const next = [...commands, trimmed];
+  return next.length > MAX_COMMANDS ? next.slice(next.length - MAX_COMMANDS) : next;
+}
+
+/**
+ * Distinct commands containing `query` (case-insensitive), most recent
+ * first — what Ctrl+R steps through.
+ */
+export function searchHistory(commands: string[], query: string): string[] {
+  const q = query.toLowerCase();
+  const seen = new Set<string>();
+  const matches: string[] = [];
+  for (let i = commands.length - 1; i >= 0 && matches.length < MAX_MATCHES; i--) {
+    const command = commands[i];
+    if (seen.has(command) || !command.toLowerCase().includes(q)) continue;
+    seen.add(command);
+    matches.push(command);
+  }
+  return matches;
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/** Load a project's terminal history — empty if none is saved or it's unreadable. */
+export async function loadTerminalHistory(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<TerminalHistory> {
+  try {
+    const stored = await readMetaJson<Partial<TerminalHistory>>(
+      userHash,
+      TERMINAL_NAMESPACE,
+      projectId,
+      HISTORY_FILE,
+      encryptionKey
+    );
+    return { ...emptyHistory(), ...stored };
+  } catch (err) {
+    console.warn("[terminal-history] Ignoring unreadable history:", err);
+    return emptyHistory();
+  }
+}
+
+/** Overwrite a project's terminal history. */
+export function saveTerminalHistory(
+  userHash: string,
+  projectId: string,
+  history: TerminalHistory,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  return writeMetaJson(userHash, TERMINAL_NAMESPACE, projectId, HISTORY_FILE, history, encryptionKey);
+}
+
+/** Delete a project's terminal history, along with the project. */
+export function deleteProjectTerminalHistory(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, TERMINAL_NAMESPACE, projectId);
+}
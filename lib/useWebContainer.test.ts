@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { dependencyActionArgs } from "./useWebContainer";
+
+describe("dependencyActionArgs", () => {
+  it("installs added packages into the chosen section", () => {
+    expect(dependencyActionArgs({ kind: "add", packages: ["zod", "react@18"], dev: false })).toEqual([
+      "install",
+      "zod",
+      "react@18",
+      "--save",
+    ]);
+    expect(dependencyActionArgs({ kind: "add", packages: ["vitest"], dev: true })).toEqual([
+      "install",
+      "vitest",
+      "--save-dev",
+    ]);
+  });
+
+  it("uninstalls removed packages", () => {
+    expect(dependencyActionArgs({ kind: "remove", packages: ["lodash"] })).toEqual(["uninstall", "lodash"]);
+  });
+
+  it("upgrades to the latest version without naming a section", () => {
+    expect(dependencyActionArgs({ kind: "upgrade", packages: ["next", "react"] })).toEqual([
+      "install",
+      "next@latest",
+      "react@latest",
+    ]);
+  });
+});
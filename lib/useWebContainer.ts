@@ -7,12 +7,22 @@
  *
  * Also provides:
  *   - mountProjectFiles()   — read encrypted OPFS files → mount at container root
- *   - rehydrateProject()    — mount + auto `npm install` piped to terminal
+ *   - rehydrateProject()    — mount + cached node_modules or auto `npm install`
  *   - syncFileToContainer() — mirror an individual editor save in real-time
+ *   - readFileFromContainer() — the container's copy of a file (conflict checks)
  *   - syncDirToContainer()  — mirror a directory creation
  *   - syncDeleteInContainer() — mirror a deletion
+ *   - syncRenameInContainer() — mirror a rename / move
+ *   - runDependencyAction() — npm add / remove / upgrade piped to terminal
  *   - teardownProject()     — kill all processes + clean up
  *
+ * Every process spawned here is registered with the process manager
+ * (process-manager.ts) so the Processes panel can show and control it,
+ * and gets the project's environment variables (setContainerEnv).
+ * npm uses a cache inside the project root (`.npm-cache`) that installs
+ * restore from and capture into the user's offline package cache
+ * (npm-cache.ts).
+ *
  * WebContainer requires the page be served with:
  *   Cross-Origin-Embedder-Policy: require-corp
  *   Cross-Origin-Opener-Policy: same-origin
@@ -24,12 +34,22 @@
 import {
     WebContainer,
     type FileSystemTree,
+    type SpawnOptions,
     type WebContainerProcess,
 } from "@webcontainer/api";
 import type { Terminal as XTermTerminal } from "@xterm/xterm";
 import { useEffect, useRef, useState } from "react";
 
+import { DOTENV_HEADER, formatDotEnv, type ProjectEnv } from "./env-vars";
+import {
+    hashLockfile,
+    loadNodeModulesSnapshot,
+    MAX_SNAPSHOT_BYTES,
+    saveNodeModulesSnapshot,
+} from "./node-modules-cache";
+import { lockfileCachePaths, NPM_CACHE_DIR, restoreNpmCacheFiles, storeNpmCache } from "./npm-cache";
 import { listTree, readFile, type FSNode } from "./opfs";
+import { processManager, type TrackedProcess } from "./process-manager";
 import {
     REACT_STARTER_FILES,
     REACT_STARTER_TEMPLATE,
@@ -81,7 +101,9 @@ async function getOrBoot(): Promise<WebContainer> {
     );
   }
 
-  _bootPromise = WebContainer.boot().then((wc) => {
+  // forwardPreviewErrors: previews report uncaught errors and
+  // console.error calls back as `preview-message` events (used by @preview-errors)
+  _bootPromise = WebContainer.boot({ forwardPreviewErrors: true }).then((wc) => {
     _instance = wc;
     console.info("[WebContainer] Booted successfully (singleton).");
     return wc;
@@ -105,6 +127,40 @@ export function resetSingleton(): void {
   _bootPromise = null;
 }
 
+// ─── Project Environment ────────────────────────────────────
+//
+// Variables from the Env panel, injected into every process spawned
+// through `spawnWithEnv`. Like the container, this is page-wide state;
+// the editor page sets it whenever a project's variables load or change.
+
+let _projectEnv: Record<string, string> = {};
+
+/** Set the variables given to every process spawned from now on. */
+export function setContainerEnv(env: Record<string, string>): void {
+  _projectEnv = { ...env };
+}
+
+/**
+ * `instance.spawn` with the project's variables merged in. Variables in
+ * `options.env` win over the project's, which win over the IDE's own
+ * (npm's cache location).
+ */
+export function spawnWithEnv(
+  instance: WebContainer,
+  command: string,
+  args: string[],
+  options: SpawnOptions = {}
+): Promise<WebContainerProcess> {
+  return instance.spawn(command, args, {
+    ...options,
+    env: {
+      npm_config_cache: `${instance.workdir}/${NPM_CACHE_DIR}`,
+      ..._projectEnv,
+      ...options.env,
+    },
+  });
+}
+
 // ─── Hook ───────────────────────────────────────────────────
 
 export interface WebContainerState {
@@ -289,6 +345,25 @@ export async function syncFileToContainer(
   await instance.fs.writeFile(fullPath, content);
 }
 
+/**
+ * Read a file's current content from the container, e.g. to check
+ * whether a process changed it before an editor save overwrites it.
+ *
+ * @param instance — The booted WebContainer.
+ * @param filePath — Relative path inside the project, e.g. "src/index.ts".
+ * @returns The content, or null if the file doesn't exist in the container.
+ */
+export async function readFileFromContainer(
+  instance: WebContainer,
+  filePath: string
+): Promise<string | null> {
+  try {
+    return await instance.fs.readFile(`/${filePath}`, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Mirror a directory creation from the editor / sidebar into the
  * WebContainer file system.
@@ -320,6 +395,66 @@ export async function syncDeleteInContainer(
   }
 }
 
+/**
+ * Mirror a file/directory rename (move) from the editor into the container.
+ * Missing parent directories of the destination are created first.
+ *
+ * @param instance — The booted WebContainer.
+ * @param oldPath  — Current relative path, e.g. "src/App.jsx".
+ * @param newPath  — Destination relative path, e.g. "src/App.tsx".
+ */
+export async function syncRenameInContainer(
+  instance: WebContainer,
+  oldPath: string,
+  newPath: string
+): Promise<void> {
+  const fullNew = `/${newPath}`;
+  const lastSlash = fullNew.lastIndexOf("/");
+  if (lastSlash > 0) {
+    await mkdirp(instance, fullNew.substring(0, lastSlash));
+  }
+  await instance.fs.rename(`/${oldPath}`, fullNew);
+}
+
+/** What `syncDotEnvToContainer` did; "conflict" means the project has its own `.env`. */
+export type DotEnvSyncResult = "written" | "removed" | "unchanged" | "conflict";
+
+/**
+ * Write (or remove) the generated `/.env` so it matches the project's
+ * variables. A `.env` that belongs to the project — one without our
+ * header — is never touched.
+ *
+ * Call after every mount (the FS may have been wiped) and whenever the
+ * variables change. The file is written to the container only, so the
+ * sync manager must not copy it back to OPFS.
+ */
+export async function syncDotEnvToContainer(
+  instance: WebContainer,
+  env: ProjectEnv
+): Promise<DotEnvSyncResult> {
+  let existing: string | null = null;
+  try {
+    existing = await instance.fs.readFile("/.env", "utf-8");
+  } catch {
+    // No .env yet
+  }
+  const ours = existing === null || existing.startsWith(DOTENV_HEADER);
+
+  if (env.writeDotEnv && env.vars.length > 0) {
+    if (!ours) return "conflict";
+    const content = formatDotEnv(env.vars);
+    if (content === existing) return "unchanged";
+    await instance.fs.writeFile("/.env", content);
+    return "written";
+  }
+
+  if (existing !== null && ours) {
+    await instance.fs.rm("/.env");
+    return "removed";
+  }
+  return "unchanged";
+}
+
 // ─── NPM Script / Server Lifecycle ──────────────────────────
 
 export interface PackageScripts {
@@ -353,21 +488,379 @@ export async function readPackageScripts(
   }
 }
 
+export interface SpawnScriptOptions {
+  /** Extra arguments, passed after `--`. */
+  args?: string[];
+  /** Environment variables for the script. */
+  env?: Record<string, string>;
+  /** Name shown in the Processes panel (defaults to the command line). */
+  label?: string;
+  /** How the Processes panel restarts the script. */
+  restart?: () => Promise<unknown>;
+}
+
 /**
- * Spawn `npm run <scriptName>` as an isolated process.
- * Caller should keep the returned process object to stop it later.
+ * Spawn `npm run <scriptName> [-- args]` as an isolated process and
+ * register it with the process manager. Caller should keep the returned
+ * process object to stop it later, and read `output` (not `process.output`).
  */
 export async function spawnNpmScript(
   instance: WebContainer,
-  scriptName: string
-): Promise<WebContainerProcess> {
-  return instance.spawn("npm", ["run", scriptName]);
+  scriptName: string,
+  options: SpawnScriptOptions = {}
+): Promise<TrackedProcess> {
+  const { args = [], env, label, restart } = options;
+  const npmArgs = ["run", scriptName, ...(args.length > 0 ? ["--", ...args] : [])];
+  const process = await spawnWithEnv(instance, "npm", npmArgs, { env });
+  const command = ["npm", ...npmArgs].join(" ");
+  return processManager.track(process, {
+    name: label ?? command,
+    kind: "script",
+    command,
+    restart,
+  });
+}
+
+/**
+ * Spawn an npm package command (`install`, `uninstall`…), register it
+ * with the process manager and pipe its output into the terminal.
+ * Resolves once the command exits.
+ *
+ * The user's package cache is copied into the container first. With
+ * `preferOffline` npm resolves from it before the network; when the
+ * browser is offline it resolves from nothing else. New downloads are
+ * copied into the cache afterwards.
+ */
+async function runNpmPackageCommand(
+  instance: WebContainer,
+  npmArgs: string[],
+  terminal: XTermTerminal | null,
+  userHash: string,
+  encryptionKey?: CryptoKey,
+  preferOffline = true
+): Promise<{ process: WebContainerProcess; exitCode: number }> {
+  await restoreNpmCache(instance, userHash, encryptionKey).catch((err) =>
+    console.warn("[restoreNpmCache] Failed:", err)
+  );
+
+  const offline = typeof navigator !== "undefined" && !navigator.onLine;
+  if (offline) {
+    terminal?.writeln("\x1b[2m   Offline — installing from the package cache.\x1b[0m\r\n");
+  }
+  const flags = offline ? ["--offline"] : preferOffline ? ["--prefer-offline"] : [];
+  const args = [...npmArgs, ...flags];
+  const npmProcess = await spawnWithEnv(instance, "npm", args);
+  const { output } = processManager.track(npmProcess, {
+    name: ["npm", ...npmArgs].join(" "),
+    kind: "install",
+    command: ["npm", ...args].join(" "),
+    restart: () =>
+      runNpmPackageCommand(instance, npmArgs, terminal, userHash, encryptionKey, preferOffline),
+  });
+
+  // Pipe stdout → terminal
+  output.pipeTo(
+    new WritableStream({
+      write(data) {
+        terminal?.write(data);
+      },
+    })
+  ).catch(() => { /* stream closed */ });
+
+  const exitCode = await npmProcess.exit;
+  if (exitCode === 0) {
+    // Capture in the background — the project is usable meanwhile
+    captureNpmCache(instance, userHash, encryptionKey).catch((err) =>
+      console.warn("[captureNpmCache] Failed:", err)
+    );
+  }
+  return { process: npmProcess, exitCode };
+}
+
+/** `npm install` for the whole project (see runNpmPackageCommand). */
+function runNpmInstall(
+  instance: WebContainer,
+  terminal: XTermTerminal | null,
+  userHash: string,
+  encryptionKey?: CryptoKey
+): Promise<{ process: WebContainerProcess; exitCode: number }> {
+  return runNpmPackageCommand(instance, ["install"], terminal, userHash, encryptionKey);
+}
+
+// ─── npm Package Cache ──────────────────────────────────────
+
+/** Every file under a container directory, relative to it. */
+async function listContainerFiles(
+  instance: WebContainer,
+  dir: string,
+  prefix = ""
+): Promise<string[]> {
+  const paths: string[] = [];
+  for (const entry of await instance.fs.readdir(dir, { withFileTypes: true })) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      paths.push(...(await listContainerFiles(instance, `${dir}/${entry.name}`, path)));
+    } else {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Copy the user's cached registry downloads for the packages in
+ * `package-lock.json` into the container's npm cache. Skipped when the
+ * container already has a cache (it was restored or filled since the
+ * last wipe) or the project has no lockfile yet.
+ */
+async function restoreNpmCache(
+  instance: WebContainer,
+  userHash: string,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  try {
+    await instance.fs.readdir(`/${NPM_CACHE_DIR}`);
+    return;
+  } catch {
+    // No cache in the container yet
+  }
+
+  const lockfile = await readLockfile(instance);
+  if (lockfile === null) return;
+
+  const created = new Set<string>();
+  const restored = await restoreNpmCacheFiles(
+    userHash,
+    await lockfileCachePaths(lockfile),
+    async ({ path, data }) => {
+      const fullPath = `/${NPM_CACHE_DIR}/${path}`;
+      const dir = fullPath.slice(0, fullPath.lastIndexOf("/"));
+      if (!created.has(dir)) {
+        await mkdirp(instance, dir);
+        created.add(dir);
+      }
+      await instance.fs.writeFile(fullPath, data);
+    },
+    encryptionKey
+  );
+  if (restored > 0) console.info(`[restoreNpmCache] Restored ${restored} cached npm files.`);
+}
+
+/**
+ * Copy new registry downloads from the container's npm cache into the
+ * user's package cache. Returns how many files were stored.
+ */
+export async function captureNpmCache(
+  instance: WebContainer,
+  userHash: string,
+  encryptionKey?: CryptoKey
+): Promise<number> {
+  let paths: string[];
+  try {
+    paths = await listContainerFiles(instance, `/${NPM_CACHE_DIR}`);
+  } catch {
+    return 0; // npm never created its cache
+  }
+  const stored = await storeNpmCache(
+    userHash,
+    paths,
+    (path) => instance.fs.readFile(`/${NPM_CACHE_DIR}/${path}`),
+    encryptionKey
+  );
+  if (stored > 0) console.info(`[captureNpmCache] Stored ${stored} npm cache files.`);
+  return stored;
+}
+
+// ─── node_modules Cache ─────────────────────────────────────
+
+/** The container's `/package-lock.json`, or null if there is none. */
+async function readLockfile(instance: WebContainer): Promise<string | null> {
+  try {
+    return await instance.fs.readFile("/package-lock.json", "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mount the cached `node_modules` snapshot if one matches the current
+ * `package-lock.json` (node-modules-cache.ts). Returns true on a hit;
+ * false means the caller should run `npm install`.
+ */
+export async function restoreNodeModules(
+  instance: WebContainer,
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<boolean> {
+  const lockfile = await readLockfile(instance);
+  if (lockfile === null) return false;
+
+  const snapshot = await loadNodeModulesSnapshot(
+    userHash,
+    projectId,
+    await hashLockfile(lockfile),
+    encryptionKey
+  );
+  if (!snapshot) return false;
+
+  try {
+    await mkdirp(instance, "/node_modules");
+    await instance.mount(snapshot, { mountPoint: "node_modules" });
+    return true;
+  } catch (err) {
+    // A half-mounted tree is worse than none — clear it and install
+    console.warn("[restoreNodeModules] Failed to mount snapshot:", err);
+    await instance.fs.rm("/node_modules", { recursive: true, force: true }).catch(() => {});
+    return false;
+  }
+}
+
+/**
+ * Export the container's `node_modules` and cache it under the current
+ * lockfile's hash, so the next mount can skip `npm install`. Call after
+ * a successful install.
+ */
+export async function snapshotNodeModules(
+  instance: WebContainer,
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  const lockfile = await readLockfile(instance);
+  if (lockfile === null) return;
+
+  const snapshot = await instance.export("node_modules", { format: "binary" });
+  const saved = await saveNodeModulesSnapshot(
+    userHash,
+    projectId,
+    await hashLockfile(lockfile),
+    snapshot,
+    encryptionKey
+  );
+  if (!saved) {
+    console.info(
+      `[snapshotNodeModules] node_modules is over ${MAX_SNAPSHOT_BYTES / 1024 / 1024} MB — not cached.`
+    );
+  }
+}
+
+// ─── Dependencies ───────────────────────────────────────────
+
+export type DependencyType = "dependencies" | "devDependencies";
+
+export interface PackageDependency {
+  name: string;
+  type: DependencyType;
+  /** The version range from package.json, e.g. "^18.2.0" */
+  range: string;
+  /** Version in node_modules, or null if not installed */
+  installed: string | null;
+}
+
+/** A change to the project's dependencies, run as an npm command. */
+export type DependencyAction =
+  | { kind: "add"; packages: string[]; dev: boolean }
+  | { kind: "remove"; packages: string[] }
+  | { kind: "upgrade"; packages: string[] };
+
+/** Read a JSON file from the container, or null if missing or invalid. */
+async function readJsonFile(instance: WebContainer, path: string): Promise<Record<string, unknown> | null> {
+  try {
+    const raw = await instance.fs.readFile(path, "utf-8");
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The `dependencies` and `devDependencies` of `/package.json`, each with
+ * the version installed in `/node_modules`. Returns an empty list when
+ * package.json is missing or invalid.
+ */
+export async function readPackageDependencies(
+  instance: WebContainer
+): Promise<PackageDependency[]> {
+  const pkg = await readJsonFile(instance, "/package.json");
+  if (!pkg) return [];
+
+  const deps: PackageDependency[] = [];
+  for (const type of ["dependencies", "devDependencies"] as const) {
+    const section = pkg[type];
+    if (!section || typeof section !== "object") continue;
+    for (const [name, range] of Object.entries(section as Record<string, unknown>)) {
+      if (typeof range !== "string") continue;
+      const installed = await readJsonFile(instance, `/node_modules/${name}/package.json`);
+      deps.push({
+        name,
+        type,
+        range,
+        installed: typeof installed?.version === "string" ? installed.version : null,
+      });
+    }
+  }
+  return deps.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The npm arguments for a dependency change. */
+export function dependencyActionArgs(action: DependencyAction): string[] {
+  switch (action.kind) {
+    case "add":
+      return ["install", ...action.packages, action.dev ? "--save-dev" : "--save"];
+    case "remove":
+      return ["uninstall", ...action.packages];
+    case "upgrade":
+      // npm keeps an existing package in the section it was in
+      return ["install", ...action.packages.map((name) => `${name}@latest`)];
+  }
+}
+
+/**
+ * Add, remove or upgrade packages, streaming npm's output into the
+ * terminal. Resolves with npm's exit code. On success the node_modules
+ * snapshot is refreshed in the background (the lockfile changed).
+ *
+ * Adds and upgrades check the registry for the newest versions; they
+ * only fall back to cached packages when offline.
+ */
+export async function runDependencyAction(
+  instance: WebContainer,
+  action: DependencyAction,
+  terminal: XTermTerminal | null,
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<number> {
+  const args = dependencyActionArgs(action);
+  terminal?.writeln(`\r\n\x1b[1;36m▶ npm ${args.join(" ")}\x1b[0m\r\n`);
+
+  const { exitCode } = await runNpmPackageCommand(
+    instance,
+    args,
+    terminal,
+    userHash,
+    encryptionKey,
+    action.kind === "remove"
+  );
+
+  if (exitCode === 0) {
+    terminal?.writeln("\r\n\x1b[1;32m✓ Dependencies updated\x1b[0m\r\n");
+    snapshotNodeModules(instance, userHash, projectId, encryptionKey).catch((err) =>
+      console.warn("[snapshotNodeModules] Failed:", err)
+    );
+  } else {
+    terminal?.writeln(`\r\n\x1b[1;31m✗ npm exited with code ${exitCode}\x1b[0m\r\n`);
+  }
+  return exitCode;
 }
 
 // ─── Project Rehydration (mount + npm install) ──────────────
 
 export type RehydrationPhase =
   | "mounting"
+  | "restoring"
   | "installing"
   | "ready"
   | "error";
@@ -381,8 +874,9 @@ export interface RehydrationCallbacks {
 
 /**
  * Mount project files from OPFS and, if `package.json` exists,
- * automatically run `npm install` — piping all output into the
- * given xterm terminal so the user sees real-time progress.
+ * restore `node_modules` from the cache when the lockfile matches —
+ * otherwise run `npm install`, piping all output into the given xterm
+ * terminal so the user sees real-time progress, and cache the result.
  *
  * Returns the install process (if one was spawned) so the caller
  * can kill it during cleanup.
@@ -422,26 +916,30 @@ export async function rehydrateProject(
     return null;
   }
 
-  // Phase 3 — Run `npm install`, pipe output to terminal
+  // Phase 3 — Mount cached node_modules if the lockfile is unchanged
+  onPhase?.("restoring");
+  if (await restoreNodeModules(instance, userHash, projectId, encryptionKey)) {
+    terminal?.writeln(
+      "\r\n\x1b[1;32m✓ node_modules restored from cache\x1b[0m\r\n"
+    );
+    onPhase?.("ready");
+    return null;
+  }
+
+  // Phase 4 — Run `npm install`, pipe output to terminal
   onPhase?.("installing");
 
   if (terminal) {
     terminal.writeln("\r\n\x1b[1;36m▶ Running npm install…\x1b[0m\r\n");
   }
 
-  const installProcess = await instance.spawn("npm", ["install"]);
-
-  // Pipe stdout → terminal
-  installProcess.output.pipeTo(
-    new WritableStream({
-      write(data) {
-        terminal?.write(data);
-      },
-    })
-  );
-
   // Wait for install to finish
-  const exitCode = await installProcess.exit;
+  const { process: installProcess, exitCode } = await runNpmInstall(
+    instance,
+    terminal,
+    userHash,
+    encryptionKey
+  );
 
   if (exitCode !== 0) {
     terminal?.writeln(
@@ -454,6 +952,11 @@ export async function rehydrateProject(
       "\r\n\x1b[1;32m✓ npm install complete\x1b[0m\r\n"
     );
     onPhase?.("ready");
+
+    // Cache in the background — the project is usable meanwhile
+    snapshotNodeModules(instance, userHash, projectId, encryptionKey).catch((err) =>
+      console.warn("[snapshotNodeModules] Failed:", err)
+    );
   }
 
   return installProcess;
@@ -484,7 +987,8 @@ export interface InitializeProjectCallbacks {
  *      file so the template survives page reloads.
  *
  *   4. **npm install** — runs `npm install` and pipes output to the
- *      terminal so the user sees real-time progress.
+ *      terminal so the user sees real-time progress, then caches the
+ *      resulting `node_modules`.
  *
  * The user manually starts `npm run dev` and refreshes the preview.
  */
@@ -560,18 +1064,7 @@ export async function initializeProject(
   onPhase?.("installing");
   terminal?.writeln("\x1b[1;36m▶ Running npm install…\x1b[0m\r\n");
 
-  const installProcess = await instance.spawn("npm", ["install"]);
-
-  // Pipe install output → terminal
-  installProcess.output.pipeTo(
-    new WritableStream({
-      write(data) {
-        terminal?.write(data);
-      },
-    })
-  );
-
-  const exitCode = await installProcess.exit;
+  const { exitCode } = await runNpmInstall(instance, terminal, userHash, encryptionKey);
 
   if (exitCode !== 0) {
     terminal?.writeln(
@@ -587,6 +1080,10 @@ export async function initializeProject(
     "\x1b[2m   Run 'npm run dev' to start the dev server, then refresh the preview.\x1b[0m\r\n"
   );
   onPhase?.("ready");
+
+  snapshotNodeModules(instance, userHash, projectId, encryptionKey).catch((err) =>
+    console.warn("[snapshotNodeModules] Failed:", err)
+  );
 }
 
 // ─── Teardown ────────────────────────────────────────────────
@@ -605,10 +1102,13 @@ export function killProcess(proc: WebContainerProcess | null): void {
  * Full project teardown — kill server, clean up state.
  *
  * @param serverProcess — The running server process (if any).
+ * @param shellProcesses — jsh processes of every terminal session.
  */
 export function teardownProject(
-  serverProcess: WebContainerProcess | null
+  serverProcess: WebContainerProcess | null,
+  shellProcesses: WebContainerProcess[] = []
 ): void {
+  shellProcesses.forEach(killProcess);
   killProcess(serverProcess);
 }
 
@@ -650,8 +1150,8 @@ export async function wipeContainerFS(
 export interface SwitchProjectOptions {
   /** The booted WebContainer (singleton — never changes). */
   instance: WebContainer;
-  /** The jsh process to kill before respawning. */
-  shellProcess: WebContainerProcess | null;
+  /** The jsh processes of every terminal session, killed before respawning. */
+  shellProcesses: WebContainerProcess[];
   /** The running server process (dev/start) to kill. */
   serverProcess: WebContainerProcess | null;
   /** New project's OPFS coordinates. */
@@ -667,7 +1167,7 @@ export interface SwitchProjectOptions {
 /**
  * Full project switch sequence — designed to eliminate "ghost files":
  *
- *   1. **Teardown** — kill the active jsh shell and any npm server
+ *   1. **Teardown** — kill every terminal's jsh shell and any npm server
  *      processes so nothing holds file handles or writes to the FS.
  *   2. **Wipe FS** — recursively delete every file at `/` using
  *      `readdir` + `rm({ recursive: true })`.
@@ -675,7 +1175,8 @@ export interface SwitchProjectOptions {
  *      scrollback so the user doesn't see stale output.
  *   4. **Mount new project** — mount the new project's OPFS files
  *      into the now-empty container FS.
- *   5. **Auto npm install** — if `package.json` exists, run
+ *   5. **Dependencies** — if `package.json` exists, mount the cached
+ *      `node_modules` when the lockfile matches, otherwise run
  *      `npm install` and pipe output to the terminal.
  *
  * Returns the npm install process (if spawned) so the caller can
@@ -688,7 +1189,7 @@ export async function switchProject(
 ): Promise<WebContainerProcess | null> {
   const {
     instance,
-    shellProcess,
+    shellProcesses,
     serverProcess,
     userHash,
     projectId,
@@ -698,8 +1199,10 @@ export async function switchProject(
   } = opts;
 
   // 1. Teardown — kill all active processes
-  killProcess(shellProcess);
-  killProcess(serverProcess);
+  teardownProject(serverProcess, shellProcesses);
+  // …including anything else still registered (e.g. an unfinished install)
+  processManager.killAll();
+  processManager.clearFinished();
 
   // 2. Wipe the container file system
   await wipeContainerFS(instance);
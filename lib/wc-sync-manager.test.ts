@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebContainer } from "@webcontainer/api";
+import { OPFSWriteQueue } from "./opfs-write-queue";
+import { WCSyncManager } from "./wc-sync-manager";
+
+/** A container file system without fs.watch, counting file reads. */
+function fakeContainer(files: Map<string, string>) {
+  const reads: string[] = [];
+  const fs = {
+    watch: () => {
+      throw new Error("not supported");
+    },
+    readdir: async (dir: string) => {
+      const prefix = dir === "/" ? "" : `${dir.slice(1)}/`;
+      if (prefix && ![...files.keys()].some((p) => p.startsWith(prefix))) throw new Error("ENOTDIR");
+      const names = new Map<string, boolean>();
+      for (const path of files.keys()) {
+        if (!path.startsWith(prefix)) continue;
+        const [name, ...rest] = path.slice(prefix.length).split("/");
+        names.set(name, rest.length > 0);
+      }
+      return [...names].map(([name, isDir]) => ({ name, isDirectory: () => isDir }));
+    },
+    readFile: async (path: string, encoding?: string) => {
+      const content = files.get(path.slice(1));
+      if (content === undefined) throw new Error("ENOENT");
+      reads.push(path.slice(1));
+      return encoding ? content : new TextEncoder().encode(content);
+    },
+  };
+  return { wc: { fs } as unknown as WebContainer, reads };
+}
+
+describe("WCSyncManager polling", () => {
+  const files = new Map<string, string>();
+  let container: ReturnType<typeof fakeContainer>;
+  let ops: string[];
+  let manager: WCSyncManager;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    files.clear();
+    files.set("src/a.ts", "a");
+    files.set("src/b.ts", "b");
+    container = fakeContainer(files);
+    ops = [];
+    const done = (op: string) => async () => {
+      ops.push(op);
+    };
+    manager = new WCSyncManager(container.wc, new OPFSWriteQueue(), {
+      userHash: "u",
+      projectId: "p",
+      pollInterval: 1000,
+      writeFileToOPFS: (_u, _p, path, content) => done(`write ${path} ${content}`)(),
+      createDirInOPFS: (_u, _p, path) => done(`mkdir ${path}`)(),
+      deleteFromOPFS: (_u, _p, path) => done(`delete ${path}`)(),
+      renameInOPFS: (_u, _p, from, to) => done(`rename ${from} ${to}`)(),
+    });
+    manager.start();
+    await manager.syncNow();
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("reads only new files on a poll", async () => {
+    container.reads.length = 0;
+    files.set("src/a.ts", "changed");
+    files.set("src/c.ts", "c");
+    await vi.advanceTimersByTimeAsync(1000);
+    await manager.stop();
+    expect(container.reads).toEqual(["src/c.ts"]);
+    expect(ops).toEqual(["write src/c.ts c"]);
+  });
+
+  it("picks up edits to existing files on a full rescan", async () => {
+    files.set("src/a.ts", "changed");
+    await manager.syncNow();
+    expect(ops).toEqual(["write src/a.ts changed"]);
+  });
+
+  it("detects a rename from the listing", async () => {
+    files.delete("src/b.ts");
+    files.set("lib/b.ts", "b");
+    await vi.advanceTimersByTimeAsync(1000);
+    await manager.stop();
+    expect(ops).toEqual(["mkdir lib", "rename src/b.ts lib/b.ts"]);
+  });
+});
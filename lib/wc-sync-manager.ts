@@ -2,23 +2,47 @@
  * WebContainer Sync Manager — smart bi-directional sync between
  * the WebContainer filesystem and OPFS.
  *
+ * The editor writes OPFS first and mirrors each change into the
+ * container (syncFileToContainer & co. in useWebContainer). This manager
+ * covers the other direction: anything a shell command, code generator
+ * or `npm init` creates, modifies, renames or deletes in the container
+ * is persisted to OPFS so it survives a reload.
+ *
  * Responsibilities:
- *   1. Watch WebContainer FS for changes (via polling — WebContainer
- *      doesn't expose a native watcher API).
- *   2. Exclude heavyweight paths like `node_modules/` and `.git/`
- *      from sync-back to OPFS.
- *   3. Sync important generated files (`package-lock.json`, etc.)
- *      from the container back to OPFS so they survive reloads.
- *   4. Use the OPFSWriteQueue for safe serialized writes.
+ *   1. Detect changes across the whole container tree — through a
+ *      recursive `fs.watch` where the container supports it, otherwise
+ *      by polling the directory listing (which reads only new files).
+ *      Either way a slow full rescan catches missed events and edits to
+ *      existing files, as does `syncNow()`.
+ *   2. Skip what the project's `.gitignore` / `.southstackignore` files
+ *      ignore, plus `node_modules/` and `.git/` (see ignore-rules.ts), and
+ *      the `.env` generated from the Env panel (see env-vars.ts). A file
+ *      that becomes ignored is left alone in OPFS, not deleted.
+ *   3. Diff against the last-seen tree, kept as a size and SHA-256 per
+ *      file rather than its content: new and modified files are
+ *      written, vanished ones deleted, and a file that disappears while
+ *      an identical one appears is treated as a rename.
+ *   4. Hold back changes to files with unsaved editor edits, so the
+ *      user can resolve the conflict instead of one side silently
+ *      winning (`checkConflict`, see file-versions.ts).
+ *   5. Use the OPFSWriteQueue for safe serialized writes — retried, and
+ *      journaled so a reload mid-queue doesn't lose them.
+ *
+ * Only text files are synced — OPFS project files are text (see
+ * opfs.ts) — so binary files stay container-only.
  *
  * Usage:
  *   const mgr = new WCSyncManager(wc, writeQueue, { ... });
- *   mgr.start();              // begin polling
+ *   mgr.start();              // take a baseline, begin watching
+ *   await mgr.syncNow();      // persist pending changes right away
  *   await mgr.stop();         // stop + flush
  */
 
-import type { WebContainer } from "@webcontainer/api";
-import { OPFSWriteQueue } from "./opfs-write-queue";
+import type { IFSWatcher, WebContainer } from "@webcontainer/api";
+import { DOTENV_HEADER, isEnvFile } from "./env-vars";
+import { hashContent } from "./file-versions";
+import { IgnoreRules, isIgnoreFile } from "./ignore-rules";
+import { OPFSWriteQueue, type WriteOp } from "./opfs-write-queue";
 
 // ─── Configuration ──────────────────────────────────────────
 
@@ -29,7 +53,7 @@ export interface SyncManagerConfig {
   projectId: string;
   /** AES-GCM encryption key for OPFS writes. */
   encryptionKey?: CryptoKey;
-  /** Polling interval in ms (default: 2000). */
+  /** Interval in ms for polling the tree listing when fs.watch is unavailable (default: 2000). */
   pollInterval?: number;
   /** OPFS writeFile function — injected to avoid circular deps. */
   writeFileToOPFS: (
@@ -39,46 +63,55 @@ export interface SyncManagerConfig {
     content: string,
     encryptionKey?: CryptoKey
   ) => Promise<void>;
-  /** Optional callback when a file is synced back to OPFS. */
+  /** OPFS createDirectory function. */
+  createDirInOPFS: (userHash: string, projectId: string, dirPath: string) => Promise<void>;
+  /** OPFS deleteEntry function (recursive). */
+  deleteFromOPFS: (userHash: string, projectId: string, entryPath: string) => Promise<void>;
+  /** OPFS renameEntry function. */
+  renameInOPFS: (
+    userHash: string,
+    projectId: string,
+    oldPath: string,
+    newPath: string
+  ) => Promise<void>;
+  /** Optional callback when a change is synced back to OPFS. */
   onSyncBack?: (path: string) => void;
+  /**
+   * Called for every file the container modified, before it is written
+   * to OPFS. Resolve true to hold the write back — the change conflicts
+   * with unsaved edits in the editor, which the caller will resolve.
+   */
+  checkConflict?: (path: string, content: string) => Promise<boolean>;
 }
 
-// Paths that should NEVER be synced back to OPFS
-const EXCLUDED_PREFIXES = [
-  "node_modules/",
-  "node_modules",
-  ".git/",
-  ".git",
-  ".cache/",
-  ".cache",
-  ".next/",
-  ".next",
-  "dist/",
-  "dist",
-  "build/",
-  "build",
-  ".turbo/",
-  ".turbo",
-];
-
-// Files that SHOULD be synced back to OPFS when changed in container
-// (e.g. after `npm install` generates/updates them)
-const SYNC_BACK_FILES = [
-  "package-lock.json",
-  "package.json",
-  "yarn.lock",
-  "pnpm-lock.yaml",
-  "bun.lockb",
-  "tsconfig.json",
-];
+/** Watch events are gathered for this long before the changed paths are read (ms). */
+const WATCH_DEBOUNCE = 300;
+
+/** The whole tree is still re-read this often to catch missed events and edits a listing cannot show (ms). */
+const RESCAN_INTERVAL = 30_000;
+
+/** Bytes checked for NUL when deciding whether a file is binary. */
+const BINARY_SNIFF_BYTES = 8000;
 
 // ─── Types ──────────────────────────────────────────────────
 
 interface FileSnapshot {
-  /** File content at last poll. */
-  content: string;
-  /** Timestamp of last modification we observed. */
-  mtime: number;
+  /** Content length at last scan. */
+  size: number;
+  /** SHA-256 of the content at last scan. */
+  hash: string;
+}
+
+interface ScannedFile {
+  snapshot: FileSnapshot;
+  /** The content, only for files that differ from their last snapshot. */
+  content: string | null;
+}
+
+/** What a scan found: text files by path, and every directory. */
+interface TreeState {
+  files: Map<string, ScannedFile>;
+  dirs: Set<string>;
 }
 
 // ─── Manager ────────────────────────────────────────────────
@@ -89,8 +122,20 @@ export class WCSyncManager {
   private config: SyncManagerConfig;
   private pollInterval: number;
   private timerId: ReturnType<typeof setInterval> | null = null;
+  private pollTimerId: ReturnType<typeof setInterval> | null = null;
+  private watcher: IFSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private snapshots = new Map<string, FileSnapshot>();
-  private polling = false;
+  private dirs = new Set<string>();
+  /** Paths reported by the watcher since the last scan. */
+  private dirty = new Set<string>();
+  /** Ignore files read from the container so far. */
+  private rules = new IgnoreRules();
+  /** Content the editor wrote to OPFS itself, per path (see `expectWrite`). */
+  private expected = new Map<string, string>();
+  /** Scans run one at a time, chained on this promise. */
+  private current: Promise<void> = Promise.resolve();
+  private running = false;
 
   constructor(
     wc: WebContainer,
@@ -103,100 +148,329 @@ export class WCSyncManager {
     this.pollInterval = config.pollInterval ?? 2000;
   }
 
-  /** Start the polling loop. */
+  /** Take a baseline of the tree and start watching (or polling). */
   start(): void {
-    if (this.timerId) return;
-    // Do an initial snapshot (don't sync-back on first run)
-    this.takeSnapshot(true).catch((err) =>
-      console.warn("[SyncManager] Initial snapshot failed:", err)
-    );
-    this.timerId = setInterval(() => {
-      if (!this.polling) {
-        this.polling = true;
-        this.takeSnapshot(false)
-          .catch((err) =>
-            console.warn("[SyncManager] Poll failed:", err)
-          )
-          .finally(() => {
-            this.polling = false;
-          });
-      }
-    }, this.pollInterval);
+    if (this.running) return;
+    this.running = true;
+
+    // Initial snapshot — record the baseline, don't sync anything back
+    this.enqueueScan(() => this.baseline());
+
+    try {
+      this.watcher = this.wc.fs.watch("/", { recursive: true }, (_event, filename) => {
+        const path = normalize(typeof filename === "string" ? filename : new TextDecoder().decode(filename));
+        if (!path || this.rules.isIgnored(path)) return;
+        this.dirty.add(path);
+        this.scheduleDirtyScan();
+      });
+    } catch (err) {
+      console.info("[SyncManager] fs.watch unavailable — polling instead:", err);
+      this.pollTimerId = setInterval(() => this.enqueueScan(() => this.scan(null, false)), this.pollInterval);
+    }
+    this.timerId = setInterval(() => this.enqueueScan(() => this.scan(null)), RESCAN_INTERVAL);
   }
 
-  /** Stop polling and flush any pending writes. */
+  /** Stop watching and flush any pending writes. */
   async stop(): Promise<void> {
+    this.running = false;
+    this.watcher?.close();
+    this.watcher = null;
     if (this.timerId) {
       clearInterval(this.timerId);
       this.timerId = null;
     }
+    if (this.pollTimerId) {
+      clearInterval(this.pollTimerId);
+      this.pollTimerId = null;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.dirty.clear();
+    await this.current;
+    await this.queue.flush();
+  }
+
+  /**
+   * Rescan the whole tree right away and wait for any changes to reach
+   * OPFS — e.g. after an npm command rewrote package.json.
+   */
+  async syncNow(): Promise<void> {
+    this.dirty.clear();
+    await this.enqueueScan(() => this.scan(null));
     await this.queue.flush();
   }
 
+  /**
+   * Scan `path` again soon — e.g. once it is no longer open in the
+   * editor, so a change held back for it (`checkConflict`) can go through.
+   */
+  recheck(path: string): void {
+    if (!this.running) return;
+    this.dirty.add(path);
+    this.scheduleDirtyScan();
+  }
+
+  /**
+   * Record that the editor is writing `content` to OPFS for `path` and
+   * mirroring it into the container, so that copy isn't synced back.
+   */
+  expectWrite(path: string, content: string): void {
+    this.expected.set(path, content);
+  }
+
   /** Clear internal snapshots (e.g. before a fresh mount). */
   reset(): void {
     this.snapshots.clear();
+    this.dirs.clear();
+    this.rules.clear();
+    this.expected.clear();
   }
 
   // ── Internal ──────────────────────────────────────────────
 
+  private enqueueScan(scan: () => Promise<void>): Promise<void> {
+    this.current = this.current
+      .then(() => (this.running ? scan() : undefined))
+      .catch((err) => console.warn("[SyncManager] Scan failed:", err));
+    return this.current;
+  }
+
+  private scheduleDirtyScan(): void {
+    if (this.debounceTimer) return;
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const paths = [...this.dirty];
+      this.dirty.clear();
+      this.enqueueScan(() => this.scan(paths));
+    }, WATCH_DEBOUNCE);
+  }
+
+  /** Record the current tree without syncing anything. */
+  private async baseline(): Promise<void> {
+    this.rules.clear();
+    const state = await this.readTree([""], true);
+    this.snapshots = new Map([...state.files].map(([path, file]) => [path, file.snapshot]));
+    this.dirs = state.dirs;
+  }
+
   /**
-   * Walk the sync-back file list in the container, compare to
-   * cached snapshots, and enqueue OPFS writes for changed files.
+   * Re-read `paths` (each with everything below it), or the whole tree
+   * for null, and sync the differences from the last scan to OPFS.
+   * Without `reread`, only files that weren't there last time are read.
    */
-  private async takeSnapshot(isInitial: boolean): Promise<void> {
-    for (const filePath of SYNC_BACK_FILES) {
-      try {
-        const raw = await this.wc.fs.readFile(`/${filePath}`, "utf-8");
-        const content =
-          typeof raw === "string" ? raw : new TextDecoder().decode(raw);
+  private async scan(paths: string[] | null, reread = true): Promise<void> {
+    // An edited ignore file can change what counts anywhere in its directory
+    const roots = paths === null ? [""] : collapse(paths.map((p) => (isIgnoreFile(p) ? parentDir(p) : p)));
+    const inScope = (path: string) => roots.some((root) => isWithin(path, root));
+    // A full scan re-reads every ignore file, dropping deleted ones
+    if (paths === null) this.rules.clear();
+    else for (const path of paths.filter(isIgnoreFile)) await this.loadIgnoreFile(path);
+    const state = await this.readTree(roots, reread);
+    if (!this.running) return;
+
+    // ── Diff against the last scan ──
+    const created: string[] = [];
+    const modified: string[] = [];
+    for (const [path, file] of state.files) {
+      if (file.content === null) continue;
+      if (this.snapshots.has(path)) modified.push(path);
+      else created.push(path);
+    }
+    const contentOf = (path: string) => state.files.get(path)!.content!;
+    const missing = [...this.snapshots.keys()].filter((p) => inScope(p) && !state.files.has(p));
+    const missingDirs = [...this.dirs].filter((d) => inScope(d) && !state.dirs.has(d));
+    // Paths that are ignored now are only forgotten — their OPFS copy stays
+    const deleted = missing.filter((p) => !this.rules.isIgnored(p));
+    const createdDirs = [...state.dirs].filter((d) => !this.dirs.has(d));
+    const deletedDirs = missingDirs.filter((d) => !this.rules.isIgnored(d, true));
 
-        const prev = this.snapshots.get(filePath);
-        const now = Date.now();
+    // A file that vanished while an identical one appeared was moved
+    const renames: Array<[string, string]> = [];
+    for (const oldPath of deleted) {
+      const { size, hash } = this.snapshots.get(oldPath)!;
+      const idx = created.findIndex((p) => {
+        const snapshot = state.files.get(p)!.snapshot;
+        return snapshot.size === size && snapshot.hash === hash;
+      });
+      if (idx !== -1) renames.push([oldPath, created.splice(idx, 1)[0]]);
+    }
+    const renamed = new Set(renames.map(([oldPath]) => oldPath));
 
-        if (isInitial) {
-          // Just record the baseline — don't write back
-          this.snapshots.set(filePath, { content, mtime: now });
-          continue;
-        }
+    // Changes to files being edited wait for the user
+    const held = new Set<string>();
+    if (this.config.checkConflict) {
+      for (const path of modified) {
+        if (await this.config.checkConflict(path, contentOf(path))) held.add(path);
+      }
+      if (!this.running) return;
+    }
 
-        if (!prev || prev.content !== content) {
-          // Content changed — enqueue OPFS write
-          this.snapshots.set(filePath, { content, mtime: now });
-
-          const { userHash, projectId, encryptionKey, writeFileToOPFS, onSyncBack } =
-            this.config;
-
-          this.queue.enqueue({
-            key: filePath,
-            execute: async () => {
-              await writeFileToOPFS(
-                userHash,
-                projectId,
-                filePath,
-                content,
-                encryptionKey
-              );
-              onSyncBack?.(filePath);
-            },
-          });
-        }
+    // ── Update the baseline, then queue the OPFS changes ──
+    // Held paths keep their old snapshot, so every scan checks them again until resolved
+    for (const path of missing) this.snapshots.delete(path);
+    for (const [path, file] of state.files) {
+      if (file.content !== null && !held.has(path)) this.snapshots.set(path, file.snapshot);
+    }
+    for (const dir of missingDirs) this.dirs.delete(dir);
+    for (const dir of createdDirs) this.dirs.add(dir);
+
+    const { userHash, projectId } = this.config;
+    for (const dir of createdDirs) {
+      this.enqueue(dir, dir, { kind: "mkdir", path: dir }, () => this.config.createDirInOPFS(userHash, projectId, dir));
+    }
+    for (const [oldPath, newPath] of renames) {
+      // Keyed on both paths — a later write to `newPath` must not replace the move
+      this.enqueue(`${oldPath} → ${newPath}`, newPath, { kind: "rename", from: oldPath, to: newPath }, () =>
+        this.config.renameInOPFS(userHash, projectId, oldPath, newPath)
+      );
+    }
+    for (const path of [...created, ...modified.filter((p) => !held.has(p))]) {
+      const content = contentOf(path);
+      const expected = this.expected.get(path);
+      this.expected.delete(path);
+      if (content === expected) continue; // The editor's own write, already in OPFS
+      this.enqueue(path, path, { kind: "write", path, content }, () =>
+        this.config.writeFileToOPFS(userHash, projectId, path, content, this.config.encryptionKey)
+      );
+    }
+    // Deleting a directory takes its files with it — only delete the topmost
+    const topDeletedDirs = deletedDirs.filter((d) => !deletedDirs.some((o) => o !== d && isWithin(d, o)));
+    for (const path of [
+      ...topDeletedDirs,
+      ...deleted.filter((p) => !renamed.has(p) && !topDeletedDirs.some((d) => isWithin(p, d))),
+    ]) {
+      this.enqueue(path, path, { kind: "delete", path }, () => this.config.deleteFromOPFS(userHash, projectId, path));
+    }
+  }
+
+  /**
+   * Queue one OPFS change under `key` (a newer change with the same key
+   * replaces it); an entry that is already gone is not an error.
+   * Failures are reported through the queue's status, not here.
+   */
+  private enqueue(key: string, path: string, op: WriteOp, execute: () => Promise<void>): void {
+    this.queue
+      .enqueue({
+        key,
+        op,
+        execute: async () => {
+          try {
+            await execute();
+          } catch (err) {
+            if ((err as DOMException)?.name !== "NotFoundError") throw err;
+          }
+          this.config.onSyncBack?.(path);
+        },
+      })
+      .catch(() => {
+        /* kept by the queue for retryFailed() */
+      });
+  }
+
+  /**
+   * Read every syncable file and directory at or below `roots`. Files
+   * with a snapshot are only listed unless `reread` is set.
+   */
+  private async readTree(roots: string[], reread: boolean): Promise<TreeState> {
+    const state: TreeState = { files: new Map(), dirs: new Set() };
+    for (const root of roots) {
+      if (root && this.rules.isIgnored(root)) continue;
+      let entries;
+      try {
+        entries = await this.wc.fs.readdir(`/${root}`, { withFileTypes: true });
       } catch {
-        // File doesn't exist in container — that's fine (e.g. no lock file yet)
+        // Not a directory — a file, or gone
+        if (root) await this.readInto(state, root, reread);
+        continue;
+      }
+      if (root) {
+        if (this.rules.isIgnored(root, true)) continue;
+        state.dirs.add(root);
+      }
+      const children = entries.map((e) => ({
+        path: root ? `${root}/${e.name}` : e.name,
+        isDir: e.isDirectory(),
+      }));
+      // This directory's ignore files decide which of its children count
+      for (const child of children) {
+        if (!child.isDir && isIgnoreFile(child.path)) await this.loadIgnoreFile(child.path);
+      }
+      for (const child of children) {
+        if (this.rules.isIgnored(child.path, child.isDir)) continue;
+        if (child.isDir) {
+          const sub = await this.readTree([child.path], reread);
+          sub.files.forEach((file, path) => state.files.set(path, file));
+          sub.dirs.forEach((dir) => state.dirs.add(dir));
+        } else {
+          await this.readInto(state, child.path, reread);
+        }
       }
     }
+    return state;
   }
 
   /**
-   * Check whether a given relative path should be excluded from
-   * OPFS sync-back.
+   * Add one file to `state` if it exists, is text and should be synced.
+   * Its content is kept only if it changed since the last snapshot.
    */
-  static isExcluded(relativePath: string): boolean {
-    for (const prefix of EXCLUDED_PREFIXES) {
-      if (relativePath === prefix || relativePath.startsWith(prefix.endsWith("/") ? prefix : prefix + "/")) {
-        return true;
-      }
+  private async readInto(state: TreeState, path: string, reread: boolean): Promise<void> {
+    if (this.rules.isIgnored(path)) return;
+    const prev = this.snapshots.get(path);
+    if (prev && !reread) {
+      state.files.set(path, { snapshot: prev, content: null });
+      return;
+    }
+    let bytes: Uint8Array;
+    try {
+      bytes = await this.wc.fs.readFile(`/${path}`);
+    } catch {
+      return; // Gone
+    }
+    if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return;
+    let content: string;
+    try {
+      content = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      return; // Not UTF-8 — binary
+    }
+    // The generated .env lives in the container only
+    if (isEnvFile(path) && content.startsWith(DOTENV_HEADER)) return;
+    const snapshot = { size: content.length, hash: await hashContent(content) };
+    const unchanged = prev?.size === snapshot.size && prev.hash === snapshot.hash;
+    state.files.set(path, { snapshot, content: unchanged ? null : content });
+  }
+
+  /** (Re)load the patterns of one ignore file; a missing file drops them. */
+  private async loadIgnoreFile(path: string): Promise<void> {
+    try {
+      this.rules.setFile(path, await this.wc.fs.readFile(`/${path}`, "utf-8"));
+    } catch {
+      this.rules.setFile(path, null);
     }
-    return false;
   }
 }
+
+// ─── Path Helpers ───────────────────────────────────────────
+
+/** Watcher paths → project-relative paths ("/src/a.ts" → "src/a.ts"). */
+function normalize(path: string): string {
+  return path.replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+/** True if `path` is `root` or below it ("" is the project root). */
+function isWithin(path: string, root: string): boolean {
+  return root === "" || path === root || path.startsWith(`${root}/`);
+}
+
+/** "src/a/.gitignore" → "src/a" ("" for top-level paths). */
+function parentDir(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/** Drop paths already covered by another path in the list. */
+function collapse(paths: string[]): string[] {
+  return paths.filter((p) => !paths.some((o) => o !== p && isWithin(p, o)));
+}
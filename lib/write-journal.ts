@@ -0,0 +1,147 @@
+/**
+ * Write journal — OPFS changes queued in OPFSWriteQueue but not yet committed.
+ *
+ * OPFSWriteQueue records the operations of its outstanding tasks here
+ * before running them (see `WriteJournal` in opfs-write-queue.ts). If
+ * the tab crashes or reloads mid-queue, or a write keeps failing, the
+ * journal still holds them; `replayWriteJournal` applies them to the
+ * project before it is next mounted. The journal holds file content, so
+ * it is encrypted with the same AES-GCM key as project files:
+ *
+ *   OPFS root / <userHash> / .write-journal / <projectId> / journal.json
+ *
+ * Replaying is safe to repeat: writes and deletes are idempotent, and an
+ * operation whose source is already gone is skipped. A journal that
+ * can't be read is never dropped: it is set aside under a new name and
+ * the replay fails, so the editor can report it.
+ */
+
+import {
+  createDirectory,
+  deleteEntry,
+  deleteMetaJson,
+  deleteProjectMeta,
+  readMetaJson,
+  renameEntry,
+  renameMetaFile,
+  writeFile,
+  writeMetaJson,
+} from "./opfs";
+import type { WriteJournal, WriteOp } from "./opfs-write-queue";
+
+// ─── Constants ──────────────────────────────────────────────
+
+/** Metadata namespace — stored under OPFS / <userHash> / .write-journal */
+const JOURNAL_NAMESPACE = "write-journal";
+
+const JOURNAL_FILE = "journal.json";
+
+// ─── Storage ────────────────────────────────────────────────
+
+/**
+ * The journaled operations. If the journal can't be read it is moved
+ * out of the way — the queue would otherwise overwrite it — and this
+ * throws, naming where it was kept.
+ */
+async function readJournal(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<WriteOp[]> {
+  try {
+    return (
+      (await readMetaJson<WriteOp[]>(
+        userHash,
+        JOURNAL_NAMESPACE,
+        projectId,
+        JOURNAL_FILE,
+        encryptionKey
+      )) ?? []
+    );
+  } catch (err) {
+    const keptAs = `journal-${Date.now()}.unreadable`;
+    await renameMetaFile(userHash, JOURNAL_NAMESPACE, projectId, JOURNAL_FILE, keptAs);
+    throw new Error(
+      `Uncommitted writes from a previous session couldn't be read and were not applied ` +
+        `(kept as .${JOURNAL_NAMESPACE}/${projectId}/${keptAs}): ${(err as Error).message}`
+    );
+  }
+}
+
+function writeJournal(
+  userHash: string,
+  projectId: string,
+  ops: WriteOp[],
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  if (ops.length === 0) {
+    return deleteMetaJson(userHash, JOURNAL_NAMESPACE, projectId, JOURNAL_FILE);
+  }
+  return writeMetaJson(userHash, JOURNAL_NAMESPACE, projectId, JOURNAL_FILE, ops, encryptionKey);
+}
+
+/** Apply one journaled operation to the project. */
+async function applyOp(
+  userHash: string,
+  projectId: string,
+  op: WriteOp,
+  encryptionKey?: CryptoKey
+): Promise<void> {
+  switch (op.kind) {
+    case "write":
+      return writeFile(userHash, projectId, op.path, op.content, encryptionKey);
+    case "mkdir":
+      return createDirectory(userHash, projectId, op.path);
+    case "delete":
+      return deleteEntry(userHash, projectId, op.path);
+    case "rename":
+      return renameEntry(userHash, projectId, op.from, op.to);
+  }
+}
+
+// ─── Public API ─────────────────────────────────────────────
+
+/** The journal for one project, to hand to OPFSWriteQueue. */
+export function createWriteJournal(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): WriteJournal {
+  return { save: (ops) => writeJournal(userHash, projectId, ops, encryptionKey) };
+}
+
+/**
+ * Apply whatever a previous session left in the journal, in order, and
+ * clear it. Operations that still fail stay journaled for next time.
+ * Returns the number of operations applied; rejects if the journal
+ * can't be read (see `readJournal`).
+ */
+export async function replayWriteJournal(
+  userHash: string,
+  projectId: string,
+  encryptionKey?: CryptoKey
+): Promise<number> {
+  const ops = await readJournal(userHash, projectId, encryptionKey);
+  if (ops.length === 0) return 0;
+
+  const remaining: WriteOp[] = [];
+  for (const op of ops) {
+    try {
+      await applyOp(userHash, projectId, op, encryptionKey);
+    } catch (err) {
+      if ((err as DOMException)?.name === "NotFoundError") continue;
+      console.warn(`[write-journal] Replay of ${op.kind} failed:`, err);
+      remaining.push(op);
+    }
+  }
+  await writeJournal(userHash, projectId, remaining, encryptionKey);
+  return ops.length - remaining.length;
+}
+
+/** Delete a project's journal together with the project. */
+export function deleteProjectWriteJournal(
+  userHash: string,
+  projectId: string
+): Promise<void> {
+  return deleteProjectMeta(userHash, JOURNAL_NAMESPACE, projectId);
+}
@@ -90,7 +90,13 @@ async function initEngine(requestedModelId) {
       },
     });
 
-    self.postMessage({ type: "init-done", modelId });
+    // Report the model's context window so the page can budget prompts
+    const record = webllm.prebuiltAppConfig?.model_list?.find(
+      (m) => m.model_id === modelId
+    );
+    const contextWindow = record?.overrides?.context_window_size ?? null;
+
+    self.postMessage({ type: "init-done", modelId, contextWindow });
   } catch (err) {
     self.postMessage({
       type: "init-error",